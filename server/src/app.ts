@@ -12,6 +12,17 @@ import healthRoutes from './routes/health';
 import productRoutes from './routes/products';
 import orderRoutes from './routes/orders';
 import uploadRoutes from './routes/upload';
+import tableRoutes from './routes/tables';
+import couponRoutes from './routes/coupons';
+import optionGroupRoutes from './routes/optionGroups';
+import categoryRoutes from './routes/categories';
+import menuRoutes from './routes/menus';
+import settingsRoutes from './routes/settings';
+import stockRoutes from './routes/stock';
+import ingredientRoutes from './routes/ingredients';
+import reportRoutes from './routes/reports';
+import paymentRoutes from './routes/payments';
+import memberRoutes from './routes/members';
 
 //Express application setup
 const app = express();
@@ -51,6 +62,17 @@ app.use('/api/v1/health', healthRoutes);
 app.use('/api/v1/restaurants', productRoutes);
 app.use('/api/v1/restaurants', orderRoutes);
 app.use('/api/v1/restaurants', uploadRoutes);
+app.use('/api/v1/restaurants', tableRoutes);
+app.use('/api/v1/restaurants', couponRoutes);
+app.use('/api/v1/restaurants', optionGroupRoutes);
+app.use('/api/v1/restaurants', categoryRoutes);
+app.use('/api/v1/restaurants', menuRoutes);
+app.use('/api/v1/restaurants', settingsRoutes);
+app.use('/api/v1/restaurants', stockRoutes);
+app.use('/api/v1/restaurants', ingredientRoutes);
+app.use('/api/v1/restaurants', reportRoutes);
+app.use('/api/v1/restaurants', paymentRoutes);
+app.use('/api/v1/restaurants', memberRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
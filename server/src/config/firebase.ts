@@ -1,6 +1,7 @@
 import admin from 'firebase-admin';
 import { getFirestore } from 'firebase-admin/firestore';
 import { getStorage } from 'firebase-admin/storage';
+import { getAuth } from 'firebase-admin/auth';
 
 /**
  * Firebase Admin SDK Configuration
@@ -84,6 +85,16 @@ class FirebaseConfig {
     return getStorage();
   }
 
+  /**
+   * Get Firebase Auth instance
+   */
+  getAuth() {
+    if (!this.initialized) {
+      this.initialize();
+    }
+    return getAuth();
+  }
+
   /**
    * Get Firebase Admin instance
    */
@@ -101,6 +112,7 @@ export const firebaseConfig = FirebaseConfig.getInstance();
 // Export convenient getters
 export const db = firebaseConfig.getFirestore();
 export const storage = firebaseConfig.getStorage();
+export const auth = firebaseConfig.getAuth();
 export const adminApp = firebaseConfig.getAdmin();
 
 // Auto-initialize on import
@@ -3,14 +3,105 @@ import { createServiceFactory } from '../services';
 import { 
   CreateProductInput, 
   UpdateProductInput, 
-  ProductQueryInput 
+  UpdateProductPositionsInput,
+  ProductQueryInput,
+  ChannelQueryInput
 } from '../models/schemas';
+import { Product, ProductOption, RecipeLine } from '../models/types';
 import { 
   asyncHandler, 
   successResponse, 
   paginatedResponse 
 } from '../middleware/errorHandler';
-import { NotFoundError } from '../middleware/errorHandler';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { withoutLinkedOptions } from '../utils/options';
+import { applySchedules } from '../utils/availability';
+import { getLocalTime } from '../utils/openingHours';
+import { preserveOptionStock } from '../utils/stock';
+import { getRecipeIngredientIds } from '../utils/foodCost';
+
+/**
+ * Reject products pointing to a category that does not exist
+ */
+const assertCategoryExists = async (restaurantId: string, categoryId?: string) => {
+  if (!categoryId) {
+    return;
+  }
+
+  const categoryRepository = createServiceFactory(restaurantId).createCategoryRepository();
+  if (!await categoryRepository.exists(categoryId)) {
+    throw new ValidationError('Product references an unknown category', [{
+      field: 'categoryId',
+      message: `Category ${categoryId} not found`,
+      code: 'CATEGORY_NOT_FOUND'
+    }]);
+  }
+};
+
+/**
+ * Keep only the products on the channel's menu, when a channel is requested
+ */
+const filterByChannelMenu = async (restaurantId: string, products: Product[], { channel }: ChannelQueryInput) => {
+  if (!channel) {
+    return products;
+  }
+
+  const menuRepository = createServiceFactory(restaurantId).createMenuRepository();
+  const menuProductIds = await menuRepository.getChannelProductIds(channel);
+
+  return menuProductIds ? products.filter(product => menuProductIds.has(product.id)) : products;
+};
+
+/**
+ * Evaluate product and category schedules at the current time in the restaurant timezone
+ */
+const withSchedules = async (restaurantId: string, products: Product[]) => {
+  const serviceFactory = createServiceFactory(restaurantId);
+  const [settings, categories] = await Promise.all([
+    serviceFactory.createSettingsRepository().getEffectiveSettings(),
+    serviceFactory.createCategoryRepository().findAll()
+  ]);
+
+  return applySchedules(products, categories, getLocalTime(new Date(), settings.timezone));
+};
+
+/**
+ * Reject links to option groups that do not exist
+ */
+const assertOptionGroupsExist = async (restaurantId: string, optionGroupIds: string[] = []) => {
+  const optionGroupRepository = createServiceFactory(restaurantId).createOptionGroupRepository();
+  const groups = await optionGroupRepository.findByIds(optionGroupIds);
+  const foundIds = new Set(groups.map(group => group.id));
+
+  const errors = optionGroupIds
+    .filter(id => !foundIds.has(id))
+    .map(id => ({
+      field: 'optionGroupIds',
+      message: `Option group ${id} not found`,
+      code: 'OPTION_GROUP_NOT_FOUND'
+    }));
+
+  if (errors.length > 0) {
+    throw new ValidationError('Product links unknown option groups', errors);
+  }
+};
+
+/**
+ * Reject recipes of the product or its choices using ingredients that do not exist
+ */
+const assertIngredientsExist = async (restaurantId: string, recipe?: RecipeLine[], options: ProductOption[] = []) => {
+  const ingredientIds = getRecipeIngredientIds(recipe, options.flatMap(option => option.choices));
+  const ingredientRepository = createServiceFactory(restaurantId).createIngredientRepository();
+  const missingIds = await ingredientRepository.findMissingIds(ingredientIds);
+
+  if (missingIds.length > 0) {
+    throw new ValidationError('Recipe references unknown ingredients', missingIds.map(id => ({
+      field: 'recipe',
+      message: `Ingredient ${id} not found`,
+      code: 'INGREDIENT_NOT_FOUND'
+    })));
+  }
+};
 
 /**
  * Product Controller
@@ -32,7 +123,7 @@ export class ProductController {
 
     return paginatedResponse(
       res,
-      result.products,
+      await withSchedules(restaurantId, result.products),
       {
         page: result.currentPage,
         limit: queryParams.limit,
@@ -59,7 +150,9 @@ export class ProductController {
       throw new NotFoundError('Product');
     }
 
-    return successResponse(res, product, 'Product retrieved successfully');
+    const [scheduledProduct] = await withSchedules(restaurantId, [product]);
+
+    return successResponse(res, scheduledProduct, 'Product retrieved successfully');
   });
 
   /**
@@ -73,7 +166,16 @@ export class ProductController {
     const serviceFactory = createServiceFactory(restaurantId);
     const productRepository = serviceFactory.createProductRepository();
 
-    const productId = await productRepository.create(productData);
+    await assertCategoryExists(restaurantId, productData.categoryId);
+    await assertOptionGroupsExist(restaurantId, productData.optionGroupIds);
+    await assertIngredientsExist(restaurantId, productData.recipe, productData.options);
+
+    const productId = await productRepository.create({
+      ...productData,
+      ...(productData.options && {
+        options: withoutLinkedOptions(productData.options, productData.optionGroupIds)
+      })
+    });
     const product = await productRepository.findById(productId);
 
     return successResponse(res, product, 'Product created successfully', 201);
@@ -96,7 +198,19 @@ export class ProductController {
       throw new NotFoundError('Product');
     }
 
-    await productRepository.update(productId, updateData);
+    await assertCategoryExists(restaurantId, updateData.categoryId);
+    await assertOptionGroupsExist(restaurantId, updateData.optionGroupIds);
+    await assertIngredientsExist(restaurantId, updateData.recipe, updateData.options);
+
+    const optionGroupIds = updateData.optionGroupIds ?? existingProduct.optionGroupIds;
+    await productRepository.update(productId, {
+      ...updateData,
+      ...(updateData.options && {
+        options: preserveOptionStock(withoutLinkedOptions(updateData.options, optionGroupIds), existingProduct.options)
+      }),
+      // Setting availability by hand overrides an automatic sell-out
+      ...(updateData.available !== undefined && existingProduct.soldOut && { soldOut: false })
+    });
     const updatedProduct = await productRepository.findById(productId);
 
     return successResponse(res, updatedProduct, 'Product updated successfully');
@@ -129,6 +243,7 @@ export class ProductController {
     }
 
     await productRepository.delete(productId);
+    await serviceFactory.createMenuRepository().removeProduct(productId);
 
     return successResponse(res, null, 'Product deleted successfully');
   });
@@ -143,14 +258,20 @@ export class ProductController {
     const serviceFactory = createServiceFactory(restaurantId);
     const productRepository = serviceFactory.createProductRepository();
 
-    const products = await productRepository.findByCategory(decodeURIComponent(category));
+    const categoryRepository = serviceFactory.createCategoryRepository();
+    const existingCategory = await categoryRepository.findByName(decodeURIComponent(category));
+    if (!existingCategory) {
+      throw new NotFoundError('Category');
+    }
+
+    const products = await withSchedules(restaurantId, await productRepository.findByCategoryId(existingCategory.id));
 
     return successResponse(res, products, 'Products retrieved successfully');
   });
 
   /**
-   * Get available products
-   * GET /api/v1/restaurants/:restaurantId/products/available
+   * Get available products, leaving out those outside their schedule
+   * GET /api/v1/restaurants/:restaurantId/products/available?channel=:channel
    */
   static getAvailableProducts = asyncHandler(async (req: Request, res: Response) => {
     const { restaurantId } = req.params;
@@ -158,14 +279,18 @@ export class ProductController {
     const serviceFactory = createServiceFactory(restaurantId);
     const productRepository = serviceFactory.createProductRepository();
 
-    const products = await productRepository.findAvailable();
+    const products = await filterByChannelMenu(
+      restaurantId,
+      (await withSchedules(restaurantId, await productRepository.findAvailable())).filter(product => product.availableNow),
+      req.query as unknown as ChannelQueryInput
+    );
 
     return successResponse(res, products, 'Available products retrieved successfully');
   });
 
   /**
    * Get highlighted products
-   * GET /api/v1/restaurants/:restaurantId/products/highlighted
+   * GET /api/v1/restaurants/:restaurantId/products/highlighted?channel=:channel
    */
   static getHighlightedProducts = asyncHandler(async (req: Request, res: Response) => {
     const { restaurantId } = req.params;
@@ -173,14 +298,18 @@ export class ProductController {
     const serviceFactory = createServiceFactory(restaurantId);
     const productRepository = serviceFactory.createProductRepository();
 
-    const products = await productRepository.findHighlighted();
+    const products = await filterByChannelMenu(
+      restaurantId,
+      (await withSchedules(restaurantId, await productRepository.findHighlighted())).filter(product => product.availableNow),
+      req.query as unknown as ChannelQueryInput
+    );
 
     return successResponse(res, products, 'Highlighted products retrieved successfully');
   });
 
   /**
-   * Get day specials
-   * GET /api/v1/restaurants/:restaurantId/products/specials
+   * Get day specials, including products whose specialDays rotate onto today
+   * GET /api/v1/restaurants/:restaurantId/products/specials?channel=:channel
    */
   static getDaySpecials = asyncHandler(async (req: Request, res: Response) => {
     const { restaurantId } = req.params;
@@ -188,7 +317,13 @@ export class ProductController {
     const serviceFactory = createServiceFactory(restaurantId);
     const productRepository = serviceFactory.createProductRepository();
 
-    const products = await productRepository.findDaySpecials();
+    // The rotation is evaluated per read, so the flag cannot be queried directly
+    const products = await filterByChannelMenu(
+      restaurantId,
+      (await withSchedules(restaurantId, await productRepository.findAvailable()))
+        .filter(product => product.isDaySpecial && product.availableNow),
+      req.query as unknown as ChannelQueryInput
+    );
 
     return successResponse(res, products, 'Day specials retrieved successfully');
   });
@@ -201,9 +336,10 @@ export class ProductController {
     const { restaurantId } = req.params;
 
     const serviceFactory = createServiceFactory(restaurantId);
-    const productRepository = serviceFactory.createProductRepository();
+    const categoryRepository = serviceFactory.createCategoryRepository();
 
-    const categories = await productRepository.getCategories();
+    // Names of the visible categories in menu order; GET /categories returns the full documents
+    const categories = (await categoryRepository.findVisible()).map(category => category.name);
 
     return successResponse(res, categories, 'Categories retrieved successfully');
   });
@@ -223,7 +359,7 @@ export class ProductController {
     const serviceFactory = createServiceFactory(restaurantId);
     const productRepository = serviceFactory.createProductRepository();
 
-    const products = await productRepository.search(q);
+    const products = await withSchedules(restaurantId, await productRepository.search(q));
 
     return successResponse(res, products, 'Search results retrieved successfully');
   });
@@ -245,7 +381,7 @@ export class ProductController {
       throw new NotFoundError('Product');
     }
 
-    await productRepository.updateAvailability(productId, available);
+    await productRepository.updateAvailability(productId, available, !!existingProduct.soldOut);
     const updatedProduct = await productRepository.findById(productId);
 
     return successResponse(res, updatedProduct, 'Product availability updated successfully');
@@ -289,11 +425,26 @@ export class ProductController {
    */
   static updatePositions = asyncHandler(async (req: Request, res: Response) => {
     const { restaurantId } = req.params;
-    const { updates } = req.body; // Array of { id, position }
+    const { updates }: UpdateProductPositionsInput = req.body;
 
     const serviceFactory = createServiceFactory(restaurantId);
     const productRepository = serviceFactory.createProductRepository();
 
+    // A batch fails as a whole, so check every product first
+    const products = await productRepository.findByIds(updates.map(update => update.id));
+    const foundIds = new Set(products.map(product => product.id));
+    const errors = updates
+      .filter(update => !foundIds.has(update.id))
+      .map(update => ({
+        field: 'updates',
+        message: `Product ${update.id} not found`,
+        code: 'PRODUCT_NOT_FOUND'
+      }));
+
+    if (errors.length > 0) {
+      throw new ValidationError('Positions reference unknown products', errors);
+    }
+
     await productRepository.updatePositions(updates);
 
     return successResponse(res, null, 'Product positions updated successfully');
@@ -0,0 +1,97 @@
+import { Request, Response, NextFunction } from 'express';
+import { auth } from '../config/firebase';
+import { createServiceFactory } from '../services';
+import { RequestContext, UserRole } from '../models/types';
+import { asyncHandler, UnauthorizedError, ForbiddenError } from './errorHandler';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      context?: RequestContext;
+    }
+  }
+}
+
+/**
+ * Extract the bearer token from the Authorization header
+ */
+const extractBearerToken = (req: Request): string | null => {
+  const header = req.get('Authorization');
+  if (!header) {
+    return null;
+  }
+
+  const [scheme, token] = header.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    return null;
+  }
+
+  return token;
+};
+
+/**
+ * Verify a Firebase ID token and return the user id
+ */
+const verifyToken = async (token: string): Promise<string> => {
+  try {
+    const decoded = await auth.verifyIdToken(token);
+    return decoded.uid;
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    if (code === 'auth/id-token-expired') {
+      throw new UnauthorizedError('Token expired');
+    }
+    throw new UnauthorizedError('Invalid token');
+  }
+};
+
+/**
+ * Authentication middleware
+ * Verifies the bearer token, checks that the user is an active member of the
+ * restaurant in the URL and attaches the request context
+ */
+export const authenticate = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const token = extractBearerToken(req);
+  if (!token) {
+    throw new UnauthorizedError('Authentication token is required');
+  }
+
+  const userId = await verifyToken(token);
+  const { restaurantId } = req.params;
+
+  const memberRepository = createServiceFactory(restaurantId).createMemberRepository();
+  const member = await memberRepository.findByUserId(userId);
+
+  if (!member || !member.active) {
+    throw new ForbiddenError('User is not a member of this restaurant');
+  }
+
+  req.context = {
+    restaurantId,
+    userId,
+    userRole: member.role
+  };
+
+  next();
+});
+
+/**
+ * Authorization middleware factory
+ * Must run after `authenticate`; allows only the listed roles
+ */
+export const authorize = (...roles: UserRole[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const role = req.context?.userRole;
+
+    if (!role) {
+      return next(new UnauthorizedError());
+    }
+
+    if (!roles.includes(role)) {
+      return next(new ForbiddenError(`Role '${role}' is not allowed to perform this action`));
+    }
+
+    next();
+  };
+};
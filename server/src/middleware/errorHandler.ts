@@ -27,9 +27,12 @@ export class AppError extends Error {
 }
 
 export class ValidationError extends AppError {
+  public readonly details?: unknown;
+
   constructor(message: string, details?: any) {
     super(message, 400, 'VALIDATION_ERROR');
     this.name = 'ValidationError';
+    this.details = details;
   }
 }
 
@@ -132,7 +135,8 @@ export const errorHandler = (
       success: false,
       error: {
         message: error.message,
-        code: error.code
+        code: error.code,
+        ...(error instanceof ValidationError && error.details !== undefined && { details: error.details })
       },
       timestamp: new Date().toISOString()
     });
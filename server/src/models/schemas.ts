@@ -8,55 +8,201 @@ import { z } from 'zod';
 const DateSchema = z.union([z.date(), z.string().datetime()]);
 const PositiveIntSchema = z.number().int().positive();
 const NonNegativeIntSchema = z.number().int().min(0);
+const TimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:mm');
+const WeekdaySchema = z.enum(['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']);
+
+// Sale window of a product or category; from and to go together, omitted means the whole day
+const AvailabilityWindowSchema = z.object({
+  days: z.array(WeekdaySchema).min(1).optional(),
+  from: TimeSchema.optional(),
+  to: TimeSchema.optional()
+}).refine(data => !data.from === !data.to, {
+  message: "Both from and to are required for a time range",
+  path: ["to"]
+});
+
+const AvailabilityScheduleSchema = z.array(AvailabilityWindowSchema).max(20);
+
+// Ingredient quantities used by one unit of a product or choice
+const RecipeSchema = z.array(z.object({
+  ingredientId: z.string().min(1),
+  quantity: z.number().positive()
+})).max(50);
 
 // Product schemas
 const ProductChoiceSchema = z.object({
   id: z.string().uuid(),
   name: z.string().min(1).max(100),
-  price: NonNegativeIntSchema
+  price: NonNegativeIntSchema,
+  stock: NonNegativeIntSchema.optional(), // initial count, later changed by orders and adjustments
+  lowStockThreshold: NonNegativeIntSchema.optional(),
+  recipe: RecipeSchema.optional()
 });
 
-const ProductOptionSchema = z.object({
+const ProductOptionBaseSchema = z.object({
   id: z.string().uuid(),
   name: z.string().min(1).max(100),
   required: z.boolean().optional(),
+  minSelections: NonNegativeIntSchema.optional(),
   maxSelections: PositiveIntSchema.optional(),
+  maxQuantityPerChoice: PositiveIntSchema.optional(),
   choices: z.array(ProductChoiceSchema).min(1)
 });
 
+const hasValidSelectionLimits = (data: { minSelections?: number; maxSelections?: number }) =>
+  !data.minSelections || !data.maxSelections || data.minSelections <= data.maxSelections;
+
+const selectionLimitsError = {
+  message: "Minimum selections cannot exceed maximum selections",
+  path: ["minSelections"]
+};
+
+const ProductOptionSchema = ProductOptionBaseSchema.refine(hasValidSelectionLimits, selectionLimitsError);
+
 export const CreateProductSchema = z.object({
   name: z.string().min(1).max(200),
   description: z.string().max(1000),
   imageUrl: z.string().url().optional(),
-  category: z.string().min(1).max(100),
+  categoryId: z.string().min(1),
   price: NonNegativeIntSchema,
   options: z.array(ProductOptionSchema).optional(),
+  optionGroupIds: z.array(z.string().min(1)).optional(),
   available: z.boolean().default(true),
   position: NonNegativeIntSchema.default(0),
   isHighlighted: z.boolean().optional(),
-  isDaySpecial: z.boolean().optional()
+  isDaySpecial: z.boolean().optional(),
+  schedule: AvailabilityScheduleSchema.optional(),
+  specialDays: z.array(WeekdaySchema).optional(),
+  stock: NonNegativeIntSchema.optional(),
+  lowStockThreshold: NonNegativeIntSchema.optional(),
+  recipe: RecipeSchema.optional()
 });
 
-export const UpdateProductSchema = CreateProductSchema.partial();
+// Stock only changes through orders and stock adjustments once the product exists
+export const UpdateProductSchema = CreateProductSchema.omit({ stock: true }).partial();
 
 export const ProductParamsSchema = z.object({
   restaurantId: z.string().min(1),
   productId: z.string().min(1)
 });
 
+export const UpdateProductPositionsSchema = z.object({
+  // One batched write; Firestore batches are capped at 500 operations
+  updates: z.array(z.object({
+    id: z.string().min(1),
+    position: NonNegativeIntSchema
+  })).min(1).max(500)
+});
+
+// Option group schemas (reusable groups; the id comes from the document)
+const OptionGroupBaseSchema = ProductOptionBaseSchema.omit({ id: true });
+
+export const CreateOptionGroupSchema = OptionGroupBaseSchema.refine(hasValidSelectionLimits, selectionLimitsError);
+
+export const UpdateOptionGroupSchema = OptionGroupBaseSchema.partial().refine(hasValidSelectionLimits, selectionLimitsError);
+
+export const OptionGroupParamsSchema = z.object({
+  restaurantId: z.string().min(1),
+  optionGroupId: z.string().min(1)
+});
+
+// Stock schemas
+const StockTargetSchema = z.object({
+  productId: z.string().min(1).optional(),
+  optionGroupId: z.string().min(1).optional(),
+  optionId: z.string().min(1).optional(),
+  choiceId: z.string().min(1).optional()
+});
+
+// Restock and waste move the count by qty units; a count sets it (null stops tracking)
+export const CreateStockAdjustmentSchema = z.discriminatedUnion('reason', [
+  StockTargetSchema.extend({ reason: z.literal('restock'), qty: PositiveIntSchema, note: z.string().max(500).optional() }),
+  StockTargetSchema.extend({ reason: z.literal('waste'), qty: PositiveIntSchema, note: z.string().max(500).optional() }),
+  StockTargetSchema.extend({ reason: z.literal('count'), quantity: NonNegativeIntSchema.nullable(), note: z.string().max(500).optional() })
+]).refine(data => !data.productId !== !data.optionGroupId, {
+  message: "Either productId or optionGroupId is required",
+  path: ["productId"]
+}).refine(data => data.optionGroupId ? !!data.choiceId && !data.optionId : !data.optionId === !data.choiceId, {
+  message: "Choices are identified by optionId and choiceId on a product, or choiceId on an option group",
+  path: ["choiceId"]
+});
+
+// Ingredient schemas
+export const CreateIngredientSchema = z.object({
+  name: z.string().min(1).max(100),
+  unit: z.enum(['g', 'kg', 'ml', 'l', 'un']),
+  unitCost: z.number().min(0) // cents per unit, fractions allowed
+});
+
+export const UpdateIngredientSchema = CreateIngredientSchema.partial();
+
+export const IngredientParamsSchema = z.object({
+  restaurantId: z.string().min(1),
+  ingredientId: z.string().min(1)
+});
+
+// Category schemas
+export const CreateCategorySchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  icon: z.string().max(10).optional(),
+  imageUrl: z.string().url().optional(),
+  position: NonNegativeIntSchema.optional(),
+  visible: z.boolean().default(true),
+  schedule: AvailabilityScheduleSchema.optional()
+});
+
+export const UpdateCategorySchema = CreateCategorySchema.partial();
+
+export const CategoryParamsSchema = z.object({
+  restaurantId: z.string().min(1),
+  categoryId: z.string().min(1)
+});
+
+export const UpdateCategoryPositionsSchema = z.object({
+  updates: z.array(z.object({
+    id: z.string().min(1),
+    position: NonNegativeIntSchema
+  })).min(1).max(500)
+});
+
+// Menu schemas
+export const CreateMenuSchema = z.object({
+  name: z.string().min(1).max(100),
+  active: z.boolean().default(true),
+  productIds: z.array(z.string().min(1)).max(500).default([]),
+  visibility: z.array(z.enum(['dine_in', 'takeaway', 'delivery'])).min(1)
+});
+
+export const UpdateMenuSchema = CreateMenuSchema.partial();
+
+export const MenuParamsSchema = z.object({
+  restaurantId: z.string().min(1),
+  menuId: z.string().min(1)
+});
+
 // Order schemas
+// Names and prices sent by the client are ignored: lines are repriced from the catalog
 const SelectedOptionSchema = z.object({
   id: z.string().min(1),
-  name: z.string().min(1),
-  choice: z.string().min(1),
-  price: NonNegativeIntSchema
+  choiceId: z.string().min(1),
+  qty: PositiveIntSchema.optional(),
+  name: z.string().optional(),
+  choice: z.string().optional(),
+  price: NonNegativeIntSchema.optional()
 });
 
+// Percentages apply to the subtotal, fixed tips are in cents
+const TipSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('percent'), value: z.number().min(0).max(100) }),
+  z.object({ type: z.literal('fixed'), value: NonNegativeIntSchema })
+]);
+
 const OrderItemSchema = z.object({
   productId: z.string().min(1),
-  name: z.string().min(1),
+  name: z.string().optional(),
   qty: PositiveIntSchema,
-  unitPrice: NonNegativeIntSchema,
+  unitPrice: NonNegativeIntSchema.optional(),
   options: z.array(SelectedOptionSchema).default([]),
   notes: z.string().max(500).optional()
 });
@@ -65,25 +211,88 @@ export const CreateOrderSchema = z.object({
   items: z.array(OrderItemSchema).min(1),
   channel: z.enum(['dine_in', 'takeaway', 'delivery']),
   tableId: z.string().optional(),
+  couponCode: z.string().min(3).max(20).optional(),
   customer: z.object({
     name: z.string().max(100).optional(),
     phone: z.string().max(20).optional()
-  }).optional()
+  }).optional(),
+  tip: TipSchema.optional(),
+  // Dine-in customers may decline the service fee, which is optional for them to pay
+  serviceFee: z.boolean().optional(),
+  // Confirms the customer accepts preparation at the next opening when the channel is closed
+  scheduled: z.boolean().optional()
 });
 
+export const OrderStatusSchema = z.enum([
+  'draft', 
+  'placed', 
+  'confirmed', 
+  'in_preparation', 
+  'ready', 
+  'served', 
+  'out_for_delivery',
+  'delivered',
+  'closed', 
+  'canceled'
+]);
+
 export const UpdateOrderStatusSchema = z.object({
-  status: z.enum([
-    'draft', 
-    'placed', 
-    'confirmed', 
-    'in_preparation', 
-    'ready', 
-    'served', 
-    'closed', 
-    'canceled'
-  ])
+  status: OrderStatusSchema,
+  // Managers may cancel orders that are already being prepared
+  override: z.boolean().optional(),
+  reason: z.string().max(500).optional()
 });
 
+// Amounts in cents; cash may carry the amount received, the rest is given back as change
+export const CreatePaymentSchema = z.object({
+  method: z.enum(['cash', 'card', 'pix', 'online']),
+  amount: PositiveIntSchema.optional(),
+  received: PositiveIntSchema.optional(),
+  shareId: z.string().min(1).optional()
+}).refine(data => data.received === undefined || data.method === 'cash', {
+  message: "Only cash payments take a received amount",
+  path: ["received"]
+});
+
+// Staff waive (amount 0) or adjust the service fee, as an amount in cents or a percentage of the subtotal
+export const AdjustServiceFeeSchema = z.object({
+  amount: NonNegativeIntSchema.optional(),
+  percent: z.number().min(0).max(100).optional(),
+  reason: z.string().trim().min(1).max(500)
+}).refine(data => (data.amount === undefined) !== (data.percent === undefined), {
+  message: "Provide either amount or percent",
+  path: ["amount"]
+});
+
+export const PixChargeQuerySchema = z.object({
+  shareId: z.string().min(1).optional(),
+  // Location the PSP returned for a charge created with the order txid; makes the code dynamic
+  location: z.string().trim().min(1).max(85).optional()
+});
+
+export const ConfirmPixPaymentSchema = z.object({
+  amount: PositiveIntSchema.optional(),
+  shareId: z.string().min(1).optional()
+});
+
+export const SplitBillSchema = z.discriminatedUnion('mode', [
+  z.object({
+    mode: z.literal('equal'),
+    payers: z.number().int().min(2).max(50),
+    labels: z.array(z.string().max(50)).max(50).optional()
+  }),
+  z.object({
+    mode: z.literal('items'),
+    payers: z.array(z.object({
+      label: z.string().max(50).optional(),
+      items: z.array(z.object({
+        index: NonNegativeIntSchema,
+        qty: PositiveIntSchema
+      })).min(1)
+    })).min(2).max(50)
+  })
+]);
+
 export const OrderParamsSchema = z.object({
   restaurantId: z.string().min(1),
   orderId: z.string().min(1)
@@ -104,7 +313,7 @@ export const TableParamsSchema = z.object({
 });
 
 // Coupon schemas
-export const CreateCouponSchema = z.object({
+const CouponBaseSchema = z.object({
   code: z.string().min(3).max(20).toUpperCase(),
   type: z.enum(['percent', 'fixed']),
   value: PositiveIntSchema,
@@ -112,12 +321,25 @@ export const CreateCouponSchema = z.object({
   validTo: DateSchema,
   minSubtotal: NonNegativeIntSchema.optional(),
   active: z.boolean().default(true)
-}).refine(data => new Date(data.validTo) > new Date(data.validFrom), {
+});
+
+export const CreateCouponSchema = CouponBaseSchema.refine(data => new Date(data.validTo) > new Date(data.validFrom), {
   message: "Valid to date must be after valid from date",
   path: ["validTo"]
+}).refine(data => data.type !== 'percent' || data.value <= 100, {
+  message: "Percent coupons cannot exceed 100",
+  path: ["value"]
 });
 
-export const UpdateCouponSchema = CreateCouponSchema.partial();
+// Updates sending only one field of a rule are checked against the stored coupon by the route
+export const UpdateCouponSchema = CouponBaseSchema.partial().refine(data =>
+  !data.validFrom || !data.validTo || new Date(data.validTo) > new Date(data.validFrom), {
+  message: "Valid to date must be after valid from date",
+  path: ["validTo"]
+}).refine(data => data.type !== 'percent' || data.value === undefined || data.value <= 100, {
+  message: "Percent coupons cannot exceed 100",
+  path: ["value"]
+});
 
 export const CouponParamsSchema = z.object({
   restaurantId: z.string().min(1),
@@ -125,7 +347,8 @@ export const CouponParamsSchema = z.object({
 });
 
 export const ValidateCouponSchema = z.object({
-  code: z.string().min(3).max(20)
+  code: z.string().min(3).max(20),
+  subtotal: NonNegativeIntSchema
 });
 
 // Restaurant schemas
@@ -145,6 +368,56 @@ export const RestaurantParamsSchema = z.object({
 });
 
 // Settings schemas
+const OrderPrefixSchema = z.string().regex(/^[A-Z0-9]{0,3}$/, 'Prefix must be up to 3 uppercase letters or digits');
+
+// CPF, CNPJ, e-mail, phone in E.164 or random key (EVP)
+const PixKeySchema = z.string().trim().max(77).regex(
+  /^(\d{11}|\d{14}|[^\s@]+@[^\s@]+\.[^\s@]+|\+55\d{10,11}|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i,
+  'Pix key must be a CPF, CNPJ, e-mail, +55 phone or random key'
+);
+
+const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const OpeningShiftSchema = z.object({
+  open: TimeSchema,
+  close: TimeSchema
+});
+
+const WeeklyHoursSchema = z.object({
+  sun: z.array(OpeningShiftSchema).max(6),
+  mon: z.array(OpeningShiftSchema).max(6),
+  tue: z.array(OpeningShiftSchema).max(6),
+  wed: z.array(OpeningShiftSchema).max(6),
+  thu: z.array(OpeningShiftSchema).max(6),
+  fri: z.array(OpeningShiftSchema).max(6),
+  sat: z.array(OpeningShiftSchema).max(6)
+});
+
+const OpeningHoursSchema = z.object({
+  enabled: z.boolean(),
+  week: WeeklyHoursSchema,
+  channels: z.object({
+    dine_in: WeeklyHoursSchema,
+    takeaway: WeeklyHoursSchema,
+    delivery: WeeklyHoursSchema
+  }).partial().optional(),
+  exceptions: z.array(z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+    shifts: z.array(OpeningShiftSchema).max(6),
+    label: z.string().max(100).optional()
+  })).max(100),
+  scheduledOrders: z.object({
+    enabled: z.boolean()
+  })
+});
+
 export const UpdateSettingsSchema = z.object({
   delivery: z.object({
     enabled: z.boolean(),
@@ -162,23 +435,75 @@ export const UpdateSettingsSchema = z.object({
     enabled: z.boolean(),
     phoneE164: z.string().regex(/^\+[1-9]\d{1,14}$/).optional(),
     messageTemplate: z.string().max(1000).optional()
-  }).optional()
+  }).optional(),
+  pix: z.object({
+    enabled: z.boolean(),
+    key: PixKeySchema.optional(),
+    merchantName: z.string().trim().min(1).max(25).optional(),
+    merchantCity: z.string().trim().min(1).max(15).optional(),
+    locationHost: z.string().trim().toLowerCase().regex(
+      /^([a-z0-9-]+\.)+[a-z]{2,}$/,
+      'Location host must be a host name such as pix.example.com'
+    ).optional()
+  }).refine(data => !data.enabled || (data.key && data.merchantName && data.merchantCity), {
+    message: 'Pix needs a key, merchant name and city to be enabled',
+    path: ['key']
+  }).optional(),
+  timezone: z.string().refine(isValidTimezone, 'Invalid timezone').optional(),
+  orderNumbers: z.object({
+    resetDaily: z.boolean(),
+    prefixes: z.object({
+      dine_in: OrderPrefixSchema,
+      takeaway: OrderPrefixSchema,
+      delivery: OrderPrefixSchema
+    }).partial().optional()
+  }).optional(),
+  prepTimeMinutes: z.number().int().min(1).max(240).optional(),
+  openingHours: OpeningHoursSchema.optional()
 });
 
 // Query schemas
 export const PaginationSchema = z.object({
-  page: z.string().transform(Number).pipe(PositiveIntSchema).default(1),
-  limit: z.string().transform(Number).pipe(z.number().int().min(1).max(100)).default(20),
+  page: z.coerce.number().pipe(PositiveIntSchema).default(1),
+  limit: z.coerce.number().pipe(z.number().int().min(1).max(100)).default(20),
   sortBy: z.string().optional(),
   sortOrder: z.enum(['asc', 'desc']).default('desc')
 });
 
 export const ProductQuerySchema = PaginationSchema.extend({
-  category: z.string().optional(),
+  categoryId: z.string().optional(),
   available: z.string().transform(val => val === 'true').optional(),
   search: z.string().optional()
 });
 
+// Narrows the public product lists to the menu of an ordering channel
+export const ChannelQuerySchema = z.object({
+  channel: z.enum(['dine_in', 'takeaway', 'delivery']).optional()
+});
+
+export const CategoryQuerySchema = z.object({
+  visible: z.string().transform(val => val === 'true').optional()
+});
+
+export const TableQuerySchema = z.object({
+  active: z.string().transform(val => val === 'true').optional()
+});
+
+export const StockQuerySchema = z.object({
+  low: z.string().transform(val => val === 'true').optional()
+});
+
+export const StockAdjustmentQuerySchema = z.object({
+  productId: z.string().optional(),
+  optionGroupId: z.string().optional(),
+  limit: z.coerce.number().pipe(z.number().int().min(1).max(200)).default(50)
+});
+
+export const ProfitReportQuerySchema = z.object({
+  dateFrom: DateSchema.optional(),
+  dateTo: DateSchema.optional()
+});
+
 export const OrderQuerySchema = PaginationSchema.extend({
   status: z.string().optional(),
   channel: z.enum(['dine_in', 'takeaway', 'delivery']).optional(),
@@ -187,6 +512,15 @@ export const OrderQuerySchema = PaginationSchema.extend({
   dateTo: DateSchema.optional()
 });
 
+export const OrderStreamQuerySchema = z.object({
+  // Comma-separated list, e.g. ?status=confirmed,in_preparation
+  status: z.string()
+    .transform(value => value.split(',').map(status => status.trim()))
+    .pipe(z.array(OrderStatusSchema))
+    .optional(),
+  channel: z.enum(['dine_in', 'takeaway', 'delivery']).optional()
+});
+
 // File upload schemas
 export const FileUploadSchema = z.object({
   fieldname: z.string(),
@@ -232,16 +566,41 @@ export const HealthCheckResponseSchema = z.object({
 
 export type CreateProductInput = z.infer<typeof CreateProductSchema>;
 export type UpdateProductInput = z.infer<typeof UpdateProductSchema>;
+export type UpdateProductPositionsInput = z.infer<typeof UpdateProductPositionsSchema>;
+export type CreateOptionGroupInput = z.infer<typeof CreateOptionGroupSchema>;
+export type UpdateOptionGroupInput = z.infer<typeof UpdateOptionGroupSchema>;
 export type CreateOrderInput = z.infer<typeof CreateOrderSchema>;
+export type OrderItemInput = z.infer<typeof OrderItemSchema>;
 export type UpdateOrderStatusInput = z.infer<typeof UpdateOrderStatusSchema>;
+export type CreatePaymentInput = z.infer<typeof CreatePaymentSchema>;
+export type SplitBillInput = z.infer<typeof SplitBillSchema>;
+export type AdjustServiceFeeInput = z.infer<typeof AdjustServiceFeeSchema>;
+export type PixChargeQueryInput = z.infer<typeof PixChargeQuerySchema>;
+export type ConfirmPixPaymentInput = z.infer<typeof ConfirmPixPaymentSchema>;
+export type CreateStockAdjustmentInput = z.infer<typeof CreateStockAdjustmentSchema>;
+export type StockQueryInput = z.infer<typeof StockQuerySchema>;
+export type StockAdjustmentQueryInput = z.infer<typeof StockAdjustmentQuerySchema>;
+export type CreateIngredientInput = z.infer<typeof CreateIngredientSchema>;
+export type UpdateIngredientInput = z.infer<typeof UpdateIngredientSchema>;
+export type ProfitReportQueryInput = z.infer<typeof ProfitReportQuerySchema>;
+export type CreateCategoryInput = z.infer<typeof CreateCategorySchema>;
+export type UpdateCategoryInput = z.infer<typeof UpdateCategorySchema>;
+export type CategoryQueryInput = z.infer<typeof CategoryQuerySchema>;
+export type UpdateCategoryPositionsInput = z.infer<typeof UpdateCategoryPositionsSchema>;
+export type CreateMenuInput = z.infer<typeof CreateMenuSchema>;
+export type UpdateMenuInput = z.infer<typeof UpdateMenuSchema>;
 export type CreateTableInput = z.infer<typeof CreateTableSchema>;
 export type UpdateTableInput = z.infer<typeof UpdateTableSchema>;
 export type CreateCouponInput = z.infer<typeof CreateCouponSchema>;
 export type UpdateCouponInput = z.infer<typeof UpdateCouponSchema>;
+export type ValidateCouponInput = z.infer<typeof ValidateCouponSchema>;
 export type CreateRestaurantInput = z.infer<typeof CreateRestaurantSchema>;
 export type UpdateRestaurantInput = z.infer<typeof UpdateRestaurantSchema>;
 export type UpdateSettingsInput = z.infer<typeof UpdateSettingsSchema>;
 export type PaginationInput = z.infer<typeof PaginationSchema>;
 export type ProductQueryInput = z.infer<typeof ProductQuerySchema>;
 export type OrderQueryInput = z.infer<typeof OrderQuerySchema>;
+export type OrderStreamQueryInput = z.infer<typeof OrderStreamQuerySchema>;
+export type ChannelQueryInput = z.infer<typeof ChannelQuerySchema>;
+export type TableQueryInput = z.infer<typeof TableQuerySchema>;
 export type FileUploadInput = z.infer<typeof FileUploadSchema>;
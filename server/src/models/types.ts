@@ -20,22 +20,43 @@ export interface Product {
   name: string;
   description: string;
   imageUrl?: string;
-  category: string;
+  categoryId?: string; // missing only on products created before categories were migrated
+  category?: string; // category name, resolved from categoryId when read
   price: number; // in cents
   options?: ProductOption[];
+  optionGroupIds?: string[]; // reusable groups, resolved into options when read
   available: boolean;
   position: number;
   isHighlighted?: boolean;
-  isDaySpecial?: boolean;
+  isDaySpecial?: boolean; // evaluated from specialDays when read, if set
+  schedule?: AvailabilityWindow[]; // sold only inside these windows; missing or empty means always
+  specialDays?: Weekday[]; // weekdays the product is the day special, replacing the manual flag
+  availableNow?: boolean; // available and inside its own and its category's schedule, evaluated when read
+  stock?: number; // units left; missing means stock is not tracked
+  lowStockThreshold?: number; // reported as low stock at or below this count
+  soldOut?: boolean; // turned unavailable automatically when stock reached zero
+  recipe?: RecipeLine[]; // ingredients used by one unit, for the food cost
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Time window in which a product or category is sold, in the restaurant timezone
+ * Missing days mean every day and missing from/to the whole day; a `to` at or before `from` runs past midnight
+ */
+export interface AvailabilityWindow {
+  days?: Weekday[];
+  from?: string; // HH:mm
+  to?: string; // HH:mm
+}
+
 export interface ProductOption {
   id: string;
   name: string;
   required?: boolean;
+  minSelections?: number;
   maxSelections?: number;
+  maxQuantityPerChoice?: number; // allows "2x extra bacon" when greater than 1
   choices: ProductChoice[];
 }
 
@@ -43,13 +64,110 @@ export interface ProductChoice {
   id: string;
   name: string;
   price: number; // additional price in cents
+  stock?: number; // units left; missing means stock is not tracked
+  lowStockThreshold?: number;
+  recipe?: RecipeLine[]; // ingredients the choice adds, per unit (e.g. extra cheese)
+}
+
+export type IngredientUnit = 'g' | 'kg' | 'ml' | 'l' | 'un';
+
+/**
+ * Purchased ingredient, priced per unit of measure
+ */
+export interface Ingredient {
+  id: string;
+  name: string;
+  unit: IngredientUnit;
+  unitCost: number; // in cents per unit, fractions allowed (e.g. 4.5 per gram)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RecipeLine {
+  ingredientId: string;
+  quantity: number; // in the ingredient's unit
+}
+
+/**
+ * Food cost of a product at the current ingredient costs, amounts in cents
+ */
+export interface ProductCost {
+  productId: string;
+  name: string;
+  categoryId?: string;
+  price: number;
+  foodCost: number;
+  margin: number;
+  marginPercent: number | null; // null for free products
+  hasRecipe: boolean;
+  missingIngredientIds: string[]; // referenced by a recipe but deleted, counted as zero
+  choices: {
+    optionId: string;
+    choiceId: string;
+    name: string;
+    price: number;
+    foodCost: number;
+    margin: number;
+  }[];
+}
+
+export interface ProfitLine {
+  quantity: number;
+  revenue: number; // in cents, options included
+  foodCost: number;
+  grossProfit: number;
+  marginPercent: number | null;
+}
+
+/**
+ * Gross profit of the products sold in a period, per product and per category
+ */
+export interface ProfitReport {
+  dateFrom?: Date;
+  dateTo?: Date;
+  products: (ProfitLine & { productId: string; name: string; categoryId?: string })[];
+  categories: (ProfitLine & { categoryId: string | null; name: string })[];
+  totals: ProfitLine;
+  productsWithoutRecipe: string[]; // sold products whose cost is unknown
+}
+
+/**
+ * Restaurant-level option group shared by several products
+ * Its document id doubles as the ProductOption id once resolved
+ */
+export interface OptionGroup extends ProductOption {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Menu category, ordered by position
+ * Products reference it by id, so renaming is a single write
+ */
+export interface Category {
+  id: string;
+  name: string;
+  description?: string;
+  icon?: string; // emoji shown on the category tab
+  imageUrl?: string;
+  position: number;
+  visible: boolean;
+  schedule?: AvailabilityWindow[]; // applies to every product of the category
+  createdAt: Date;
+  updatedAt: Date;
 }
 
+/**
+ * Menu assigned to ordering channels
+ * A channel with an active menu only sells the products listed on it; channels without one sell the whole catalog
+ */
 export interface Menu {
   id: string;
+  name: string;
   active: boolean;
-  categories: MenuCategory[];
-  visibility: ('dine_in' | 'takeaway' | 'delivery')[];
+  productIds: string[];
+  visibility: OrderChannel[];
+  categories?: MenuCategory[]; // legacy category order, read by POST /categories/migrate
   createdAt: Date;
   updatedAt: Date;
 }
@@ -76,6 +194,8 @@ export type OrderStatus =
   | 'in_preparation' 
   | 'ready' 
   | 'served' 
+  | 'out_for_delivery'
+  | 'delivered'
   | 'closed' 
   | 'canceled';
 
@@ -92,9 +212,11 @@ export interface OrderItem {
 
 export interface SelectedOption {
   id: string;
+  choiceId: string;
   name: string;
   choice: string;
-  price: number; // in cents
+  price: number; // in cents, per unit
+  qty?: number; // defaults to 1
 }
 
 export interface Order {
@@ -111,24 +233,157 @@ export interface Order {
       service?: number;
       delivery?: number;
     };
+    tip?: number; // added by the customer on top of the fees
     total: number;
   };
+  tip?: Tip; // how the tip was chosen; amounts.tip holds what it came to
   customer?: {
     name?: string;
     phone?: string;
   };
+  coupon?: AppliedCoupon;
   payments?: Payment[];
+  billSplit?: BillSplit; // how the bill is divided between payers, when it is
   orderNumber?: number;
+  orderCode?: string; // Display number with channel prefix, e.g. D-012
+  statusHistory?: OrderStatusChange[];
+  serviceFeeChanges?: ServiceFeeChange[]; // staff waivers and adjustments of the service fee
+  cancelReason?: string;
   createdBy?: string;
+  scheduledFor?: Date; // Placed while the channel was closed, to be prepared at the next opening
+  stockReservations?: StockReservation[]; // Units taken from stock, given back if the order is canceled
   createdAt: Date;
   updatedAt: Date;
   closedAt?: Date;
 }
 
+/**
+ * Item whose stock is counted, on the document that owns it: a product, a choice of the
+ * product's own options (productId + optionId + choiceId) or a choice of a shared option group
+ */
+export interface StockTarget {
+  productId?: string;
+  optionGroupId?: string;
+  optionId?: string;
+  choiceId?: string;
+}
+
+export interface StockReservation extends StockTarget {
+  qty: number;
+}
+
+export type StockAdjustmentReason = 'order' | 'cancel' | 'restock' | 'count' | 'waste';
+
+/**
+ * Stock adjustment log entry, written with every stock change
+ */
+export interface StockAdjustment extends StockTarget {
+  id: string;
+  name: string; // product or choice name at the time of the change
+  delta: number;
+  quantity: number | null; // stock after the change, null once tracking stopped
+  reason: StockAdjustmentReason;
+  orderId?: string;
+  actor?: {
+    userId: string;
+    role?: UserRole;
+  };
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface StockLevel extends StockTarget {
+  name: string;
+  stock: number;
+  lowStockThreshold?: number;
+  low: boolean; // at zero or at/below the threshold
+}
+
+// Order change pushed to real-time subscribers
+export type OrderEventType = 'order.created' | 'order.updated' | 'order.canceled';
+
+export interface OrderEvent {
+  id: string; // Resume token, sent as the SSE event id
+  type: OrderEventType;
+  order: Order;
+}
+
+// Append-only entry of the order status history
+export interface OrderStatusChange {
+  from: OrderStatus | null; // null for the initial status
+  to: OrderStatus;
+  at: Date;
+  actor?: {
+    userId: string;
+    role?: UserRole;
+  };
+  reason?: string;
+}
+
+// Tip chosen at checkout, a percentage of the subtotal or a fixed amount in cents
+export interface Tip {
+  type: 'percent' | 'fixed';
+  value: number;
+}
+
+// Service fee waived or adjusted by staff, with the reason given
+export interface ServiceFeeChange {
+  from: number; // in cents
+  to: number;
+  reason: string;
+  actor?: {
+    userId: string;
+    role?: UserRole;
+  };
+  at: Date;
+}
+
+export type PaymentMethod = 'cash' | 'card' | 'pix' | 'online';
+
 export interface Payment {
-  method: 'cash' | 'card' | 'pix' | 'online';
-  amount: number;
-  changeDue?: number;
+  id: string;
+  method: PaymentMethod;
+  amount: number; // in cents, applied to the bill
+  received?: number; // cash handed over, in cents
+  changeDue?: number; // received minus amount
+  shareId?: string; // bill share paid, when the bill is split
+  txid?: string; // Pix charge confirmed by the payment
+  actor?: {
+    userId: string;
+    role?: UserRole;
+  };
+  createdAt: Date;
+}
+
+/**
+ * Part of a split bill owed by one payer
+ */
+export interface BillShare {
+  id: string;
+  label: string; // payer name, or "Pessoa 1", "Pessoa 2"...
+  amount: number; // in cents
+  items?: { index: number; qty: number }[]; // order lines taken by the payer, when split by item
+}
+
+export interface BillSplit {
+  mode: 'equal' | 'items';
+  shares: BillShare[];
+  createdAt: Date;
+}
+
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid';
+
+/**
+ * Amounts paid and left to pay on an order, in cents
+ */
+export interface PaymentSummary {
+  total: number;
+  paid: number;
+  balance: number; // left to pay
+  changeDue: number; // change given back on cash payments
+  status: PaymentStatus;
+  shares: (BillShare & { paid: number; balance: number })[];
 }
 
 export interface Coupon {
@@ -144,6 +399,43 @@ export interface Coupon {
   updatedAt: Date;
 }
 
+// Snapshot of the coupon applied to an order
+export interface AppliedCoupon {
+  id: string;
+  code: string;
+  type: Coupon['type'];
+  value: number;
+  discount: number; // in cents
+}
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+// Opening period in the restaurant timezone (HH:mm); a close at or before the open runs past midnight
+export interface OpeningShift {
+  open: string;
+  close: string;
+}
+
+// Days without shifts are closed
+export type WeeklyHours = Record<Weekday, OpeningShift[]>;
+
+// Holiday or special day; no shifts means closed all day
+export interface OpeningException {
+  date: string; // YYYY-MM-DD
+  shifts: OpeningShift[];
+  label?: string;
+}
+
+export interface OpeningHours {
+  enabled: boolean; // When disabled every enabled channel is always open
+  week: WeeklyHours;
+  channels?: Partial<Record<OrderChannel, WeeklyHours>>; // Replace the weekly hours for a channel
+  exceptions: OpeningException[]; // Apply to every channel
+  scheduledOrders: {
+    enabled: boolean; // Accept orders while closed, scheduled for the next opening
+  };
+}
+
 export interface Settings {
   id: string;
   restaurantId: string;
@@ -164,10 +456,33 @@ export interface Settings {
     phoneE164?: string;
     messageTemplate?: string;
   };
+  pix: {
+    enabled: boolean;
+    key?: string; // CPF, CNPJ, e-mail, phone (+55...) or random key
+    merchantName?: string; // up to 25 characters, shown to the payer
+    merchantCity?: string; // up to 15 characters
+    locationHost?: string; // PSP host serving dynamic charges, e.g. pix.example.com
+  };
+  timezone: string; // IANA timezone of the restaurant: opening hours, menu schedules and the order number business day
+  orderNumbers: {
+    resetDaily: boolean;
+    prefixes?: Partial<Record<OrderChannel, string>>;
+  };
+  prepTimeMinutes: number; // Used for the estimated ready time shown to customers
+  openingHours: OpeningHours;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Per-restaurant order number counter (restaurants/{id}/counters/orders)
+export interface OrderCounter {
+  value: number;
+  date: string; // Business day of the last allocation (YYYY-MM-DD)
+}
+
+// Settings fields editable by the restaurant
+export type SettingsValues = Omit<Settings, 'id' | 'restaurantId' | 'createdAt' | 'updatedAt'>;
+
 // API Response types
 export interface ApiResponse<T> {
   success: boolean;
@@ -202,9 +517,23 @@ export interface FirestoreDocument {
 export type CreateInput<T> = Omit<T, 'id' | 'createdAt' | 'updatedAt'>;
 export type UpdateInput<T> = Partial<Omit<T, 'id' | 'createdAt' | 'updatedAt'>>;
 
+// Staff roles, from most to least privileged
+export type UserRole = 'admin' | 'manager' | 'staff';
+
+// Restaurant membership, keyed by Firebase Auth uid
+export interface Member {
+  id: string;
+  email?: string;
+  displayName?: string;
+  role: UserRole;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Request context
 export interface RequestContext {
   restaurantId: string;
   userId?: string;
-  userRole?: 'admin' | 'manager' | 'staff';
+  userRole?: UserRole;
 }
@@ -0,0 +1,235 @@
+import { Router } from 'express';
+import { Request, Response } from 'express';
+import { createServiceFactory } from '../services';
+import { validate, validateRestaurantId } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  asyncHandler,
+  successResponse,
+  NotFoundError,
+  ConflictError,
+  ValidationError
+} from '../middleware/errorHandler';
+import { sortCategoriesByMenu } from '../utils/menu';
+import {
+  CreateCategorySchema,
+  UpdateCategorySchema,
+  CategoryParamsSchema,
+  CategoryQuerySchema,
+  UpdateCategoryPositionsSchema,
+  CreateCategoryInput,
+  UpdateCategoryInput,
+  CategoryQueryInput,
+  UpdateCategoryPositionsInput
+} from '../models/schemas';
+
+const router = Router();
+
+// Firestore batches are capped at 500 operations
+const BATCH_SIZE = 500;
+
+// Apply restaurant ID validation to all routes
+router.use('/:restaurantId/*', validateRestaurantId);
+
+// Get categories in menu order (public, the menu tabs use it)
+router.get('/:restaurantId/categories',
+  validate({ query: CategoryQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+    const { visible } = req.query as unknown as CategoryQueryInput;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const categoryRepository = serviceFactory.createCategoryRepository();
+
+    const categories = visible
+      ? await categoryRepository.findVisible()
+      : await categoryRepository.findOrdered();
+
+    return successResponse(res, categories, 'Categories retrieved successfully');
+  })
+);
+
+// Get category by ID
+router.get('/:restaurantId/categories/:categoryId',
+  validate({ params: CategoryParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, categoryId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const categoryRepository = serviceFactory.createCategoryRepository();
+
+    const category = await categoryRepository.findById(categoryId);
+    if (!category) {
+      throw new NotFoundError('Category');
+    }
+
+    return successResponse(res, category, 'Category retrieved successfully');
+  })
+);
+
+// Create category (appended to the end of the menu unless a position is given)
+router.post('/:restaurantId/categories',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ body: CreateCategorySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+    const categoryData: CreateCategoryInput = req.body;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const categoryRepository = serviceFactory.createCategoryRepository();
+
+    if (await categoryRepository.isNameTaken(categoryData.name)) {
+      throw new ConflictError(`Category ${categoryData.name} already exists`);
+    }
+
+    const categoryId = await categoryRepository.create({
+      ...categoryData,
+      position: categoryData.position ?? await categoryRepository.getNextPosition()
+    });
+    const category = await categoryRepository.findById(categoryId);
+
+    return successResponse(res, category, 'Category created successfully', 201);
+  })
+);
+
+// Reorder categories
+router.patch('/:restaurantId/categories/positions',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ body: UpdateCategoryPositionsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+    const { updates }: UpdateCategoryPositionsInput = req.body;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const categoryRepository = serviceFactory.createCategoryRepository();
+
+    // A batch fails as a whole, so check every category first
+    const categories = await categoryRepository.findByIds(updates.map(update => update.id));
+    const foundIds = new Set(categories.map(category => category.id));
+    const errors = updates
+      .filter(update => !foundIds.has(update.id))
+      .map(update => ({
+        field: 'updates',
+        message: `Category ${update.id} not found`,
+        code: 'CATEGORY_NOT_FOUND'
+      }));
+
+    if (errors.length > 0) {
+      throw new ValidationError('Positions reference unknown categories', errors);
+    }
+
+    await categoryRepository.updatePositions(updates);
+
+    return successResponse(res, null, 'Category positions updated successfully');
+  })
+);
+
+// Create categories for products that still only have a category name (idempotent)
+router.post('/:restaurantId/categories/migrate',
+  authenticate,
+  authorize('admin'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const categoryRepository = serviceFactory.createCategoryRepository();
+    const productRepository = serviceFactory.createProductRepository();
+
+    const [categories, products, menu] = await Promise.all([
+      categoryRepository.findOrdered(),
+      productRepository.findWithoutCategoryId(),
+      serviceFactory.createMenuRepository().findActive()
+    ]);
+
+    const categoryIds = new Map(categories.map(category => [category.name, category.id]));
+
+    // New categories keep the order saved on the menu, after the existing ones
+    const newNames = sortCategoriesByMenu(
+      products
+        .map(product => product.category)
+        .filter((name): name is string => !!name && !categoryIds.has(name)),
+      menu?.categories
+    );
+
+    let position = categories.length > 0 ? categories[categories.length - 1].position : 0;
+    const newIds = await categoryRepository.batchCreate(
+      newNames.map(name => ({ name, position: ++position, visible: true }))
+    );
+    newNames.forEach((name, index) => categoryIds.set(name, newIds[index]));
+
+    const updates = products
+      .filter(product => product.category)
+      .map(product => ({ id: product.id, data: { categoryId: categoryIds.get(product.category!) } }));
+
+    for (let start = 0; start < updates.length; start += BATCH_SIZE) {
+      await productRepository.batchUpdate(updates.slice(start, start + BATCH_SIZE));
+    }
+
+    return successResponse(res, {
+      categoriesCreated: newNames.length,
+      productsMigrated: updates.length
+    }, 'Categories migrated successfully');
+  })
+);
+
+// Update category (products show the new name on their next read)
+router.put('/:restaurantId/categories/:categoryId',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ params: CategoryParamsSchema, body: UpdateCategorySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, categoryId } = req.params;
+    const updateData: UpdateCategoryInput = req.body;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const categoryRepository = serviceFactory.createCategoryRepository();
+
+    const existingCategory = await categoryRepository.findById(categoryId);
+    if (!existingCategory) {
+      throw new NotFoundError('Category');
+    }
+
+    if (
+      updateData.name &&
+      updateData.name !== existingCategory.name &&
+      await categoryRepository.isNameTaken(updateData.name, categoryId)
+    ) {
+      throw new ConflictError(`Category ${updateData.name} already exists`);
+    }
+
+    await categoryRepository.update(categoryId, updateData);
+    const category = await categoryRepository.findById(categoryId);
+
+    return successResponse(res, category, 'Category updated successfully');
+  })
+);
+
+// Delete category (only when no product uses it)
+router.delete('/:restaurantId/categories/:categoryId',
+  authenticate,
+  authorize('admin'),
+  validate({ params: CategoryParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, categoryId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const categoryRepository = serviceFactory.createCategoryRepository();
+
+    if (!await categoryRepository.exists(categoryId)) {
+      throw new NotFoundError('Category');
+    }
+
+    const products = await serviceFactory.createProductRepository().findByCategoryId(categoryId);
+    if (products.length > 0) {
+      throw new ConflictError(`Category is used by ${products.length} products`);
+    }
+
+    await categoryRepository.delete(categoryId);
+
+    return successResponse(res, null, 'Category deleted successfully');
+  })
+);
+
+export default router;
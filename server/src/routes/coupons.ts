@@ -0,0 +1,181 @@
+import { Router } from 'express';
+import { Request, Response } from 'express';
+import { createServiceFactory } from '../services';
+import { validate, validateRestaurantId } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  asyncHandler,
+  successResponse,
+  NotFoundError,
+  ConflictError,
+  ValidationError
+} from '../middleware/errorHandler';
+import { calculateCouponDiscount } from '../utils/pricing';
+import {
+  CreateCouponSchema,
+  UpdateCouponSchema,
+  CouponParamsSchema,
+  ValidateCouponSchema,
+  CreateCouponInput,
+  UpdateCouponInput,
+  ValidateCouponInput
+} from '../models/schemas';
+
+const router = Router();
+
+// Apply restaurant ID validation to all routes
+router.use('/:restaurantId/*', validateRestaurantId);
+
+// Validate coupon against a subtotal (public, used by the cart)
+router.post('/:restaurantId/coupons/validate',
+  validate({ body: ValidateCouponSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+    const { code, subtotal }: ValidateCouponInput = req.body;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const couponRepository = serviceFactory.createCouponRepository();
+
+    const result = await couponRepository.validateCoupon(code, subtotal);
+    if (!result.valid || !result.coupon) {
+      throw new ValidationError(result.error || 'Invalid coupon');
+    }
+
+    const { coupon } = result;
+
+    return successResponse(res, {
+      code: coupon.code,
+      type: coupon.type,
+      value: coupon.value,
+      minSubtotal: coupon.minSubtotal,
+      discount: calculateCouponDiscount(coupon, subtotal)
+    }, 'Coupon is valid');
+  })
+);
+
+// Get all coupons
+router.get('/:restaurantId/coupons',
+  authenticate,
+  authorize('admin', 'manager'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const couponRepository = serviceFactory.createCouponRepository();
+
+    const coupons = await couponRepository.findAll({ field: 'validTo', direction: 'desc' });
+
+    return successResponse(res, coupons, 'Coupons retrieved successfully');
+  })
+);
+
+// Get coupon by ID
+router.get('/:restaurantId/coupons/:couponId',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ params: CouponParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, couponId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const couponRepository = serviceFactory.createCouponRepository();
+
+    const coupon = await couponRepository.findById(couponId);
+    if (!coupon) {
+      throw new NotFoundError('Coupon');
+    }
+
+    return successResponse(res, coupon, 'Coupon retrieved successfully');
+  })
+);
+
+// Create coupon
+router.post('/:restaurantId/coupons',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ body: CreateCouponSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+    const couponData: CreateCouponInput = req.body;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const couponRepository = serviceFactory.createCouponRepository();
+
+    if (await couponRepository.isCodeTaken(couponData.code)) {
+      throw new ConflictError(`Coupon code ${couponData.code} already exists`);
+    }
+
+    const couponId = await couponRepository.createCoupon(couponData);
+    const coupon = await couponRepository.findById(couponId);
+
+    return successResponse(res, coupon, 'Coupon created successfully', 201);
+  })
+);
+
+// Update coupon
+router.put('/:restaurantId/coupons/:couponId',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ params: CouponParamsSchema, body: UpdateCouponSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, couponId } = req.params;
+    const updateData: UpdateCouponInput = req.body;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const couponRepository = serviceFactory.createCouponRepository();
+
+    const existingCoupon = await couponRepository.findById(couponId);
+    if (!existingCoupon) {
+      throw new NotFoundError('Coupon');
+    }
+
+    if (
+      updateData.code &&
+      updateData.code !== existingCoupon.code &&
+      await couponRepository.isCodeTaken(updateData.code, couponId)
+    ) {
+      throw new ConflictError(`Coupon code ${updateData.code} already exists`);
+    }
+
+    const validFrom = new Date(updateData.validFrom ?? existingCoupon.validFrom);
+    const validTo = new Date(updateData.validTo ?? existingCoupon.validTo);
+    if (validTo <= validFrom) {
+      throw new ValidationError('Valid to date must be after valid from date');
+    }
+
+    // The type or the value alone may change, so check the coupon as it will be stored
+    const type = updateData.type ?? existingCoupon.type;
+    const value = updateData.value ?? existingCoupon.value;
+    if (type === 'percent' && value > 100) {
+      throw new ValidationError('Percent coupons cannot exceed 100');
+    }
+
+    await couponRepository.updateCoupon(couponId, updateData);
+    const coupon = await couponRepository.findById(couponId);
+
+    return successResponse(res, coupon, 'Coupon updated successfully');
+  })
+);
+
+// Delete coupon
+router.delete('/:restaurantId/coupons/:couponId',
+  authenticate,
+  authorize('admin'),
+  validate({ params: CouponParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, couponId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const couponRepository = serviceFactory.createCouponRepository();
+
+    if (!await couponRepository.exists(couponId)) {
+      throw new NotFoundError('Coupon');
+    }
+
+    await couponRepository.delete(couponId);
+
+    return successResponse(res, null, 'Coupon deleted successfully');
+  })
+);
+
+export default router;
@@ -0,0 +1,153 @@
+import { Router } from 'express';
+import { Request, Response } from 'express';
+import { createServiceFactory } from '../services';
+import { validate, validateRestaurantId } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  asyncHandler,
+  successResponse,
+  NotFoundError,
+  ConflictError
+} from '../middleware/errorHandler';
+import {
+  CreateIngredientSchema,
+  UpdateIngredientSchema,
+  IngredientParamsSchema,
+  CreateIngredientInput,
+  UpdateIngredientInput
+} from '../models/schemas';
+import { getRecipeIngredientIds } from '../utils/foodCost';
+
+const router = Router();
+
+// Apply restaurant ID validation to all routes
+router.use('/:restaurantId/*', validateRestaurantId);
+
+// Get ingredients by name
+router.get('/:restaurantId/ingredients',
+  authenticate,
+  authorize('admin', 'manager'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const ingredients = await serviceFactory.createIngredientRepository().findOrdered();
+
+    return successResponse(res, ingredients, 'Ingredients retrieved successfully');
+  })
+);
+
+// Get ingredient by ID
+router.get('/:restaurantId/ingredients/:ingredientId',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ params: IngredientParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, ingredientId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const ingredient = await serviceFactory.createIngredientRepository().findById(ingredientId);
+    if (!ingredient) {
+      throw new NotFoundError('Ingredient');
+    }
+
+    return successResponse(res, ingredient, 'Ingredient retrieved successfully');
+  })
+);
+
+// Create ingredient
+router.post('/:restaurantId/ingredients',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ body: CreateIngredientSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+    const ingredientData: CreateIngredientInput = req.body;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const ingredientRepository = serviceFactory.createIngredientRepository();
+
+    if (await ingredientRepository.isNameTaken(ingredientData.name)) {
+      throw new ConflictError(`Ingredient ${ingredientData.name} already exists`);
+    }
+
+    const ingredientId = await ingredientRepository.create(ingredientData);
+    const ingredient = await ingredientRepository.findById(ingredientId);
+
+    return successResponse(res, ingredient, 'Ingredient created successfully', 201);
+  })
+);
+
+// Update ingredient (food costs follow the new unit cost on their next read)
+router.put('/:restaurantId/ingredients/:ingredientId',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ params: IngredientParamsSchema, body: UpdateIngredientSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, ingredientId } = req.params;
+    const updateData: UpdateIngredientInput = req.body;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const ingredientRepository = serviceFactory.createIngredientRepository();
+
+    const existingIngredient = await ingredientRepository.findById(ingredientId);
+    if (!existingIngredient) {
+      throw new NotFoundError('Ingredient');
+    }
+
+    if (
+      updateData.name &&
+      updateData.name !== existingIngredient.name &&
+      await ingredientRepository.isNameTaken(updateData.name, ingredientId)
+    ) {
+      throw new ConflictError(`Ingredient ${updateData.name} already exists`);
+    }
+
+    await ingredientRepository.update(ingredientId, updateData);
+    const ingredient = await ingredientRepository.findById(ingredientId);
+
+    return successResponse(res, ingredient, 'Ingredient updated successfully');
+  })
+);
+
+// Delete ingredient (only when no recipe uses it)
+router.delete('/:restaurantId/ingredients/:ingredientId',
+  authenticate,
+  authorize('admin'),
+  validate({ params: IngredientParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, ingredientId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const ingredientRepository = serviceFactory.createIngredientRepository();
+
+    if (!await ingredientRepository.exists(ingredientId)) {
+      throw new NotFoundError('Ingredient');
+    }
+
+    const [products, optionGroups] = await Promise.all([
+      serviceFactory.createProductRepository().findAll(),
+      serviceFactory.createOptionGroupRepository().findAll()
+    ]);
+    // Linked groups come resolved into product options, so they are checked once, on the group
+    const usedBy = [
+      ...products.filter(product => {
+        const ownChoices = (product.options ?? [])
+          .filter(option => !product.optionGroupIds?.includes(option.id))
+          .flatMap(option => option.choices);
+        return getRecipeIngredientIds(product.recipe, ownChoices).includes(ingredientId);
+      }),
+      ...optionGroups.filter(group => getRecipeIngredientIds([], group.choices).includes(ingredientId))
+    ];
+
+    if (usedBy.length > 0) {
+      throw new ConflictError(`Ingredient is used by the recipes of ${usedBy.map(item => item.name).join(', ')}`);
+    }
+
+    await ingredientRepository.delete(ingredientId);
+
+    return successResponse(res, null, 'Ingredient deleted successfully');
+  })
+);
+
+export default router;
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { Request, Response } from 'express';
+import { createServiceFactory } from '../services';
+import { validateRestaurantId } from '../middleware/validation';
+import { authenticate } from '../middleware/auth';
+import { asyncHandler, successResponse, NotFoundError } from '../middleware/errorHandler';
+
+const router = Router();
+
+// Apply restaurant ID validation to all routes
+router.use('/:restaurantId/*', validateRestaurantId);
+
+// Get the membership of the signed-in user, used by the admin login to load the role
+router.get('/:restaurantId/members/me',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+
+    const userId = req.context?.userId;
+    const memberRepository = createServiceFactory(restaurantId).createMemberRepository();
+
+    const member = userId ? await memberRepository.findByUserId(userId) : null;
+    if (!member) {
+      throw new NotFoundError('Member');
+    }
+
+    return successResponse(res, member, 'Member retrieved successfully');
+  })
+);
+
+export default router;
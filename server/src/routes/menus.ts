@@ -0,0 +1,139 @@
+import { Router } from 'express';
+import { Request, Response } from 'express';
+import { createServiceFactory } from '../services';
+import { validate, validateRestaurantId } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  asyncHandler,
+  successResponse,
+  NotFoundError,
+  ValidationError
+} from '../middleware/errorHandler';
+import {
+  CreateMenuSchema,
+  UpdateMenuSchema,
+  MenuParamsSchema,
+  CreateMenuInput,
+  UpdateMenuInput
+} from '../models/schemas';
+
+const router = Router();
+
+// Apply restaurant ID validation to all routes
+router.use('/:restaurantId/*', validateRestaurantId);
+
+/**
+ * Reject menus listing products that do not exist
+ */
+const assertProductsExist = async (restaurantId: string, productIds: string[] = []) => {
+  const products = await createServiceFactory(restaurantId).createProductRepository().findByIds(productIds);
+  const foundIds = new Set(products.map(product => product.id));
+
+  const errors = productIds
+    .filter(id => !foundIds.has(id))
+    .map(id => ({
+      field: 'productIds',
+      message: `Product ${id} not found`,
+      code: 'PRODUCT_NOT_FOUND'
+    }));
+
+  if (errors.length > 0) {
+    throw new ValidationError('Menu lists unknown products', errors);
+  }
+};
+
+// Get all menus
+router.get('/:restaurantId/menus',
+  authenticate,
+  authorize('admin', 'manager', 'staff'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+
+    const menuRepository = createServiceFactory(restaurantId).createMenuRepository();
+    const menus = await menuRepository.findAll({ field: 'name', direction: 'asc' });
+
+    return successResponse(res, menus, 'Menus retrieved successfully');
+  })
+);
+
+// Get menu by ID
+router.get('/:restaurantId/menus/:menuId',
+  authenticate,
+  authorize('admin', 'manager', 'staff'),
+  validate({ params: MenuParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, menuId } = req.params;
+
+    const menuRepository = createServiceFactory(restaurantId).createMenuRepository();
+    const menu = await menuRepository.findById(menuId);
+
+    if (!menu) {
+      throw new NotFoundError('Menu');
+    }
+
+    return successResponse(res, menu, 'Menu retrieved successfully');
+  })
+);
+
+// Create menu
+router.post('/:restaurantId/menus',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ body: CreateMenuSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+    const menuData: CreateMenuInput = req.body;
+
+    await assertProductsExist(restaurantId, menuData.productIds);
+
+    const menuRepository = createServiceFactory(restaurantId).createMenuRepository();
+    const menuId = await menuRepository.create(menuData);
+    const menu = await menuRepository.findById(menuId);
+
+    return successResponse(res, menu, 'Menu created successfully', 201);
+  })
+);
+
+// Update menu (channels, products or active flag)
+router.put('/:restaurantId/menus/:menuId',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ params: MenuParamsSchema, body: UpdateMenuSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, menuId } = req.params;
+    const updateData: UpdateMenuInput = req.body;
+
+    const menuRepository = createServiceFactory(restaurantId).createMenuRepository();
+    if (!await menuRepository.exists(menuId)) {
+      throw new NotFoundError('Menu');
+    }
+
+    await assertProductsExist(restaurantId, updateData.productIds);
+
+    await menuRepository.update(menuId, updateData);
+    const menu = await menuRepository.findById(menuId);
+
+    return successResponse(res, menu, 'Menu updated successfully');
+  })
+);
+
+// Delete menu (its channels fall back to the whole catalog unless another menu covers them)
+router.delete('/:restaurantId/menus/:menuId',
+  authenticate,
+  authorize('admin'),
+  validate({ params: MenuParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, menuId } = req.params;
+
+    const menuRepository = createServiceFactory(restaurantId).createMenuRepository();
+    if (!await menuRepository.exists(menuId)) {
+      throw new NotFoundError('Menu');
+    }
+
+    await menuRepository.delete(menuId);
+
+    return successResponse(res, null, 'Menu deleted successfully');
+  })
+);
+
+export default router;
@@ -0,0 +1,175 @@
+import { Router } from 'express';
+import { Request, Response } from 'express';
+import { createServiceFactory } from '../services';
+import { validate, validateRestaurantId } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  asyncHandler,
+  successResponse,
+  NotFoundError,
+  ValidationError
+} from '../middleware/errorHandler';
+import {
+  CreateOptionGroupSchema,
+  UpdateOptionGroupSchema,
+  OptionGroupParamsSchema,
+  CreateOptionGroupInput,
+  UpdateOptionGroupInput
+} from '../models/schemas';
+import { ProductChoice } from '../models/types';
+import { preserveChoiceStock } from '../utils/stock';
+import { getRecipeIngredientIds } from '../utils/foodCost';
+
+const router = Router();
+
+/**
+ * Reject choice recipes using ingredients that do not exist
+ */
+const assertIngredientsExist = async (restaurantId: string, choices: ProductChoice[] = []) => {
+  const ingredientRepository = createServiceFactory(restaurantId).createIngredientRepository();
+  const missingIds = await ingredientRepository.findMissingIds(getRecipeIngredientIds([], choices));
+
+  if (missingIds.length > 0) {
+    throw new ValidationError('Recipe references unknown ingredients', missingIds.map(id => ({
+      field: 'choices',
+      message: `Ingredient ${id} not found`,
+      code: 'INGREDIENT_NOT_FOUND'
+    })));
+  }
+};
+
+// Apply restaurant ID validation to all routes
+router.use('/:restaurantId/*', validateRestaurantId);
+
+// Get all option groups
+router.get('/:restaurantId/option-groups',
+  authenticate,
+  authorize('admin', 'manager'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const optionGroupRepository = serviceFactory.createOptionGroupRepository();
+
+    const optionGroups = await optionGroupRepository.findAllSorted();
+
+    return successResponse(res, optionGroups, 'Option groups retrieved successfully');
+  })
+);
+
+// Get option group by ID
+router.get('/:restaurantId/option-groups/:optionGroupId',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ params: OptionGroupParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, optionGroupId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const optionGroupRepository = serviceFactory.createOptionGroupRepository();
+
+    const optionGroup = await optionGroupRepository.findById(optionGroupId);
+    if (!optionGroup) {
+      throw new NotFoundError('Option group');
+    }
+
+    return successResponse(res, optionGroup, 'Option group retrieved successfully');
+  })
+);
+
+// Get the products linked to an option group
+router.get('/:restaurantId/option-groups/:optionGroupId/products',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ params: OptionGroupParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, optionGroupId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const productRepository = serviceFactory.createProductRepository();
+
+    const products = await productRepository.findByOptionGroup(optionGroupId);
+
+    return successResponse(res, products, 'Linked products retrieved successfully');
+  })
+);
+
+// Create option group
+router.post('/:restaurantId/option-groups',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ body: CreateOptionGroupSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+    const optionGroupData: CreateOptionGroupInput = req.body;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const optionGroupRepository = serviceFactory.createOptionGroupRepository();
+
+    await assertIngredientsExist(restaurantId, optionGroupData.choices);
+
+    const optionGroupId = await optionGroupRepository.create(optionGroupData);
+    const optionGroup = await optionGroupRepository.findById(optionGroupId);
+
+    return successResponse(res, optionGroup, 'Option group created successfully', 201);
+  })
+);
+
+// Update option group (linked products see the change on their next read)
+router.put('/:restaurantId/option-groups/:optionGroupId',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ params: OptionGroupParamsSchema, body: UpdateOptionGroupSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, optionGroupId } = req.params;
+    const updateData: UpdateOptionGroupInput = req.body;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const optionGroupRepository = serviceFactory.createOptionGroupRepository();
+
+    const existingGroup = await optionGroupRepository.findById(optionGroupId);
+    if (!existingGroup) {
+      throw new NotFoundError('Option group');
+    }
+
+    const minSelections = updateData.minSelections ?? existingGroup.minSelections;
+    const maxSelections = updateData.maxSelections ?? existingGroup.maxSelections;
+    if (minSelections && maxSelections && minSelections > maxSelections) {
+      throw new ValidationError('Minimum selections cannot exceed maximum selections');
+    }
+
+    await assertIngredientsExist(restaurantId, updateData.choices);
+
+    await optionGroupRepository.update(optionGroupId, {
+      ...updateData,
+      ...(updateData.choices && { choices: preserveChoiceStock(updateData.choices, existingGroup.choices) })
+    });
+    const optionGroup = await optionGroupRepository.findById(optionGroupId);
+
+    return successResponse(res, optionGroup, 'Option group updated successfully');
+  })
+);
+
+// Delete option group and unlink it from every product
+router.delete('/:restaurantId/option-groups/:optionGroupId',
+  authenticate,
+  authorize('admin'),
+  validate({ params: OptionGroupParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, optionGroupId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const optionGroupRepository = serviceFactory.createOptionGroupRepository();
+
+    if (!await optionGroupRepository.exists(optionGroupId)) {
+      throw new NotFoundError('Option group');
+    }
+
+    await serviceFactory.createProductRepository().unlinkOptionGroup(optionGroupId);
+    await optionGroupRepository.delete(optionGroupId);
+
+    return successResponse(res, null, 'Option group deleted successfully');
+  })
+);
+
+export default router;
@@ -1,17 +1,77 @@
 import { Router } from 'express';
 import { Request, Response } from 'express';
+import { Timestamp } from 'firebase-admin/firestore';
 import { createServiceFactory } from '../services';
 import { validate, validateRestaurantId } from '../middleware/validation';
-import { asyncHandler, successResponse, paginatedResponse } from '../middleware/errorHandler';
-import { CreateOrderSchema, UpdateOrderStatusSchema, OrderQuerySchema } from '../models/schemas';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  asyncHandler,
+  successResponse,
+  paginatedResponse,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  ForbiddenError
+} from '../middleware/errorHandler';
+import {
+  CreateOrderSchema,
+  UpdateOrderStatusSchema,
+  OrderQuerySchema,
+  OrderParamsSchema,
+  OrderStreamQuerySchema,
+  CreateOrderInput,
+  UpdateOrderStatusInput,
+  OrderStreamQueryInput
+} from '../models/schemas';
+import { Coupon, Order, SettingsValues } from '../models/types';
+import { calculateSubtotal, isChannelEnabled } from '../utils/pricing';
+import { resolveOrderItems } from '../utils/catalog';
+import { getLocalTime, getOpenState } from '../utils/openingHours';
+import { applySchedules } from '../utils/availability';
+import { StockShortageError, buildStockReservations } from '../utils/stock';
+import { StatusChangeError, getEstimatedReadyAt } from '../utils/orderStatus';
+import {
+  buildOrderEventId,
+  parseOrderEventId,
+  getOrderEventType,
+  matchesOrderEventFilter
+} from '../utils/orderEvents';
+import { openEventStream } from '../utils/sse';
 
 const router = Router();
 
 // Apply restaurant ID validation to all routes
 router.use('/:restaurantId/*', validateRestaurantId);
 
+/**
+ * Order as shown to the customer: no staff identities, plus the estimated ready time
+ */
+const toTrackingOrder = (order: Order, settings: SettingsValues) => ({
+  ...order,
+  statusHistory: (order.statusHistory || []).map(({ actor: _actor, ...change }) => change),
+  payments: (order.payments || []).map(({ actor: _actor, ...payment }) => payment),
+  serviceFeeChanges: (order.serviceFeeChanges || []).map(({ actor: _actor, ...change }) => change),
+  estimatedReadyAt: getEstimatedReadyAt(order, settings.prepTimeMinutes)
+});
+
+/**
+ * Map a StatusChangeError to its response
+ */
+const toHttpError = (error: StatusChangeError) => {
+  switch (error.code) {
+    case 'ORDER_NOT_FOUND':
+      return new NotFoundError('Order');
+    case 'OVERRIDE_NOT_ALLOWED':
+      return new ForbiddenError(error.message);
+    default:
+      return new ConflictError(error.message);
+  }
+};
+
 // Get all orders
 router.get('/:restaurantId/orders',
+  authenticate,
+  authorize('admin', 'manager', 'staff'),
   validate({ query: OrderQuerySchema }),
   asyncHandler(async (req: Request, res: Response) => {
     const { restaurantId } = req.params;
@@ -31,17 +91,123 @@ router.get('/:restaurantId/orders',
   })
 );
 
+// Stream order events (Server-Sent Events)
+router.get('/:restaurantId/orders/stream',
+  authenticate,
+  authorize('admin', 'manager', 'staff'),
+  validate({ query: OrderStreamQuerySchema }),
+  (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+    const filter = req.query as unknown as OrderStreamQueryInput;
+
+    // Resume after the last event the client received, otherwise start from now
+    const lastEventId = req.header('Last-Event-ID');
+    const since = (lastEventId && parseOrderEventId(lastEventId)) || Timestamp.now();
+
+    const orderRepository = createServiceFactory(restaurantId).createOrderRepository();
+    let unsubscribe: () => void = () => undefined;
+    const stream = openEventStream(res, () => unsubscribe());
+
+    unsubscribe = orderRepository.watchChanges(since, ({ order, updatedAt, created }) => {
+      const id = buildOrderEventId(updatedAt, order.id);
+      if (id === lastEventId || !matchesOrderEventFilter(order, filter)) {
+        return;
+      }
+
+      stream.send({ id, event: getOrderEventType(order, created), data: order });
+    }, (error) => {
+      console.error('Order stream error:', error);
+      stream.send({ event: 'error', data: { message: 'Order stream interrupted' } });
+      stream.close();
+    });
+  }
+);
+
 // Create order
 router.post('/:restaurantId/orders',
   validate({ body: CreateOrderSchema }),
   asyncHandler(async (req: Request, res: Response) => {
     const { restaurantId } = req.params;
-    const orderData = req.body;
+    const { couponCode, scheduled, ...orderData }: CreateOrderInput = req.body;
     
     const serviceFactory = createServiceFactory(restaurantId);
     const orderRepository = serviceFactory.createOrderRepository();
+
+    // Reject channels the restaurant has disabled
+    const settings = await serviceFactory.createSettingsRepository().getEffectiveSettings();
+    if (!isChannelEnabled(settings, orderData.channel)) {
+      throw new ValidationError(`Channel ${orderData.channel} is not available for this restaurant`);
+    }
+
+    // Outside opening hours, only accept orders the customer agreed to schedule for the next opening
+    const openState = getOpenState(settings, orderData.channel);
+    let scheduledFor: Date | undefined;
+    if (!openState.open) {
+      if (!scheduled || !settings.openingHours.scheduledOrders.enabled || !openState.nextOpenAt) {
+        throw new ValidationError(`Channel ${orderData.channel} is closed`, [{
+          field: 'channel',
+          message: openState.nextOpenAt
+            ? `Opens at ${openState.nextOpenAt.toISOString()}`
+            : 'No upcoming opening',
+          code: 'CHANNEL_CLOSED'
+        }]);
+      }
+      scheduledFor = openState.nextOpenAt;
+    }
+
+    // Reprice every line from the catalog, limited to the channel's menu and the products on sale
+    // when the order will be prepared (the next opening for scheduled orders)
+    const productRepository = serviceFactory.createProductRepository();
+    const [products, categories, menuProductIds] = await Promise.all([
+      productRepository.findByIds(orderData.items.map(item => item.productId)),
+      serviceFactory.createCategoryRepository().findAll(),
+      serviceFactory.createMenuRepository().getChannelProductIds(orderData.channel)
+    ]);
+    const scheduledProducts = applySchedules(
+      products,
+      categories,
+      getLocalTime(scheduledFor ?? new Date(), settings.timezone)
+    );
+    const productsMap = new Map(scheduledProducts.map(product => [product.id, product]));
+    const { items, errors } = resolveOrderItems(orderData.items, productsMap, menuProductIds);
+
+    if (errors.length > 0) {
+      throw new ValidationError('Order contains invalid items', errors);
+    }
+
+    // Validate coupon against the order subtotal
+    let coupon: Coupon | undefined;
+    if (couponCode) {
+      const couponRepository = serviceFactory.createCouponRepository();
+      const result = await couponRepository.validateCoupon(couponCode, calculateSubtotal(items));
+
+      if (!result.valid) {
+        throw new ValidationError(result.error || 'Invalid coupon');
+      }
+      coupon = result.coupon;
+    }
     
-    const orderId = await orderRepository.createOrder(orderData);
+    // Stock is checked again inside the transaction, another order may have taken the last units
+    let orderId: string;
+    try {
+      orderId = await orderRepository.createOrder({
+        ...orderData,
+        items,
+        coupon,
+        settings,
+        scheduledFor,
+        stockReservations: buildStockReservations(items, productsMap)
+      });
+    } catch (error) {
+      if (error instanceof StockShortageError) {
+        throw new ValidationError('Order contains items out of stock', error.shortages.map(shortage => ({
+          field: 'items',
+          message: `Only ${shortage.available} left of ${shortage.name}`,
+          code: 'OUT_OF_STOCK'
+        })));
+      }
+      throw error;
+    }
     const order = await orderRepository.findById(orderId);
     
     return successResponse(res, order, 'Order created successfully', 201);
@@ -50,19 +216,112 @@ router.post('/:restaurantId/orders',
 
 // Update order status
 router.patch('/:restaurantId/orders/:orderId/status',
+  authenticate,
+  authorize('admin', 'manager', 'staff'),
   validate({ body: UpdateOrderStatusSchema }),
   asyncHandler(async (req: Request, res: Response) => {
     const { restaurantId, orderId } = req.params;
-    const { status } = req.body;
+    const { status, override, reason }: UpdateOrderStatusInput = req.body;
     
     const serviceFactory = createServiceFactory(restaurantId);
     const orderRepository = serviceFactory.createOrderRepository();
-    
-    await orderRepository.updateStatus(orderId, status);
+
+    // The transition is checked against the stored order inside the write transaction
+    const change = { actor: req.context, reason, override };
+    try {
+      if (status === 'canceled') {
+        await orderRepository.cancel(orderId, change);
+      } else {
+        await orderRepository.updateStatus(orderId, status, change);
+      }
+    } catch (error) {
+      if (error instanceof StatusChangeError) {
+        throw toHttpError(error);
+      }
+      throw error;
+    }
     const order = await orderRepository.findById(orderId);
     
     return successResponse(res, order, 'Order status updated successfully');
   })
 );
 
+// Get order status history
+router.get('/:restaurantId/orders/:orderId/history',
+  authenticate,
+  authorize('admin', 'manager', 'staff'),
+  validate({ params: OrderParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, orderId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const orderRepository = serviceFactory.createOrderRepository();
+
+    const history = await orderRepository.getStatusHistory(orderId);
+    if (!history) {
+      throw new NotFoundError('Order');
+    }
+
+    return successResponse(res, history, 'Order history retrieved successfully');
+  })
+);
+
+// Get order for customer tracking (public, the order ID is the access key)
+router.get('/:restaurantId/orders/:orderId',
+  validate({ params: OrderParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, orderId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const orderRepository = serviceFactory.createOrderRepository();
+
+    const order = await orderRepository.findById(orderId);
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+
+    const settings = await serviceFactory.createSettingsRepository().getEffectiveSettings();
+
+    return successResponse(res, toTrackingOrder(order, settings), 'Order retrieved successfully');
+  })
+);
+
+// Stream changes of a single order for customer tracking (public)
+router.get('/:restaurantId/orders/:orderId/stream',
+  validate({ params: OrderParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, orderId } = req.params;
+    const lastEventId = req.header('Last-Event-ID');
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const orderRepository = serviceFactory.createOrderRepository();
+
+    if (!await orderRepository.exists(orderId)) {
+      throw new NotFoundError('Order');
+    }
+
+    const settings = await serviceFactory.createSettingsRepository().getEffectiveSettings();
+    let unsubscribe: () => void = () => undefined;
+    const stream = openEventStream(res, () => unsubscribe());
+
+    // The first snapshot carries the current state, so reconnecting clients catch up
+    unsubscribe = orderRepository.watchOrder(orderId, ({ order, updatedAt, created }) => {
+      if (!order || !updatedAt) {
+        return;
+      }
+
+      const id = buildOrderEventId(updatedAt, order.id);
+      if (id === lastEventId) {
+        return;
+      }
+
+      stream.send({ id, event: getOrderEventType(order, created), data: toTrackingOrder(order, settings) });
+    }, (error) => {
+      console.error('Order stream error:', error);
+      stream.send({ event: 'error', data: { message: 'Order stream interrupted' } });
+      stream.close();
+    });
+  })
+);
+
 export default router;
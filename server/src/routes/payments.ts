@@ -0,0 +1,316 @@
+import { Router } from 'express';
+import { Request, Response } from 'express';
+import { createServiceFactory } from '../services';
+import { validate, validateRestaurantId } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  asyncHandler,
+  successResponse,
+  NotFoundError,
+  ConflictError,
+  ValidationError
+} from '../middleware/errorHandler';
+import {
+  CreatePaymentSchema,
+  SplitBillSchema,
+  PixChargeQuerySchema,
+  ConfirmPixPaymentSchema,
+  AdjustServiceFeeSchema,
+  OrderParamsSchema,
+  CreatePaymentInput,
+  SplitBillInput,
+  PixChargeQueryInput,
+  ConfirmPixPaymentInput,
+  AdjustServiceFeeInput
+} from '../models/schemas';
+import { Order } from '../models/types';
+import { PaymentError, getPaymentSummary } from '../utils/payments';
+import { TERMINAL_STATUSES } from '../utils/orderStatus';
+import { LOCATION_LENGTH, PixChargeInput, buildPixPayload, toPixLocation, toPixTxid } from '../utils/pix';
+import QRCode from 'qrcode';
+
+const router = Router();
+
+// Apply restaurant ID validation to all routes
+router.use('/:restaurantId/*', validateRestaurantId);
+
+/**
+ * Map a PaymentError to its response; orders deleted or finished since they were loaded keep the
+ * status codes of the checks made before the transaction
+ */
+const toHttpError = (error: PaymentError) => {
+  switch (error.code) {
+    case 'ORDER_NOT_FOUND':
+      return new NotFoundError('Order');
+    case 'ORDER_NOT_PAYABLE':
+      return new ConflictError(error.message);
+    default:
+      return new ValidationError(error.message, [{ field: error.field, message: error.message, code: error.code }]);
+  }
+};
+
+/**
+ * Load an order that can still take payments
+ */
+const findPayableOrder = async (restaurantId: string, orderId: string): Promise<Order> => {
+  const order = await createServiceFactory(restaurantId).createOrderRepository().findById(orderId);
+  if (!order) {
+    throw new NotFoundError('Order');
+  }
+
+  if (TERMINAL_STATUSES.includes(order.status)) {
+    throw new ConflictError(`Cannot take payments on a ${order.status} order`);
+  }
+
+  return order;
+};
+
+/**
+ * Pix receiver from the settings, refused while Pix is off or incomplete
+ */
+const getPixReceiver = async (
+  restaurantId: string
+): Promise<Omit<PixChargeInput, 'amount' | 'txid' | 'location'> & { locationHost?: string }> => {
+  const { pix } = await createServiceFactory(restaurantId).createSettingsRepository().getEffectiveSettings();
+  if (!pix.enabled || !pix.key || !pix.merchantName || !pix.merchantCity) {
+    throw new ConflictError('Pix payments are not enabled');
+  }
+
+  return {
+    key: pix.key,
+    merchantName: pix.merchantName,
+    merchantCity: pix.merchantCity,
+    ...(pix.locationHost && { locationHost: pix.locationHost })
+  };
+};
+
+/**
+ * Location of a dynamic charge, accepted only on the PSP host in the settings so the public
+ * route cannot be used to point a QR code somewhere else
+ */
+const toChargeLocation = (url: string, locationHost?: string): string => {
+  const location = toPixLocation(url);
+  const host = location.split('/')[0].toLowerCase();
+
+  if (!locationHost) {
+    throw new ConflictError('Dynamic Pix charges are not enabled');
+  }
+  if (host !== locationHost || location.length <= host.length + 1 || location.length > LOCATION_LENGTH) {
+    throw new ValidationError('Invalid Pix charge location', [
+      { field: 'location', message: `Location must be a URL on ${locationHost}`, code: 'INVALID_LOCATION' }
+    ]);
+  }
+
+  return location;
+};
+
+const toQrCodeDataUrl = async (payload: string): Promise<string> => {
+  const svg = await QRCode.toString(payload, { type: 'svg', errorCorrectionLevel: 'M' });
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+};
+
+// Get the static Pix code of the restaurant, the payer types the amount (public)
+router.get('/:restaurantId/pix',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+
+    const { locationHost: _locationHost, ...receiver } = await getPixReceiver(restaurantId);
+    const payload = buildPixPayload(receiver);
+
+    return successResponse(res, { payload, qrCode: await toQrCodeDataUrl(payload) }, 'Pix code generated successfully');
+  })
+);
+
+// Get the Pix charge of what is left to pay on an order or bill share (public, like order tracking)
+// Static by default, carrying the amount and the order txid; with the location of a charge created at the
+// PSP for that txid, the code is dynamic and points there
+router.get('/:restaurantId/orders/:orderId/pix',
+  validate({ params: OrderParamsSchema, query: PixChargeQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, orderId } = req.params;
+    const { shareId, location } = req.query as PixChargeQueryInput;
+
+    const order = await findPayableOrder(restaurantId, orderId);
+    const summary = getPaymentSummary(order);
+
+    let amount = summary.balance;
+    if (shareId) {
+      const share = summary.shares.find(item => item.id === shareId);
+      if (!share) {
+        throw new NotFoundError('Bill share');
+      }
+      amount = Math.min(amount, share.balance);
+    }
+
+    if (amount === 0) {
+      throw new ConflictError('Nothing left to pay');
+    }
+
+    const { locationHost, ...receiver } = await getPixReceiver(restaurantId);
+    const txid = toPixTxid(orderId);
+    const payload = buildPixPayload({
+      ...receiver,
+      amount,
+      txid,
+      ...(location && { location: toChargeLocation(location, locationHost) })
+    });
+
+    return successResponse(res, {
+      payload,
+      qrCode: await toQrCodeDataUrl(payload),
+      amount,
+      txid,
+      dynamic: !!location,
+      ...(shareId && { shareId })
+    }, 'Pix charge generated successfully');
+  })
+);
+
+// Confirm a Pix charge once staff sees it on the account statement
+router.post('/:restaurantId/orders/:orderId/pix/confirm',
+  authenticate,
+  authorize('admin', 'manager', 'staff'),
+  validate({ params: OrderParamsSchema, body: ConfirmPixPaymentSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, orderId } = req.params;
+    const { amount, shareId }: ConfirmPixPaymentInput = req.body;
+
+    await findPayableOrder(restaurantId, orderId);
+
+    const orderRepository = createServiceFactory(restaurantId).createOrderRepository();
+    let payment;
+    try {
+      payment = await orderRepository.addPayment(orderId, {
+        method: 'pix',
+        amount,
+        shareId,
+        txid: toPixTxid(orderId)
+      }, req.context);
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        throw toHttpError(error);
+      }
+      throw error;
+    }
+    const order = await orderRepository.findById(orderId);
+
+    return successResponse(res, {
+      payment,
+      summary: getPaymentSummary(order!)
+    }, 'Pix payment confirmed successfully', 201);
+  })
+);
+
+// Get the payments of an order with the amount left to pay, per share when the bill is split
+router.get('/:restaurantId/orders/:orderId/payments',
+  authenticate,
+  authorize('admin', 'manager', 'staff'),
+  validate({ params: OrderParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, orderId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const order = await serviceFactory.createOrderRepository().findById(orderId);
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+
+    return successResponse(res, {
+      payments: order.payments ?? [],
+      billSplit: order.billSplit ?? null,
+      summary: getPaymentSummary(order)
+    }, 'Payments retrieved successfully');
+  })
+);
+
+// Record a payment; cash with `received` gets its change computed
+router.post('/:restaurantId/orders/:orderId/payments',
+  authenticate,
+  authorize('admin', 'manager', 'staff'),
+  validate({ params: OrderParamsSchema, body: CreatePaymentSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, orderId } = req.params;
+    const paymentData: CreatePaymentInput = req.body;
+
+    await findPayableOrder(restaurantId, orderId);
+
+    const orderRepository = createServiceFactory(restaurantId).createOrderRepository();
+    let payment;
+    try {
+      payment = await orderRepository.addPayment(orderId, paymentData, req.context);
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        throw toHttpError(error);
+      }
+      throw error;
+    }
+    const order = await orderRepository.findById(orderId);
+
+    return successResponse(res, {
+      payment,
+      summary: getPaymentSummary(order!)
+    }, 'Payment recorded successfully', 201);
+  })
+);
+
+// Split the bill equally or by item between payers
+router.post('/:restaurantId/orders/:orderId/split',
+  authenticate,
+  authorize('admin', 'manager', 'staff'),
+  validate({ params: OrderParamsSchema, body: SplitBillSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, orderId } = req.params;
+    const splitData: SplitBillInput = req.body;
+
+    await findPayableOrder(restaurantId, orderId);
+
+    const orderRepository = createServiceFactory(restaurantId).createOrderRepository();
+    try {
+      await orderRepository.splitBill(orderId, splitData);
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        throw toHttpError(error);
+      }
+      throw error;
+    }
+    const order = await orderRepository.findById(orderId);
+
+    return successResponse(res, {
+      billSplit: order!.billSplit,
+      summary: getPaymentSummary(order!)
+    }, 'Bill split successfully');
+  })
+);
+
+// Waive or adjust the service fee with a reason; an unpaid bill split is cleared
+router.patch('/:restaurantId/orders/:orderId/service-fee',
+  authenticate,
+  authorize('admin', 'manager', 'staff'),
+  validate({ params: OrderParamsSchema, body: AdjustServiceFeeSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, orderId } = req.params;
+    const feeData: AdjustServiceFeeInput = req.body;
+
+    await findPayableOrder(restaurantId, orderId);
+
+    const orderRepository = createServiceFactory(restaurantId).createOrderRepository();
+    let change;
+    try {
+      change = await orderRepository.adjustServiceFee(orderId, feeData, req.context);
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        throw toHttpError(error);
+      }
+      throw error;
+    }
+    const order = await orderRepository.findById(orderId);
+
+    return successResponse(res, {
+      change,
+      amounts: order!.amounts,
+      summary: getPaymentSummary(order!)
+    }, 'Service fee updated successfully');
+  })
+);
+
+export default router;
@@ -2,11 +2,14 @@ import { Router } from 'express';
 import { ProductController } from '../controllers/ProductController';
 import { validate, validateRestaurantId } from '../middleware/validation';
 import { uploadProductImage } from '../middleware/upload';
+import { authenticate, authorize } from '../middleware/auth';
 import { 
   CreateProductSchema, 
   UpdateProductSchema,
   ProductParamsSchema,
-  ProductQuerySchema
+  ProductQuerySchema,
+  ChannelQuerySchema,
+  UpdateProductPositionsSchema
 } from '../models/schemas';
 
 const router = Router();
@@ -21,9 +24,18 @@ router.get('/:restaurantId/products',
 );
 
 router.get('/:restaurantId/products/categories', ProductController.getCategories);
-router.get('/:restaurantId/products/available', ProductController.getAvailableProducts);
-router.get('/:restaurantId/products/highlighted', ProductController.getHighlightedProducts);
-router.get('/:restaurantId/products/specials', ProductController.getDaySpecials);
+router.get('/:restaurantId/products/available',
+  validate({ query: ChannelQuerySchema }),
+  ProductController.getAvailableProducts
+);
+router.get('/:restaurantId/products/highlighted',
+  validate({ query: ChannelQuerySchema }),
+  ProductController.getHighlightedProducts
+);
+router.get('/:restaurantId/products/specials',
+  validate({ query: ChannelQuerySchema }),
+  ProductController.getDaySpecials
+);
 router.get('/:restaurantId/products/search', ProductController.searchProducts);
 
 router.get('/:restaurantId/products/category/:category', ProductController.getProductsByCategory);
@@ -34,40 +46,57 @@ router.get('/:restaurantId/products/:productId',
 );
 
 router.post('/:restaurantId/products',
+  authenticate,
+  authorize('admin', 'manager'),
   validate({ body: CreateProductSchema }),
   ProductController.createProduct
 );
 
 router.put('/:restaurantId/products/:productId',
+  authenticate,
+  authorize('admin', 'manager'),
   validate({ params: ProductParamsSchema, body: UpdateProductSchema }),
   ProductController.updateProduct
 );
 
 router.delete('/:restaurantId/products/:productId',
+  authenticate,
+  authorize('admin'),
   validate({ params: ProductParamsSchema }),
   ProductController.deleteProduct
 );
 
 router.patch('/:restaurantId/products/:productId/availability',
+  authenticate,
+  authorize('admin', 'manager', 'staff'),
   validate({ params: ProductParamsSchema }),
   ProductController.updateAvailability
 );
 
 router.patch('/:restaurantId/products/:productId/highlight',
+  authenticate,
+  authorize('admin', 'manager'),
   validate({ params: ProductParamsSchema }),
   ProductController.toggleHighlight
 );
 
 router.patch('/:restaurantId/products/:productId/special',
+  authenticate,
+  authorize('admin', 'manager'),
   validate({ params: ProductParamsSchema }),
   ProductController.toggleDaySpecial
 );
 
 router.patch('/:restaurantId/products/positions',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ body: UpdateProductPositionsSchema }),
   ProductController.updatePositions
 );
 
 router.post('/:restaurantId/products/:productId/image',
+  authenticate,
+  authorize('admin', 'manager'),
   validate({ params: ProductParamsSchema }),
   uploadProductImage,
   ProductController.uploadImage
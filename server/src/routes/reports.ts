@@ -0,0 +1,88 @@
+import { Router } from 'express';
+import { Request, Response } from 'express';
+import { createServiceFactory } from '../services';
+import { validate, validateRestaurantId } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import { asyncHandler, successResponse } from '../middleware/errorHandler';
+import { ProfitReportQuerySchema, ProfitReportQueryInput } from '../models/schemas';
+import { ProfitReport } from '../models/types';
+import { buildProfitReport, getProductCosts } from '../utils/foodCost';
+
+const router = Router();
+
+// Apply restaurant ID validation to all routes
+router.use('/:restaurantId/*', validateRestaurantId);
+
+// Food cost and margin of every product at the current ingredient costs
+router.get('/:restaurantId/reports/food-cost',
+  authenticate,
+  authorize('admin', 'manager'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const [products, ingredients] = await Promise.all([
+      serviceFactory.createProductRepository().findAll(),
+      serviceFactory.createIngredientRepository().findAll()
+    ]);
+
+    const costs = getProductCosts(products, new Map(ingredients.map(ingredient => [ingredient.id, ingredient])));
+
+    return successResponse(res, costs, 'Food costs retrieved successfully');
+  })
+);
+
+// Orders, revenue and top products of a period, with tips and service fees broken out
+router.get('/:restaurantId/reports/sales',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ query: ProfitReportQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+    const { dateFrom, dateTo } = req.query as unknown as ProfitReportQueryInput;
+
+    const analytics = await createServiceFactory(restaurantId).createOrderRepository().getAnalytics(
+      dateFrom ? new Date(dateFrom) : undefined,
+      dateTo ? new Date(dateTo) : undefined
+    );
+
+    return successResponse(res, analytics, 'Sales report retrieved successfully');
+  })
+);
+
+// Gross profit per product and category over the orders of a period
+router.get('/:restaurantId/reports/profit',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ query: ProfitReportQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+    const { dateFrom, dateTo } = req.query as unknown as ProfitReportQueryInput;
+    const startDate = dateFrom ? new Date(dateFrom) : undefined;
+    const endDate = dateTo ? new Date(dateTo) : undefined;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const [sales, products, categories, ingredients] = await Promise.all([
+      serviceFactory.createOrderRepository().getProductSales(startDate, endDate),
+      serviceFactory.createProductRepository().findAll(),
+      serviceFactory.createCategoryRepository().findAll(),
+      serviceFactory.createIngredientRepository().findAll()
+    ]);
+
+    // Recipes and ingredient costs are the current ones, not those at the time of sale
+    const report: ProfitReport = {
+      ...(startDate && { dateFrom: startDate }),
+      ...(endDate && { dateTo: endDate }),
+      ...buildProfitReport(
+        sales,
+        new Map(products.map(product => [product.id, product])),
+        new Map(categories.map(category => [category.id, category])),
+        new Map(ingredients.map(ingredient => [ingredient.id, ingredient]))
+      )
+    };
+
+    return successResponse(res, report, 'Profit report retrieved successfully');
+  })
+);
+
+export default router;
@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import { Request, Response } from 'express';
+import { createServiceFactory } from '../services';
+import { validate, validateRestaurantId } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import { asyncHandler, successResponse } from '../middleware/errorHandler';
+import { UpdateSettingsSchema, UpdateSettingsInput } from '../models/schemas';
+import { OrderChannel } from '../models/types';
+import { isChannelEnabled } from '../utils/pricing';
+import { getOpenState } from '../utils/openingHours';
+
+const CHANNELS: OrderChannel[] = ['dine_in', 'takeaway', 'delivery'];
+
+const router = Router();
+
+// Apply restaurant ID validation to all routes
+router.use('/:restaurantId/*', validateRestaurantId);
+
+// Get settings (public, the cart needs fees and enabled channels)
+router.get('/:restaurantId/settings',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const settingsRepository = serviceFactory.createSettingsRepository();
+
+    const settings = await settingsRepository.getEffectiveSettings();
+
+    return successResponse(res, settings, 'Settings retrieved successfully');
+  })
+);
+
+// Get the current open state of each channel (public, the menu header shows it)
+router.get('/:restaurantId/opening-hours/status',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const settings = await serviceFactory.createSettingsRepository().getEffectiveSettings();
+    const now = new Date();
+
+    const channels = Object.fromEntries(CHANNELS.map(channel => {
+      const enabled = isChannelEnabled(settings, channel);
+      const state = getOpenState(settings, channel, now);
+
+      // A disabled channel never opens, whatever its hours
+      return [channel, enabled ? { enabled, ...state } : { enabled, open: false }];
+    }));
+
+    return successResponse(res, {
+      timezone: settings.timezone,
+      scheduledOrders: settings.openingHours.scheduledOrders.enabled,
+      channels
+    }, 'Opening status retrieved successfully');
+  })
+);
+
+// Update settings
+router.put('/:restaurantId/settings',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ body: UpdateSettingsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+    const updateData: UpdateSettingsInput = req.body;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const settingsRepository = serviceFactory.createSettingsRepository();
+
+    await settingsRepository.updateSettings(updateData);
+    const settings = await settingsRepository.getEffectiveSettings();
+
+    return successResponse(res, settings, 'Settings updated successfully');
+  })
+);
+
+export default router;
@@ -0,0 +1,106 @@
+import { Router } from 'express';
+import { Request, Response } from 'express';
+import { createServiceFactory } from '../services';
+import { validate, validateRestaurantId } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  asyncHandler,
+  successResponse,
+  NotFoundError,
+  ValidationError
+} from '../middleware/errorHandler';
+import {
+  CreateStockAdjustmentSchema,
+  StockQuerySchema,
+  StockAdjustmentQuerySchema,
+  CreateStockAdjustmentInput,
+  StockQueryInput,
+  StockAdjustmentQueryInput
+} from '../models/schemas';
+import { StockChange, StockShortageError, getStockLevels, toStockTarget } from '../utils/stock';
+
+const router = Router();
+
+// Apply restaurant ID validation to all routes
+router.use('/:restaurantId/*', validateRestaurantId);
+
+// Get the tracked products and choices, lowest stock first
+router.get('/:restaurantId/stock',
+  authenticate,
+  authorize('admin', 'manager', 'staff'),
+  validate({ query: StockQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+    const { low } = req.query as unknown as StockQueryInput;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const [products, optionGroups] = await Promise.all([
+      serviceFactory.createProductRepository().findAll(),
+      serviceFactory.createOptionGroupRepository().findAll()
+    ]);
+
+    const levels = getStockLevels(products, optionGroups);
+
+    return successResponse(res, low ? levels.filter(level => level.low) : levels, 'Stock levels retrieved successfully');
+  })
+);
+
+// Get the stock adjustment log, newest first
+router.get('/:restaurantId/stock/adjustments',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ query: StockAdjustmentQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+    const { limit, ...filter } = req.query as unknown as StockAdjustmentQueryInput;
+
+    const stockRepository = createServiceFactory(restaurantId).createStockRepository();
+    const adjustments = await stockRepository.findRecent(filter, limit);
+
+    return successResponse(res, adjustments, 'Stock adjustments retrieved successfully');
+  })
+);
+
+// Restock, write off or count a product or choice
+router.post('/:restaurantId/stock/adjustments',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ body: CreateStockAdjustmentSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+    const adjustment: CreateStockAdjustmentInput = req.body;
+
+    const target = toStockTarget(adjustment);
+    const change: StockChange = adjustment.reason === 'count'
+      ? { target, quantity: adjustment.quantity }
+      : { target, delta: adjustment.reason === 'restock' ? adjustment.qty : -adjustment.qty };
+
+    const stockRepository = createServiceFactory(restaurantId).createStockRepository();
+
+    try {
+      const results = await stockRepository.adjust(change, {
+        reason: adjustment.reason,
+        actor: req.context,
+        note: adjustment.note
+      });
+
+      // Nothing changes for unknown targets or untracked items moved by a delta
+      if (results.length === 0) {
+        throw new NotFoundError('Tracked stock item');
+      }
+
+      return successResponse(res, results, 'Stock adjusted successfully', 201);
+    } catch (error) {
+      if (error instanceof StockShortageError) {
+        throw new ValidationError('Not enough stock', error.shortages.map(shortage => ({
+          field: 'qty',
+          message: `Only ${shortage.available} left of ${shortage.name}`,
+          code: 'OUT_OF_STOCK'
+        })));
+      }
+      throw error;
+    }
+  })
+);
+
+export default router;
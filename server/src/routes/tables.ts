@@ -0,0 +1,161 @@
+import { Router } from 'express';
+import { Request, Response } from 'express';
+import { TableNumberTakenError, createServiceFactory } from '../services';
+import { validate, validateRestaurantId } from '../middleware/validation';
+import { authenticate, authorize } from '../middleware/auth';
+import { asyncHandler, successResponse, NotFoundError, ConflictError } from '../middleware/errorHandler';
+import {
+  CreateTableSchema,
+  UpdateTableSchema,
+  TableParamsSchema,
+  TableQuerySchema,
+  CreateTableInput,
+  UpdateTableInput,
+  TableQueryInput
+} from '../models/schemas';
+
+const router = Router();
+
+// Apply restaurant ID validation to all routes
+router.use('/:restaurantId/*', validateRestaurantId);
+
+/**
+ * Run a table write, answering 409 when the number is taken; the check runs in the write transaction
+ */
+const withUniqueNumber = async <T>(write: () => Promise<T>): Promise<T> => {
+  try {
+    return await write();
+  } catch (error) {
+    if (error instanceof TableNumberTakenError) {
+      throw new ConflictError(error.message);
+    }
+    throw error;
+  }
+};
+
+// Get all tables
+router.get('/:restaurantId/tables',
+  authenticate,
+  authorize('admin', 'manager', 'staff'),
+  validate({ query: TableQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+    const { active } = req.query as unknown as TableQueryInput;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const tableRepository = serviceFactory.createTableRepository();
+
+    const tables = active
+      ? await tableRepository.findActive()
+      : await tableRepository.findAll({ field: 'number', direction: 'asc' });
+
+    return successResponse(res, tables, 'Tables retrieved successfully');
+  })
+);
+
+// Get table by ID
+router.get('/:restaurantId/tables/:tableId',
+  authenticate,
+  authorize('admin', 'manager', 'staff'),
+  validate({ params: TableParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, tableId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const tableRepository = serviceFactory.createTableRepository();
+
+    const table = await tableRepository.findById(tableId);
+    if (!table) {
+      throw new NotFoundError('Table');
+    }
+
+    return successResponse(res, table, 'Table retrieved successfully');
+  })
+);
+
+// Create table
+router.post('/:restaurantId/tables',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ body: CreateTableSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId } = req.params;
+    const tableData: CreateTableInput = req.body;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const tableRepository = serviceFactory.createTableRepository();
+
+    const tableId = await withUniqueNumber(() => tableRepository.create(tableData));
+    const table = await tableRepository.findById(tableId);
+
+    return successResponse(res, table, 'Table created successfully', 201);
+  })
+);
+
+// Update table
+router.put('/:restaurantId/tables/:tableId',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ params: TableParamsSchema, body: UpdateTableSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, tableId } = req.params;
+    const updateData: UpdateTableInput = req.body;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const tableRepository = serviceFactory.createTableRepository();
+
+    if (!await tableRepository.exists(tableId)) {
+      throw new NotFoundError('Table');
+    }
+
+    await withUniqueNumber(() => tableRepository.update(tableId, updateData));
+    const table = await tableRepository.findById(tableId);
+
+    return successResponse(res, table, 'Table updated successfully');
+  })
+);
+
+// Deactivate table
+router.patch('/:restaurantId/tables/:tableId/deactivate',
+  authenticate,
+  authorize('admin', 'manager'),
+  validate({ params: TableParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, tableId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const tableRepository = serviceFactory.createTableRepository();
+
+    if (!await tableRepository.exists(tableId)) {
+      throw new NotFoundError('Table');
+    }
+
+    await tableRepository.deactivate(tableId);
+    const table = await tableRepository.findById(tableId);
+
+    return successResponse(res, table, 'Table deactivated successfully');
+  })
+);
+
+// Delete table
+router.delete('/:restaurantId/tables/:tableId',
+  authenticate,
+  authorize('admin'),
+  validate({ params: TableParamsSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { restaurantId, tableId } = req.params;
+
+    const serviceFactory = createServiceFactory(restaurantId);
+    const tableRepository = serviceFactory.createTableRepository();
+
+    if (!await tableRepository.exists(tableId)) {
+      throw new NotFoundError('Table');
+    }
+
+    await tableRepository.delete(tableId);
+
+    return successResponse(res, null, 'Table deleted successfully');
+  })
+);
+
+export default router;
@@ -3,6 +3,7 @@ import { Request, Response } from 'express';
 import { createServiceFactory } from '../services';
 import { validateRestaurantId } from '../middleware/validation';
 import { uploadImage } from '../middleware/upload';
+import { authenticate, authorize } from '../middleware/auth';
 import { asyncHandler, successResponse } from '../middleware/errorHandler';
 
 const router = Router();
@@ -12,6 +13,8 @@ router.use('/:restaurantId/*', validateRestaurantId);
 
 // Generic image upload
 router.post('/:restaurantId/upload/image',
+  authenticate,
+  authorize('admin', 'manager'),
   uploadImage,
   asyncHandler(async (req: Request, res: Response) => {
     const { restaurantId } = req.params;
@@ -56,6 +56,25 @@ export abstract class BaseRepository<T extends FirestoreDocument> {
     }
   }
 
+  /**
+   * Get several documents by ID, skipping missing ones
+   */
+  async findByIds(ids: string[]): Promise<T[]> {
+    try {
+      const uniqueIds = [...new Set(ids)];
+      if (uniqueIds.length === 0) {
+        return [];
+      }
+
+      const docs = await db.getAll(...uniqueIds.map(id => this.collection.doc(id)));
+      return docs
+        .filter(doc => doc.exists)
+        .map(doc => this.transformDocument(doc));
+    } catch (error) {
+      throw new Error(`Failed to get documents by ID: ${error}`);
+    }
+  }
+
   /**
    * Update document by ID
    */
@@ -0,0 +1,54 @@
+import { BaseRepository } from './BaseRepository';
+import { Category } from '../models/types';
+
+/**
+ * Category Repository
+ * Menu categories with their display order and metadata
+ */
+export class CategoryRepository extends BaseRepository<Category> {
+  constructor(restaurantId: string) {
+    super('categories', restaurantId);
+  }
+
+  /**
+   * Find all categories in menu order
+   */
+  async findOrdered(): Promise<Category[]> {
+    return this.findAll({ field: 'position', direction: 'asc' });
+  }
+
+  /**
+   * Find categories shown on the menu, in menu order
+   */
+  async findVisible(): Promise<Category[]> {
+    return this.findWhere('visible', '==', true, { field: 'position', direction: 'asc' });
+  }
+
+  async findByName(name: string): Promise<Category | null> {
+    const categories = await this.findWhere('name', '==', name);
+    return categories[0] || null;
+  }
+
+  /**
+   * Check whether a category name is already used by another category
+   */
+  async isNameTaken(name: string, excludeCategoryId?: string): Promise<boolean> {
+    const categories = await this.findWhere('name', '==', name);
+    return categories.some(category => category.id !== excludeCategoryId);
+  }
+
+  /**
+   * Position right after the last category
+   */
+  async getNextPosition(): Promise<number> {
+    const [last] = await this.findAll({ field: 'position', direction: 'desc' }, 1);
+    return last ? last.position + 1 : 1;
+  }
+
+  /**
+   * Update multiple categories positions
+   */
+  async updatePositions(updates: { id: string; position: number }[]): Promise<void> {
+    return this.batchUpdate(updates.map(({ id, position }) => ({ id, data: { position } })));
+  }
+}
@@ -0,0 +1,50 @@
+import { BaseRepository } from './BaseRepository';
+import { CreateInput, OptionGroup, ProductOption } from '../models/types';
+import { FieldValue } from 'firebase-admin/firestore';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Option Group Repository
+ * Reusable option groups (e.g. "Ponto da carne") that products link by id
+ */
+export class OptionGroupRepository extends BaseRepository<OptionGroup> {
+  constructor(restaurantId: string) {
+    super('optionGroups', restaurantId);
+  }
+
+  /**
+   * Create a group under a UUID document id
+   * Linked groups come back inside product options, whose ids the product schemas require to be UUIDs
+   */
+  async create(data: CreateInput<OptionGroup>): Promise<string> {
+    const id = uuidv4();
+
+    try {
+      await this.collection.doc(id).set({
+        ...data,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp()
+      });
+      return id;
+    } catch (error) {
+      throw new Error(`Failed to create document: ${error}`);
+    }
+  }
+
+  /**
+   * Find all groups ordered by name
+   */
+  async findAllSorted(): Promise<OptionGroup[]> {
+    return this.findAll({ field: 'name', direction: 'asc' });
+  }
+
+  /**
+   * Load the linked groups as product options, keyed by group id
+   * Missing groups are skipped so a deleted group never breaks the menu
+   */
+  async findAsOptions(ids: string[]): Promise<Map<string, ProductOption>> {
+    const groups = await this.findByIds(ids);
+
+    return new Map(groups.map(({ createdAt, updatedAt, ...option }) => [option.id, option]));
+  }
+}
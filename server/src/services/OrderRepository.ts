@@ -1,7 +1,71 @@
 import { BaseRepository } from './BaseRepository';
-import { Order, OrderStatus, OrderChannel } from '../models/types';
+import {
+  Order,
+  OrderStatus,
+  OrderStatusChange,
+  OrderChannel,
+  OrderCounter,
+  Coupon,
+  SettingsValues,
+  RequestContext,
+  StockReservation,
+  Payment,
+  BillSplit,
+  ServiceFeeChange,
+  Tip,
+  UpdateInput
+} from '../models/types';
 import { OrderQueryInput } from '../models/schemas';
-import { FieldValue } from 'firebase-admin/firestore';
+import { DocumentSnapshot, FieldValue, Query, Timestamp } from 'firebase-admin/firestore';
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../config/firebase';
+import { calculateSubtotal, calculateCouponDiscount, calculateFees, calculateTip, calculateTotal } from '../utils/pricing';
+import { getNextOrderCounter, formatOrderCode } from '../utils/orderNumber';
+import { StockShortageError, toStockChanges, toStockReservations } from '../utils/stock';
+import { ProductSales, TipsAndFeesSummary, summarizeProductSales, summarizeTipsAndFees } from '../utils/sales';
+import {
+  BillSplitInput,
+  PaymentError,
+  PaymentInput,
+  ServiceFeeInput,
+  applyServiceFee,
+  buildBillSplit,
+  buildPayment
+} from '../utils/payments';
+import { StatusChangeError, TERMINAL_STATUSES, assertStatusChange } from '../utils/orderStatus';
+import { StockRepository } from './StockRepository';
+
+export interface StatusChangeInput {
+  actor?: RequestContext;
+  reason?: string;
+  override?: boolean;
+}
+
+// Status change written in a transaction; history and timestamps take Firestore sentinels
+type OrderStatusUpdate = Omit<UpdateInput<Order>, 'statusHistory'> & {
+  statusHistory: FieldValue;
+  updatedAt: FieldValue;
+};
+
+/**
+ * Build a status history entry, leaving out empty fields (Firestore rejects undefined)
+ */
+const buildStatusChange = (
+  from: OrderStatus | null,
+  to: OrderStatus,
+  change: StatusChangeInput = {}
+): OrderStatusChange => ({
+  from,
+  to,
+  at: new Date(),
+  ...(change.actor?.userId && {
+    actor: {
+      userId: change.actor.userId,
+      ...(change.actor.userRole && { role: change.actor.userRole })
+    }
+  }),
+  ...(change.reason && { reason: change.reason })
+});
 
 /**
  * Order Repository
@@ -14,62 +78,155 @@ export class OrderRepository extends BaseRepository<Order> {
 
   /**
    * Create a new order with calculated amounts
+   * Tracked stock is taken in the same transaction; a shortage throws StockShortageError
    */
   async createOrder(orderData: {
     items: Order['items'];
     channel: OrderChannel;
     tableId?: string;
     customer?: Order['customer'];
+    coupon?: Coupon;
+    tip?: Tip;
+    serviceFee?: boolean;
+    settings: SettingsValues;
+    scheduledFor?: Date;
+    stockReservations?: StockReservation[];
   }): Promise<string> {
     try {
-      // Generate order number
-      const orderNumber = Math.floor(1000 + Math.random() * 9000);
+      const {
+        coupon,
+        tip,
+        serviceFee = true,
+        settings,
+        scheduledFor,
+        stockReservations = [],
+        ...orderFields
+      } = orderData;
       
       // Calculate amounts
-      const subtotal = orderData.items.reduce((sum, item) => {
-        const optionsPrice = item.options.reduce((optSum, opt) => optSum + opt.price, 0);
-        return sum + (item.unitPrice + optionsPrice) * item.qty;
-      }, 0);
-
-      // Calculate fees based on channel
-      const serviceFee = orderData.channel === 'dine_in' ? Math.round(subtotal * 0.1) : 0;
-      const deliveryFee = orderData.channel === 'delivery' ? 500 : 0; // 5.00 in cents
-      
-      const total = subtotal + serviceFee + deliveryFee;
+      const subtotal = calculateSubtotal(orderFields.items);
+
+      // Apply coupon validated by the caller
+      const discounts = coupon ? calculateCouponDiscount(coupon, subtotal) : 0;
+
+      // Calculate fees from the restaurant settings, unless the customer declined the service fee
+      const fees = calculateFees(settings, orderData.channel, subtotal);
+      if (!serviceFee) {
+        delete fees.service;
+      }
+
+      const tipAmount = tip ? calculateTip(tip, subtotal) : 0;
+      const amounts = {
+        subtotal,
+        discounts,
+        fees,
+        ...(tipAmount > 0 && { tip: tipAmount })
+      };
 
       const order = {
         restaurantId: this.restaurantId,
-        ...orderData,
-        orderNumber,
+        ...orderFields,
+        ...(coupon && {
+          coupon: {
+            id: coupon.id,
+            code: coupon.code,
+            type: coupon.type,
+            value: coupon.value,
+            discount: discounts
+          }
+        }),
+        ...(tipAmount > 0 && { tip }),
+        ...(scheduledFor && { scheduledFor }),
         status: 'placed' as OrderStatus,
         amounts: {
-          subtotal,
-          discounts: 0,
-          fees: {
-            service: serviceFee || undefined,
-            delivery: deliveryFee || undefined
-          },
-          total
+          ...amounts,
+          total: calculateTotal(amounts)
         }
       };
 
-      return this.create(order);
+      // Allocate the order number, take the stock and write the order atomically
+      const counterRef = db.doc(`restaurants/${this.restaurantId}/counters/orders`);
+      const orderRef = this.collection.doc();
+      const stockRepository = new StockRepository(this.restaurantId);
+
+      await db.runTransaction(async (transaction) => {
+        // Transactions read everything before writing
+        const counterDoc = await transaction.get(counterRef);
+        const stockPlan = await stockRepository.prepare(transaction, toStockChanges(stockReservations, -1));
+        if (stockPlan.shortages.length > 0) {
+          throw new StockShortageError(stockPlan.shortages);
+        }
+
+        const counter = getNextOrderCounter(
+          counterDoc.exists ? counterDoc.data() as OrderCounter : undefined,
+          settings.orderNumbers,
+          settings.timezone
+        );
+
+        transaction.set(counterRef, {
+          ...counter,
+          updatedAt: FieldValue.serverTimestamp()
+        });
+        transaction.set(orderRef, {
+          ...order,
+          ...(stockPlan.results.length > 0 && { stockReservations: toStockReservations(stockPlan.results) }),
+          statusHistory: [buildStatusChange(null, order.status)],
+          orderNumber: counter.value,
+          orderCode: formatOrderCode(counter.value, orderData.channel, settings.orderNumbers),
+          createdAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp()
+        });
+        stockRepository.commit(transaction, stockPlan, { reason: 'order', orderId: orderRef.id });
+      });
+
+      return orderRef.id;
     } catch (error) {
+      if (error instanceof StockShortageError) {
+        throw error;
+      }
       throw new Error(`Failed to create order: ${error}`);
     }
   }
 
   /**
-   * Update order status
+   * Update order status and append the change to its history
+   * The transition is checked in the transaction so concurrent changes cannot both pass; a
+   * change the stored order does not allow throws StatusChangeError
+   */
+  async updateStatus(orderId: string, status: OrderStatus, change: StatusChangeInput = {}): Promise<void> {
+    const orderRef = this.collection.doc(orderId);
+
+    try {
+      await db.runTransaction(async (transaction) => {
+        const order = this.toStatusChangeOrder(await transaction.get(orderRef), status, change);
+
+        const updates: OrderStatusUpdate = {
+          status,
+          statusHistory: FieldValue.arrayUnion(buildStatusChange(order.status, status, change)),
+          ...(status === 'closed' && { closedAt: new Date() }),
+          updatedAt: FieldValue.serverTimestamp()
+        };
+
+        transaction.update(orderRef, updates);
+      });
+    } catch (error) {
+      if (error instanceof StatusChangeError) {
+        throw error;
+      }
+      throw new Error(`Failed to update order status: ${error}`);
+    }
+  }
+
+  /**
+   * Get the status history of an order, oldest first
    */
-  async updateStatus(orderId: string, status: OrderStatus): Promise<void> {
-    const updates: any = { status };
-    
-    if (status === 'closed') {
-      updates.closedAt = new Date();
+  async getStatusHistory(orderId: string): Promise<OrderStatusChange[] | null> {
+    const order = await this.findById(orderId);
+    if (!order) {
+      return null;
     }
 
-    return this.update(orderId, updates);
+    return [...(order.statusHistory || [])].sort((a, b) => a.at.getTime() - b.at.getTime());
   }
 
   /**
@@ -217,6 +374,7 @@ export class OrderRepository extends BaseRepository<Order> {
 
   /**
    * Get order analytics
+   * Tips and service fees leave canceled orders out, nothing was collected on them
    */
   async getAnalytics(startDate?: Date, endDate?: Date): Promise<{
     totalOrders: number;
@@ -225,9 +383,9 @@ export class OrderRepository extends BaseRepository<Order> {
     ordersByStatus: Record<OrderStatus, number>;
     ordersByChannel: Record<OrderChannel, number>;
     topProducts: Array<{ productId: string; name: string; quantity: number; revenue: number }>;
-  }> {
+  } & TipsAndFeesSummary> {
     try {
-      let query = this.getCollection();
+      let query: Query = this.getCollection();
 
       if (startDate) {
         query = query.where('createdAt', '>=', startDate);
@@ -252,6 +410,8 @@ export class OrderRepository extends BaseRepository<Order> {
         in_preparation: 0,
         ready: 0,
         served: 0,
+        out_for_delivery: 0,
+        delivered: 0,
         closed: 0,
         canceled: 0
       };
@@ -263,37 +423,17 @@ export class OrderRepository extends BaseRepository<Order> {
         delivery: 0
       };
 
-      // Product analytics
-      const productStats: Record<string, { name: string; quantity: number; revenue: number }> = {};
-
       orders.forEach(order => {
         // Count by status
         ordersByStatus[order.status]++;
 
         // Count by channel
         ordersByChannel[order.channel]++;
-
-        // Product stats
-        order.items.forEach(item => {
-          if (!productStats[item.productId]) {
-            productStats[item.productId] = {
-              name: item.name,
-              quantity: 0,
-              revenue: 0
-            };
-          }
-
-          productStats[item.productId].quantity += item.qty;
-          productStats[item.productId].revenue += item.unitPrice * item.qty;
-        });
       });
 
       // Get top products
-      const topProducts = Object.entries(productStats)
-        .map(([productId, stats]) => ({
-          productId,
-          ...stats
-        }))
+      const topProducts = summarizeProductSales(orders)
+        .map(({ productId, name, quantity, revenue }) => ({ productId, name, quantity, revenue }))
         .sort((a, b) => b.revenue - a.revenue)
         .slice(0, 10);
 
@@ -303,13 +443,37 @@ export class OrderRepository extends BaseRepository<Order> {
         averageOrderValue,
         ordersByStatus,
         ordersByChannel,
-        topProducts
+        topProducts,
+        ...summarizeTipsAndFees(orders.filter(order => order.status !== 'canceled'))
       };
     } catch (error) {
       throw new Error(`Failed to get order analytics: ${error}`);
     }
   }
 
+  /**
+   * Units and revenue per product sold in a period, canceled orders left out
+   */
+  async getProductSales(startDate?: Date, endDate?: Date): Promise<ProductSales[]> {
+    try {
+      let query: Query = this.getCollection();
+
+      if (startDate) {
+        query = query.where('createdAt', '>=', startDate);
+      }
+
+      if (endDate) {
+        query = query.where('createdAt', '<=', endDate);
+      }
+
+      const orders = await this.executeQuery(query);
+
+      return summarizeProductSales(orders.filter(order => order.status !== 'canceled'));
+    } catch (error) {
+      throw new Error(`Failed to get product sales: ${error}`);
+    }
+  }
+
   /**
    * Get recent orders
    */
@@ -321,40 +485,165 @@ export class OrderRepository extends BaseRepository<Order> {
   }
 
   /**
-   * Cancel order
+   * Cancel order and give its reserved stock back
+   * Checked like any status change, so an order canceled meanwhile does not give its stock back twice
    */
-  async cancel(orderId: string, reason?: string): Promise<void> {
-    const updates: any = {
-      status: 'canceled',
-      closedAt: new Date()
-    };
+  async cancel(orderId: string, change: StatusChangeInput = {}): Promise<void> {
+    const { reason } = change;
+    const orderRef = this.collection.doc(orderId);
+    const stockRepository = new StockRepository(this.restaurantId);
+
+    try {
+      await db.runTransaction(async (transaction) => {
+        const order = this.toStatusChangeOrder(await transaction.get(orderRef), 'canceled', change);
+        const stockPlan = await stockRepository.prepare(transaction, toStockChanges(order.stockReservations ?? [], 1));
+
+        const updates: OrderStatusUpdate = {
+          status: 'canceled',
+          statusHistory: FieldValue.arrayUnion(buildStatusChange(order.status, 'canceled', change)),
+          ...(reason && { cancelReason: reason }),
+          closedAt: new Date(),
+          updatedAt: FieldValue.serverTimestamp()
+        };
 
-    if (reason) {
-      updates.cancelReason = reason;
+        transaction.update(orderRef, updates);
+        stockRepository.commit(transaction, stockPlan, {
+          reason: 'cancel',
+          orderId,
+          actor: change.actor,
+          ...(reason && { note: reason })
+        });
+      });
+    } catch (error) {
+      if (error instanceof StatusChangeError) {
+        throw error;
+      }
+      throw new Error(`Failed to cancel order: ${error}`);
     }
+  }
+
+  /**
+   * Record a payment against what is left of the bill, in a transaction so concurrent
+   * payments cannot overpay it; invalid payments throw PaymentError
+   */
+  async addPayment(orderId: string, input: PaymentInput, actor?: RequestContext): Promise<Payment> {
+    const orderRef = this.collection.doc(orderId);
+
+    try {
+      return await db.runTransaction(async (transaction) => {
+        const order = this.toPayableOrder(await transaction.get(orderRef));
+
+        const payment = buildPayment(order, input, {
+          id: uuidv4(),
+          ...(actor?.userId && {
+            actor: { userId: actor.userId, ...(actor.userRole && { role: actor.userRole }) }
+          }),
+          createdAt: new Date()
+        });
+
+        transaction.update(orderRef, {
+          payments: [...(order.payments ?? []), payment],
+          updatedAt: FieldValue.serverTimestamp()
+        });
 
-    return this.update(orderId, updates);
+        return payment;
+      });
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+      throw new Error(`Failed to add payment: ${error}`);
+    }
   }
 
   /**
-   * Add payment to order
+   * Divide the bill between payers, replacing a split that has no payments yet
    */
-  async addPayment(orderId: string, payment: Order['payments'][0]): Promise<void> {
+  async splitBill(orderId: string, input: BillSplitInput): Promise<BillSplit> {
+    const orderRef = this.collection.doc(orderId);
+
     try {
-      const order = await this.findById(orderId);
-      if (!order) {
-        throw new Error('Order not found');
+      return await db.runTransaction(async (transaction) => {
+        const order = this.toPayableOrder(await transaction.get(orderRef));
+        const billSplit = buildBillSplit(order, input, uuidv4);
+
+        transaction.update(orderRef, { billSplit, updatedAt: FieldValue.serverTimestamp() });
+
+        return billSplit;
+      });
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        throw error;
       }
+      throw new Error(`Failed to split bill: ${error}`);
+    }
+  }
+
+  /**
+   * Waive or adjust the service fee, logging the change with its reason
+   * An unpaid bill split is dropped since its shares add up to the old total
+   */
+  async adjustServiceFee(orderId: string, input: ServiceFeeInput, actor?: RequestContext): Promise<ServiceFeeChange> {
+    const orderRef = this.collection.doc(orderId);
+
+    try {
+      return await db.runTransaction(async (transaction) => {
+        const order = this.toPayableOrder(await transaction.get(orderRef));
+
+        const { amounts, change } = applyServiceFee(order, input, {
+          ...(actor?.userId && {
+            actor: { userId: actor.userId, ...(actor.userRole && { role: actor.userRole }) }
+          }),
+          at: new Date()
+        });
 
-      const payments = order.payments || [];
-      payments.push(payment);
+        transaction.update(orderRef, {
+          amounts,
+          serviceFeeChanges: FieldValue.arrayUnion(change),
+          ...(order.billSplit && { billSplit: FieldValue.delete() }),
+          updatedAt: FieldValue.serverTimestamp()
+        });
 
-      return this.update(orderId, { payments });
+        return change;
+      });
     } catch (error) {
-      throw new Error(`Failed to add payment: ${error}`);
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+      throw new Error(`Failed to adjust service fee: ${error}`);
     }
   }
 
+  /**
+   * Order read inside a status transaction, checked against the change asked for
+   */
+  private toStatusChangeOrder(doc: DocumentSnapshot, status: OrderStatus, change: StatusChangeInput): Order {
+    if (!doc.exists) {
+      throw new StatusChangeError('Order not found', 'ORDER_NOT_FOUND');
+    }
+
+    const order = this.transformDocument(doc);
+    assertStatusChange(order, status, { override: change.override, role: change.actor?.userRole });
+
+    return order;
+  }
+
+  /**
+   * Order read inside a payment transaction; finished orders take no payments or splits
+   */
+  private toPayableOrder(doc: DocumentSnapshot): Order {
+    if (!doc.exists) {
+      throw new PaymentError('Order not found', 'ORDER_NOT_FOUND', 'orderId');
+    }
+
+    const order = this.transformDocument(doc);
+    if (TERMINAL_STATUSES.includes(order.status)) {
+      throw new PaymentError(`Order is ${order.status}`, 'ORDER_NOT_PAYABLE', 'status');
+    }
+
+    return order;
+  }
+
   /**
    * Get orders requiring attention (old pending orders)
    */
@@ -373,4 +662,77 @@ export class OrderRepository extends BaseRepository<Order> {
       throw new Error(`Failed to get orders requiring attention: ${error}`);
     }
   }
+
+  /**
+   * Listen to orders changed at or after a point in time
+   * The first snapshot replays changes since `since`, then every create/update is pushed
+   */
+  watchChanges(
+    since: Timestamp,
+    onChange: (change: { order: Order; updatedAt: Timestamp; created: boolean }) => void,
+    onError: (error: Error) => void
+  ): () => void {
+    const query = this.getCollection()
+      .where('updatedAt', '>=', since)
+      .orderBy('updatedAt', 'asc');
+
+    return query.onSnapshot(snapshot => {
+      snapshot.docChanges()
+        .filter(change => change.type !== 'removed')
+        .forEach(({ doc }) => {
+          const { createdAt, updatedAt } = doc.data();
+          if (!(updatedAt instanceof Timestamp)) {
+            return;
+          }
+
+          onChange({
+            order: this.transformDocument(doc),
+            updatedAt,
+            created: createdAt instanceof Timestamp && createdAt.isEqual(updatedAt)
+          });
+        });
+    }, onError);
+  }
+
+  /**
+   * Listen to a single order, starting with its current state
+   */
+  watchOrder(
+    orderId: string,
+    onChange: (change: { order: Order | null; updatedAt?: Timestamp; created: boolean }) => void,
+    onError: (error: Error) => void
+  ): () => void {
+    return this.getCollection().doc(orderId).onSnapshot(doc => {
+      if (!doc.exists) {
+        onChange({ order: null, created: false });
+        return;
+      }
+
+      const { createdAt, updatedAt } = doc.data() || {};
+      onChange({
+        order: this.transformDocument(doc),
+        updatedAt: updatedAt instanceof Timestamp ? updatedAt : undefined,
+        created: createdAt instanceof Timestamp && createdAt.isEqual(updatedAt)
+      });
+    }, onError);
+  }
+
+  /**
+   * Convert nested Firestore timestamps to dates
+   */
+  protected transformDocument(doc: DocumentSnapshot): Order {
+    const order = super.transformDocument(doc);
+    const toDate = (value: unknown): Date =>
+      value instanceof Timestamp ? value.toDate() : new Date(value as string | Date);
+
+    return {
+      ...order,
+      ...(order.closedAt && { closedAt: toDate(order.closedAt) }),
+      ...(order.scheduledFor && { scheduledFor: toDate(order.scheduledFor) }),
+      statusHistory: (order.statusHistory || []).map(change => ({
+        ...change,
+        at: toDate(change.at)
+      }))
+    };
+  }
 }
@@ -1,24 +1,127 @@
+import { FieldValue, OrderByDirection, WhereFilterOp } from 'firebase-admin/firestore';
 import { BaseRepository } from './BaseRepository';
+import { OptionGroupRepository } from './OptionGroupRepository';
+import { CategoryRepository } from './CategoryRepository';
+import { db } from '../config/firebase';
 import { Product } from '../models/types';
 import { ProductQueryInput } from '../models/schemas';
 
 /**
  * Product Repository
  * Handles all product-related database operations
+ * Products are returned with their category name and linked option groups resolved
  */
 export class ProductRepository extends BaseRepository<Product> {
+  private optionGroupRepository: OptionGroupRepository;
+  private categoryRepository: CategoryRepository;
+
   constructor(restaurantId: string) {
     super('products', restaurantId);
+    this.optionGroupRepository = new OptionGroupRepository(restaurantId);
+    this.categoryRepository = new CategoryRepository(restaurantId);
+  }
+
+  async findById(id: string): Promise<Product | null> {
+    const product = await super.findById(id);
+    return product ? (await this.resolveReferences([product]))[0] : null;
+  }
+
+  async findByIds(ids: string[]): Promise<Product[]> {
+    return this.resolveReferences(await super.findByIds(ids));
+  }
+
+  async findAll(
+    orderBy?: { field: string; direction?: OrderByDirection },
+    limit?: number
+  ): Promise<Product[]> {
+    return this.resolveReferences(await super.findAll(orderBy, limit));
+  }
+
+  async findWhere(
+    field: string,
+    operator: WhereFilterOp,
+    value: unknown,
+    orderBy?: { field: string; direction?: OrderByDirection },
+    limit?: number
+  ): Promise<Product[]> {
+    return this.resolveReferences(await super.findWhere(field, operator, value, orderBy, limit));
+  }
+
+  /**
+   * Resolve the category name and append the linked option groups to each product's own options
+   * Both are read at request time, so renaming a category or editing a group updates every product
+   */
+  private async resolveReferences(products: Product[]): Promise<Product[]> {
+    const groupIds = products.flatMap(product => product.optionGroupIds ?? []);
+    const hasCategoryIds = products.some(product => product.categoryId);
+
+    if (groupIds.length === 0 && !hasCategoryIds) {
+      return products;
+    }
+
+    const [groups, categories] = await Promise.all([
+      this.optionGroupRepository.findAsOptions(groupIds),
+      hasCategoryIds ? this.categoryRepository.findAll() : Promise.resolve([])
+    ]);
+    const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+
+    return products.map(product => {
+      const category = (product.categoryId && categoryNames.get(product.categoryId)) || product.category;
+
+      if (!product.optionGroupIds?.length) {
+        return { ...product, category };
+      }
+
+      const linkedOptions = product.optionGroupIds
+        .map(groupId => groups.get(groupId))
+        .filter(option => option !== undefined);
+
+      return { ...product, category, options: [...(product.options ?? []), ...linkedOptions] };
+    });
+  }
+
+  /**
+   * Find products linked to an option group
+   */
+  async findByOptionGroup(optionGroupId: string): Promise<Product[]> {
+    return this.findWhere('optionGroupIds', 'array-contains', optionGroupId);
+  }
+
+  /**
+   * Remove an option group from every product that links it
+   */
+  async unlinkOptionGroup(optionGroupId: string): Promise<void> {
+    try {
+      const snapshot = await this.getCollection()
+        .where('optionGroupIds', 'array-contains', optionGroupId)
+        .get();
+
+      if (snapshot.empty) {
+        return;
+      }
+
+      const batch = db.batch();
+      snapshot.docs.forEach(doc => {
+        batch.update(doc.ref, {
+          optionGroupIds: FieldValue.arrayRemove(optionGroupId),
+          updatedAt: FieldValue.serverTimestamp()
+        });
+      });
+
+      await batch.commit();
+    } catch (error) {
+      throw new Error(`Failed to unlink option group: ${error}`);
+    }
   }
 
   /**
    * Find products by category
    */
-  async findByCategory(category: string): Promise<Product[]> {
+  async findByCategoryId(categoryId: string): Promise<Product[]> {
     return this.findWhere(
-      'category', 
+      'categoryId', 
       '==', 
-      category,
+      categoryId,
       { field: 'position', direction: 'asc' }
     );
   }
@@ -60,16 +163,11 @@ export class ProductRepository extends BaseRepository<Product> {
   }
 
   /**
-   * Get all categories
+   * Find products created before categories were migrated (they only have a category name)
    */
-  async getCategories(): Promise<string[]> {
-    try {
-      const products = await this.findAll();
-      const categories = [...new Set(products.map(p => p.category))];
-      return categories.sort();
-    } catch (error) {
-      throw new Error(`Failed to get categories: ${error}`);
-    }
+  async findWithoutCategoryId(): Promise<Product[]> {
+    const products = await this.findAll();
+    return products.filter(product => !product.categoryId);
   }
 
   /**
@@ -83,7 +181,7 @@ export class ProductRepository extends BaseRepository<Product> {
       return allProducts.filter(product =>
         product.name.toLowerCase().includes(searchLower) ||
         product.description.toLowerCase().includes(searchLower) ||
-        product.category.toLowerCase().includes(searchLower)
+        (product.category ?? '').toLowerCase().includes(searchLower)
       );
     } catch (error) {
       throw new Error(`Failed to search products: ${error}`);
@@ -103,8 +201,8 @@ export class ProductRepository extends BaseRepository<Product> {
       let query = this.getCollection();
 
       // Apply filters
-      if (queryParams.category) {
-        query = query.where('category', '==', queryParams.category);
+      if (queryParams.categoryId) {
+        query = query.where('categoryId', '==', queryParams.categoryId);
       }
 
       if (queryParams.available !== undefined) {
@@ -143,7 +241,7 @@ export class ProductRepository extends BaseRepository<Product> {
         }
 
         return {
-          products: filteredProducts,
+          products: await this.resolveReferences(filteredProducts),
           total,
           totalPages,
           currentPage: queryParams.page
@@ -165,7 +263,7 @@ export class ProductRepository extends BaseRepository<Product> {
         const totalPages = Math.ceil(total / queryParams.limit);
 
         return {
-          products,
+          products: await this.resolveReferences(products),
           total,
           totalPages,
           currentPage: queryParams.page
@@ -178,9 +276,10 @@ export class ProductRepository extends BaseRepository<Product> {
 
   /**
    * Update product availability
+   * Setting it by hand overrides an automatic sell-out, so a restock leaves the choice alone
    */
-  async updateAvailability(productId: string, available: boolean): Promise<void> {
-    return this.update(productId, { available });
+  async updateAvailability(productId: string, available: boolean, clearSoldOut: boolean = false): Promise<void> {
+    return this.update(productId, { available, ...(clearSoldOut && { soldOut: false }) });
   }
 
   /**
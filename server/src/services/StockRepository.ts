@@ -0,0 +1,154 @@
+import { BaseRepository } from './BaseRepository';
+import {
+  RequestContext,
+  StockAdjustment,
+  StockAdjustmentReason
+} from '../models/types';
+import { DocumentReference, FieldValue, Transaction } from 'firebase-admin/firestore';
+import { db } from '../config/firebase';
+import {
+  StockChange,
+  StockChangeResult,
+  StockDocumentData,
+  StockDocumentUpdates,
+  StockShortage,
+  StockShortageError,
+  applyStockChanges,
+  getStockDocumentPath,
+  toStockTarget
+} from '../utils/stock';
+
+export interface StockPlan {
+  writes: { ref: DocumentReference; updates: StockDocumentUpdates }[];
+  results: StockChangeResult[];
+  shortages: StockShortage[];
+}
+
+export interface StockChangeContext {
+  reason: StockAdjustmentReason;
+  orderId?: string;
+  actor?: RequestContext;
+  note?: string;
+}
+
+/**
+ * Stock Repository
+ * Counts live on the products and option groups; this collection is the log of every change
+ * Changes run inside Firestore transactions so concurrent orders never sell the same last unit
+ */
+export class StockRepository extends BaseRepository<StockAdjustment> {
+  constructor(restaurantId: string) {
+    super('stockAdjustments', restaurantId);
+  }
+
+  /**
+   * Read the documents holding the targets and compute their new counts
+   * Only reads, so it can run before the other writes of a transaction
+   */
+  async prepare(transaction: Transaction, changes: StockChange[]): Promise<StockPlan> {
+    const changesByPath = new Map<string, StockChange[]>();
+    changes.forEach(change => {
+      const path = getStockDocumentPath(change.target);
+      changesByPath.set(path, [...(changesByPath.get(path) ?? []), change]);
+    });
+
+    const paths = [...changesByPath.keys()];
+    if (paths.length === 0) {
+      return { writes: [], results: [], shortages: [] };
+    }
+
+    const refs = paths.map(path => db.doc(`restaurants/${this.restaurantId}/${path}`));
+    const docs = await transaction.getAll(...refs);
+    const plan: StockPlan = { writes: [], results: [], shortages: [] };
+
+    docs.forEach((doc, index) => {
+      // Deleted products and groups have nothing left to count
+      if (!doc.exists) {
+        return;
+      }
+
+      const { updates, results, shortages } = applyStockChanges(
+        doc.data() as StockDocumentData,
+        changesByPath.get(paths[index]) ?? []
+      );
+      if (Object.keys(updates).length > 0) {
+        plan.writes.push({ ref: refs[index], updates });
+      }
+      plan.results.push(...results);
+      plan.shortages.push(...shortages);
+    });
+
+    return plan;
+  }
+
+  /**
+   * Write the new counts and one log entry per changed target
+   */
+  commit(transaction: Transaction, plan: StockPlan, context: StockChangeContext): void {
+    plan.writes.forEach(({ ref, updates }) => {
+      const { stock, ...fields } = updates;
+      transaction.update(ref, {
+        ...fields,
+        ...(stock !== undefined && { stock: stock === null ? FieldValue.delete() : stock }),
+        updatedAt: FieldValue.serverTimestamp()
+      });
+    });
+
+    plan.results.forEach(result => {
+      transaction.set(this.collection.doc(), {
+        ...toStockTarget(result.target),
+        name: result.name,
+        delta: result.delta,
+        quantity: result.quantity,
+        reason: context.reason,
+        ...(context.orderId && { orderId: context.orderId }),
+        ...(context.actor?.userId && {
+          actor: {
+            userId: context.actor.userId,
+            ...(context.actor.userRole && { role: context.actor.userRole })
+          }
+        }),
+        ...(context.note && { note: context.note }),
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp()
+      });
+    });
+  }
+
+  /**
+   * Apply a manual adjustment (restock, count or waste) in its own transaction
+   */
+  async adjust(change: StockChange, context: StockChangeContext): Promise<StockChangeResult[]> {
+    return db.runTransaction(async (transaction) => {
+      const plan = await this.prepare(transaction, [change]);
+      if (plan.shortages.length > 0) {
+        throw new StockShortageError(plan.shortages);
+      }
+
+      this.commit(transaction, plan, context);
+      return plan.results;
+    });
+  }
+
+  /**
+   * Latest log entries, optionally for one product or option group
+   */
+  async findRecent(
+    filter: { productId?: string; optionGroupId?: string },
+    limit: number
+  ): Promise<StockAdjustment[]> {
+    try {
+      let query = this.getCollection().orderBy('createdAt', 'desc');
+      if (filter.productId) {
+        query = query.where('productId', '==', filter.productId);
+      }
+      if (filter.optionGroupId) {
+        query = query.where('optionGroupId', '==', filter.optionGroupId);
+      }
+
+      return this.executeQuery(query.limit(limit));
+    } catch (error) {
+      throw new Error(`Failed to find stock adjustments: ${error}`);
+    }
+  }
+}
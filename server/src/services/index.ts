@@ -1,17 +1,125 @@
 import { ProductRepository } from './ProductRepository';
 import { OrderRepository } from './OrderRepository';
+import { OptionGroupRepository } from './OptionGroupRepository';
+import { CategoryRepository } from './CategoryRepository';
+import { StockRepository } from './StockRepository';
 import { BaseRepository } from './BaseRepository';
 import { StorageService } from './StorageService';
-import { Table, Coupon, Settings, Restaurant } from '../models/types';
+import { DocumentSnapshot, FieldValue, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { db } from '../config/firebase';
+import {
+  Table,
+  Coupon,
+  Settings,
+  SettingsValues,
+  Restaurant,
+  Member,
+  Menu,
+  OrderChannel,
+  Ingredient,
+  CreateInput,
+  UpdateInput
+} from '../models/types';
+import { CreateCouponInput, UpdateCouponInput } from '../models/schemas';
+import { getChannelProductIds } from '../utils/menu';
+
+/**
+ * Raised when another table of the restaurant already has the number
+ */
+export class TableNumberTakenError extends Error {
+  constructor(public readonly number: string) {
+    super(`Table number ${number} already exists`);
+    this.name = 'TableNumberTakenError';
+  }
+}
 
 /**
  * Table Repository
+ * Each number is claimed by a document keyed by it (restaurants/{id}/tableNumbers/{number}), written in the
+ * same transaction as the table, so concurrent creates or renumbers cannot end up with the same number
  */
 export class TableRepository extends BaseRepository<Table> {
   constructor(restaurantId: string) {
     super('tables', restaurantId);
   }
 
+  async create(data: CreateInput<Table>): Promise<string> {
+    const tableRef = this.collection.doc();
+
+    try {
+      await db.runTransaction(async (transaction) => {
+        await this.claimNumber(transaction, data.number, tableRef.id);
+
+        transaction.set(tableRef, {
+          ...data,
+          createdAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp()
+        });
+      });
+
+      return tableRef.id;
+    } catch (error) {
+      if (error instanceof TableNumberTakenError) {
+        throw error;
+      }
+      throw new Error(`Failed to create table: ${error}`);
+    }
+  }
+
+  /**
+   * Update a table; a new number is claimed and the old one released in the same transaction
+   */
+  async update(id: string, data: UpdateInput<Table>): Promise<void> {
+    const { number } = data;
+    if (number === undefined) {
+      return super.update(id, data);
+    }
+
+    const tableRef = this.collection.doc(id);
+
+    try {
+      await db.runTransaction(async (transaction) => {
+        const tableDoc = await transaction.get(tableRef);
+        await this.claimNumber(transaction, number, id);
+
+        const previous = tableDoc.data()?.number as string | undefined;
+        if (previous !== undefined && previous !== number) {
+          transaction.delete(this.numberRef(previous));
+        }
+        transaction.update(tableRef, { ...data, updatedAt: FieldValue.serverTimestamp() });
+      });
+    } catch (error) {
+      if (error instanceof TableNumberTakenError) {
+        throw error;
+      }
+      throw new Error(`Failed to update table: ${error}`);
+    }
+  }
+
+  /**
+   * Delete a table and release its number
+   */
+  async delete(id: string): Promise<void> {
+    const tableRef = this.collection.doc(id);
+
+    try {
+      await db.runTransaction(async (transaction) => {
+        const tableDoc = await transaction.get(tableRef);
+        const number = tableDoc.data()?.number as string | undefined;
+
+        if (number !== undefined) {
+          const claimDoc = await transaction.get(this.numberRef(number));
+          if (claimDoc.data()?.tableId === id) {
+            transaction.delete(claimDoc.ref);
+          }
+        }
+        transaction.delete(tableRef);
+      });
+    } catch (error) {
+      throw new Error(`Failed to delete table: ${error}`);
+    }
+  }
+
   async findByNumber(number: string): Promise<Table | null> {
     const tables = await this.findWhere('number', '==', number);
     return tables[0] || null;
@@ -24,6 +132,34 @@ export class TableRepository extends BaseRepository<Table> {
   async updateSessionId(tableId: string, sessionId?: string): Promise<void> {
     return this.update(tableId, { currentSessionId: sessionId });
   }
+
+  async deactivate(tableId: string): Promise<void> {
+    return this.update(tableId, { active: false });
+  }
+
+  // Numbers may hold characters document ids do not allow, such as '/', so the id is encoded
+  private numberRef(number: string) {
+    return db.doc(`restaurants/${this.restaurantId}/tableNumbers/n-${encodeURIComponent(number)}`);
+  }
+
+  /**
+   * Claim a number for a table inside a transaction; tables created before number claims existed
+   * are found by query, so they keep their numbers too
+   */
+  private async claimNumber(transaction: Transaction, number: string, tableId: string): Promise<void> {
+    const numberRef = this.numberRef(number);
+    const [claimDoc, tables] = await Promise.all([
+      transaction.get(numberRef),
+      transaction.get(this.collection.where('number', '==', number))
+    ]);
+
+    const claimedBy = claimDoc.data()?.tableId as string | undefined;
+    if ((claimedBy && claimedBy !== tableId) || tables.docs.some(doc => doc.id !== tableId)) {
+      throw new TableNumberTakenError(number);
+    }
+
+    transaction.set(numberRef, { tableId, number });
+  }
 }
 
 /**
@@ -43,6 +179,36 @@ export class CouponRepository extends BaseRepository<Coupon> {
     return this.findWhere('active', '==', true, { field: 'validTo', direction: 'asc' });
   }
 
+  async createCoupon(data: CreateCouponInput): Promise<string> {
+    return this.create({
+      ...data,
+      validFrom: new Date(data.validFrom),
+      validTo: new Date(data.validTo)
+    });
+  }
+
+  async updateCoupon(couponId: string, data: UpdateCouponInput): Promise<void> {
+    const updates: Partial<Coupon> = { ...data } as Partial<Coupon>;
+
+    if (data.validFrom) {
+      updates.validFrom = new Date(data.validFrom);
+    }
+
+    if (data.validTo) {
+      updates.validTo = new Date(data.validTo);
+    }
+
+    return this.update(couponId, updates);
+  }
+
+  /**
+   * Check whether a coupon code is already used by another coupon
+   */
+  async isCodeTaken(code: string, excludeCouponId?: string): Promise<boolean> {
+    const coupons = await this.findWhere('code', '==', code.toUpperCase());
+    return coupons.some(coupon => coupon.id !== excludeCouponId);
+  }
+
   async validateCoupon(code: string, subtotal: number): Promise<{
     valid: boolean;
     coupon?: Coupon;
@@ -80,6 +246,21 @@ export class CouponRepository extends BaseRepository<Coupon> {
       return { valid: false, error: 'Error validating coupon' };
     }
   }
+
+  /**
+   * Convert validity dates stored as Firestore timestamps
+   */
+  protected transformDocument(doc: DocumentSnapshot): Coupon {
+    const coupon = super.transformDocument(doc);
+    const toDate = (value: unknown): Date =>
+      value instanceof Timestamp ? value.toDate() : new Date(value as string | Date);
+
+    return {
+      ...coupon,
+      validFrom: toDate(coupon.validFrom),
+      validTo: toDate(coupon.validTo)
+    };
+  }
 }
 
 /**
@@ -102,6 +283,94 @@ export class RestaurantRepository extends BaseRepository<Restaurant> {
   }
 }
 
+/**
+ * Menu Repository
+ */
+export class MenuRepository extends BaseRepository<Menu> {
+  constructor(restaurantId: string) {
+    super('menus', restaurantId);
+  }
+
+  async findActive(): Promise<Menu | null> {
+    const menus = await this.findWhere('active', '==', true);
+    return menus[0] || null;
+  }
+
+  /**
+   * Find the menus assigned to a channel, active or not
+   */
+  async findByChannel(channel: OrderChannel): Promise<Menu[]> {
+    return this.findWhere('visibility', 'array-contains', channel);
+  }
+
+  /**
+   * Products sold on a channel, or null when the channel has no active menu
+   */
+  async getChannelProductIds(channel: OrderChannel): Promise<Set<string> | null> {
+    return getChannelProductIds(await this.findByChannel(channel), channel);
+  }
+
+  /**
+   * Remove a deleted product from every menu that lists it
+   */
+  async removeProduct(productId: string): Promise<void> {
+    const menus = await this.findWhere('productIds', 'array-contains', productId);
+    if (menus.length === 0) {
+      return;
+    }
+
+    await this.batchUpdate(menus.map(menu => ({
+      id: menu.id,
+      data: { productIds: menu.productIds.filter(id => id !== productId) }
+    })));
+  }
+}
+
+/**
+ * Default settings used until a restaurant saves its own
+ */
+export const DEFAULT_SETTINGS: SettingsValues = {
+  delivery: {
+    enabled: false,
+    feeType: 'fixed',
+    feeValue: 500 // $5.00 in cents
+  },
+  dineIn: {
+    serviceFeePercent: 10
+  },
+  pickup: {
+    enabled: true
+  },
+  whatsapp: {
+    enabled: false
+  },
+  pix: {
+    enabled: false
+  },
+  timezone: 'America/Sao_Paulo',
+  orderNumbers: {
+    resetDaily: true
+  },
+  prepTimeMinutes: 20,
+  // Disabled until the restaurant sets its hours, so existing channels stay open
+  openingHours: {
+    enabled: false,
+    week: {
+      sun: [{ open: '11:00', close: '23:00' }],
+      mon: [{ open: '11:00', close: '23:00' }],
+      tue: [{ open: '11:00', close: '23:00' }],
+      wed: [{ open: '11:00', close: '23:00' }],
+      thu: [{ open: '11:00', close: '23:00' }],
+      fri: [{ open: '11:00', close: '23:00' }],
+      sat: [{ open: '11:00', close: '23:00' }]
+    },
+    exceptions: [],
+    scheduledOrders: {
+      enabled: false
+    }
+  }
+};
+
 /**
  * Settings Repository
  */
@@ -115,6 +384,14 @@ export class SettingsRepository extends BaseRepository<Settings> {
     return settings[0] || null;
   }
 
+  /**
+   * Get stored settings, falling back to the defaults
+   */
+  async getEffectiveSettings(): Promise<SettingsValues> {
+    const settings = await this.getSettings();
+    return settings ? { ...DEFAULT_SETTINGS, ...settings } : DEFAULT_SETTINGS;
+  }
+
   async updateSettings(updates: Partial<Settings>): Promise<void> {
     const existing = await this.getSettings();
     
@@ -124,20 +401,7 @@ export class SettingsRepository extends BaseRepository<Settings> {
       // Create default settings if none exist
       const defaultSettings = {
         restaurantId: this.restaurantId,
-        delivery: {
-          enabled: false,
-          feeType: 'fixed' as const,
-          feeValue: 500 // $5.00 in cents
-        },
-        dineIn: {
-          serviceFeePercent: 10
-        },
-        pickup: {
-          enabled: true
-        },
-        whatsapp: {
-          enabled: false
-        },
+        ...DEFAULT_SETTINGS,
         ...updates
       };
       
@@ -146,6 +410,55 @@ export class SettingsRepository extends BaseRepository<Settings> {
   }
 }
 
+/**
+ * Member Repository
+ * Documents are keyed by the member's Firebase Auth uid
+ */
+export class MemberRepository extends BaseRepository<Member> {
+  constructor(restaurantId: string) {
+    super('members', restaurantId);
+  }
+
+  async findByUserId(userId: string): Promise<Member | null> {
+    return this.findById(userId);
+  }
+
+  async findActive(): Promise<Member[]> {
+    return this.findWhere('active', '==', true);
+  }
+}
+
+/**
+ * Ingredient Repository
+ * Purchased ingredients and their unit costs, used by product recipes
+ */
+export class IngredientRepository extends BaseRepository<Ingredient> {
+  constructor(restaurantId: string) {
+    super('ingredients', restaurantId);
+  }
+
+  async findOrdered(): Promise<Ingredient[]> {
+    return this.findAll({ field: 'name', direction: 'asc' });
+  }
+
+  /**
+   * Check whether an ingredient name is already used by another ingredient
+   */
+  async isNameTaken(name: string, excludeIngredientId?: string): Promise<boolean> {
+    const ingredients = await this.findWhere('name', '==', name);
+    return ingredients.some(ingredient => ingredient.id !== excludeIngredientId);
+  }
+
+  /**
+   * Ids that do not match any ingredient
+   */
+  async findMissingIds(ids: string[]): Promise<string[]> {
+    const ingredients = await this.findByIds(ids);
+    const foundIds = new Set(ingredients.map(ingredient => ingredient.id));
+    return [...new Set(ids)].filter(id => !foundIds.has(id));
+  }
+}
+
 /**
  * Service Factory
  * Creates repository instances for a given restaurant
@@ -157,10 +470,22 @@ export class ServiceFactory {
     return new ProductRepository(this.restaurantId);
   }
 
+  createCategoryRepository(): CategoryRepository {
+    return new CategoryRepository(this.restaurantId);
+  }
+
+  createOptionGroupRepository(): OptionGroupRepository {
+    return new OptionGroupRepository(this.restaurantId);
+  }
+
   createOrderRepository(): OrderRepository {
     return new OrderRepository(this.restaurantId);
   }
 
+  createStockRepository(): StockRepository {
+    return new StockRepository(this.restaurantId);
+  }
+
   createTableRepository(): TableRepository {
     return new TableRepository(this.restaurantId);
   }
@@ -169,10 +494,22 @@ export class ServiceFactory {
     return new CouponRepository(this.restaurantId);
   }
 
+  createMenuRepository(): MenuRepository {
+    return new MenuRepository(this.restaurantId);
+  }
+
   createSettingsRepository(): SettingsRepository {
     return new SettingsRepository(this.restaurantId);
   }
 
+  createMemberRepository(): MemberRepository {
+    return new MemberRepository(this.restaurantId);
+  }
+
+  createIngredientRepository(): IngredientRepository {
+    return new IngredientRepository(this.restaurantId);
+  }
+
   createStorageService(): StorageService {
     return new StorageService(this.restaurantId);
   }
@@ -186,7 +523,10 @@ export class ServiceFactory {
 // Export repository classes
 export { 
   ProductRepository, 
+  CategoryRepository,
+  OptionGroupRepository,
   OrderRepository, 
+  StockRepository,
   StorageService,
   BaseRepository
 };
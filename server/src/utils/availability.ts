@@ -0,0 +1,60 @@
+import { AvailabilityWindow, Category, Product, Weekday } from '../models/types';
+import { LocalTime, WEEKDAYS } from './openingHours';
+
+/**
+ * Product availability schedules (dayparts)
+ * Evaluated on every read in the restaurant timezone, so breakfast items, weekend-only items
+ * and the rotating day special need no manual toggling
+ */
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const previousWeekday = (weekday: Weekday): Weekday =>
+  WEEKDAYS[(WEEKDAYS.indexOf(weekday) + WEEKDAYS.length - 1) % WEEKDAYS.length];
+
+/**
+ * Whether a local time falls inside a window
+ * A window past midnight belongs to the day it starts on, so "fri 18:00-02:00" also covers Saturday 01:00
+ */
+export const isInWindow = (window: AvailabilityWindow, time: LocalTime): boolean => {
+  const onDay = (weekday: Weekday) => !window.days || window.days.includes(weekday);
+
+  if (!window.from || !window.to) {
+    return onDay(time.weekday);
+  }
+
+  const from = toMinutes(window.from);
+  const to = toMinutes(window.to);
+
+  if (from < to) {
+    return onDay(time.weekday) && time.minutes >= from && time.minutes < to;
+  }
+
+  return (onDay(time.weekday) && time.minutes >= from)
+    || (onDay(previousWeekday(time.weekday)) && time.minutes < to);
+};
+
+/**
+ * Missing or empty schedules never restrict availability
+ */
+export const isWithinSchedule = (schedule: AvailabilityWindow[] | undefined, time: LocalTime): boolean =>
+  !schedule?.length || schedule.some(window => isInWindow(window, time));
+
+/**
+ * Fill availableNow from the manual flag and both schedules, and rotate isDaySpecial by weekday
+ * The stored fields are left untouched, so saving a product back never persists the evaluated values
+ */
+export const applySchedules = (products: Product[], categories: Category[], time: LocalTime): Product[] => {
+  const categorySchedules = new Map(categories.map(category => [category.id, category.schedule]));
+
+  return products.map(product => ({
+    ...product,
+    availableNow: product.available
+      && isWithinSchedule(product.schedule, time)
+      && isWithinSchedule(product.categoryId ? categorySchedules.get(product.categoryId) : undefined, time),
+    ...(product.specialDays?.length && { isDaySpecial: product.specialDays.includes(time.weekday) })
+  }));
+};
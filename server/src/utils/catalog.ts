@@ -0,0 +1,117 @@
+import { OrderItem, Product, SelectedOption } from '../models/types';
+import { OrderItemInput } from '../models/schemas';
+import { validateOptionRules } from './options';
+
+/**
+ * Catalog validation for submitted orders
+ * Rebuilds every order line from the stored products so client-sent names and prices are never trusted
+ */
+
+export interface OrderLineError {
+  field: string;
+  message: string;
+  code: string;
+}
+
+/**
+ * Resolve submitted items against the catalog
+ * Returns the repriced lines and one error per invalid product, option, choice or option rule
+ * When menuProductIds is given, products missing from the channel's menu are rejected too
+ */
+export const resolveOrderItems = (
+  items: OrderItemInput[],
+  products: Map<string, Product>,
+  menuProductIds: Set<string> | null = null
+): { items: OrderItem[]; errors: OrderLineError[] } => {
+  const resolved: OrderItem[] = [];
+  const errors: OrderLineError[] = [];
+
+  items.forEach((item, index) => {
+    const field = `items.${index}`;
+    const product = products.get(item.productId);
+
+    if (!product) {
+      errors.push({ field, message: `Product ${item.productId} not found`, code: 'PRODUCT_NOT_FOUND' });
+      return;
+    }
+
+    if (!product.available) {
+      errors.push({ field, message: `${product.name} is not available`, code: 'PRODUCT_UNAVAILABLE' });
+      return;
+    }
+
+    // availableNow is only set once schedules were evaluated
+    if (product.availableNow === false) {
+      errors.push({ field, message: `${product.name} is not available at this time`, code: 'PRODUCT_OUT_OF_SCHEDULE' });
+      return;
+    }
+
+    if (menuProductIds && !menuProductIds.has(product.id)) {
+      errors.push({ field, message: `${product.name} is not on this channel's menu`, code: 'PRODUCT_NOT_ON_MENU' });
+      return;
+    }
+
+    const options: SelectedOption[] = [];
+
+    item.options.forEach((selected, optionIndex) => {
+      const optionField = `${field}.options.${optionIndex}`;
+      const option = product.options?.find(opt => opt.id === selected.id);
+
+      if (!option) {
+        errors.push({
+          field: optionField,
+          message: `Option ${selected.id} does not exist on ${product.name}`,
+          code: 'OPTION_NOT_FOUND'
+        });
+        return;
+      }
+
+      const choice = option.choices.find(c => c.id === selected.choiceId);
+      if (!choice) {
+        errors.push({
+          field: optionField,
+          message: `Choice ${selected.choiceId} does not exist on ${option.name}`,
+          code: 'CHOICE_NOT_FOUND'
+        });
+        return;
+      }
+
+      // Choices have no available flag, a tracked choice is sold out at zero
+      if (choice.stock === 0) {
+        errors.push({
+          field: optionField,
+          message: `${choice.name} is sold out`,
+          code: 'CHOICE_SOLD_OUT'
+        });
+        return;
+      }
+
+      options.push({
+        id: option.id,
+        choiceId: choice.id,
+        name: option.name,
+        choice: choice.name,
+        price: choice.price,
+        ...(selected.qty && selected.qty > 1 && { qty: selected.qty })
+      });
+    });
+
+    // Check required options and selection limits once every choice resolved
+    if (options.length === item.options.length) {
+      validateOptionRules(product.options, item.options).forEach(violation => {
+        errors.push({ field: `${field}.options`, message: violation.message, code: violation.code });
+      });
+    }
+
+    resolved.push({
+      productId: product.id,
+      name: product.name,
+      qty: item.qty,
+      unitPrice: product.price,
+      options,
+      ...(item.notes && { notes: item.notes })
+    });
+  });
+
+  return { items: resolved, errors };
+};
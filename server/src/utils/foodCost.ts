@@ -0,0 +1,176 @@
+import {
+  Category,
+  Ingredient,
+  Product,
+  ProductChoice,
+  ProductCost,
+  ProfitLine,
+  ProfitReport,
+  RecipeLine
+} from '../models/types';
+import { ProductSales } from './sales';
+
+/**
+ * Food cost from recipes at the current ingredient costs
+ * Amounts are in cents; fractions are kept while summing and rounded on the way out
+ */
+
+export const UNCATEGORIZED_NAME = 'Sem categoria';
+
+/**
+ * Cost of one unit of a recipe; ingredients that no longer exist count as zero and are reported
+ */
+export const calculateRecipeCost = (
+  recipe: RecipeLine[] = [],
+  ingredients: Map<string, Ingredient>
+): { cost: number; missingIngredientIds: string[] } => {
+  const missingIngredientIds: string[] = [];
+
+  const cost = recipe.reduce((sum, line) => {
+    const ingredient = ingredients.get(line.ingredientId);
+    if (!ingredient) {
+      missingIngredientIds.push(line.ingredientId);
+      return sum;
+    }
+    return sum + ingredient.unitCost * line.quantity;
+  }, 0);
+
+  return { cost, missingIngredientIds };
+};
+
+/**
+ * Percentage of the revenue left after the food cost, one decimal; null without revenue
+ */
+export const calculateMarginPercent = (revenue: number, foodCost: number): number | null =>
+  revenue > 0 ? Math.round(((revenue - foodCost) / revenue) * 1000) / 10 : null;
+
+/**
+ * Every ingredient id referenced by the recipes of a product and of its own option choices
+ */
+export const getRecipeIngredientIds = (
+  recipe: RecipeLine[] = [],
+  choices: ProductChoice[] = []
+): string[] => [
+  ...new Set([
+    ...recipe.map(line => line.ingredientId),
+    ...choices.flatMap(choice => (choice.recipe ?? []).map(line => line.ingredientId))
+  ])
+];
+
+/**
+ * Food cost and margin of each product and of its choices that have a recipe
+ */
+export const getProductCosts = (
+  products: Product[],
+  ingredients: Map<string, Ingredient>
+): ProductCost[] =>
+  products.map(product => {
+    const { cost, missingIngredientIds } = calculateRecipeCost(product.recipe, ingredients);
+    const foodCost = Math.round(cost);
+
+    const choices = (product.options ?? []).flatMap(option =>
+      option.choices
+        .filter(choice => choice.recipe?.length)
+        .map(choice => {
+          const choiceCost = calculateRecipeCost(choice.recipe, ingredients);
+          missingIngredientIds.push(...choiceCost.missingIngredientIds);
+
+          return {
+            optionId: option.id,
+            choiceId: choice.id,
+            name: `${option.name} · ${choice.name}`,
+            price: choice.price,
+            foodCost: Math.round(choiceCost.cost),
+            margin: choice.price - Math.round(choiceCost.cost)
+          };
+        })
+    );
+
+    return {
+      productId: product.id,
+      name: product.name,
+      ...(product.categoryId && { categoryId: product.categoryId }),
+      price: product.price,
+      foodCost,
+      margin: product.price - foodCost,
+      marginPercent: calculateMarginPercent(product.price, foodCost),
+      hasRecipe: !!product.recipe?.length,
+      missingIngredientIds: [...new Set(missingIngredientIds)],
+      choices
+    };
+  });
+
+const toProfitLine = (quantity: number, revenue: number, cost: number): ProfitLine => {
+  const foodCost = Math.round(cost);
+  return {
+    quantity,
+    revenue,
+    foodCost,
+    grossProfit: revenue - foodCost,
+    marginPercent: calculateMarginPercent(revenue, foodCost)
+  };
+};
+
+/**
+ * Combine the units sold in a period with the recipe costs into gross profit per product and category
+ * Revenue is net of the coupon discounts; products sold without a recipe add revenue with no cost
+ * and are listed in productsWithoutRecipe
+ */
+export const buildProfitReport = (
+  sales: ProductSales[],
+  products: Map<string, Product>,
+  categories: Map<string, Category>,
+  ingredients: Map<string, Ingredient>
+): Omit<ProfitReport, 'dateFrom' | 'dateTo'> => {
+  const categoryTotals = new Map<string | null, { quantity: number; revenue: number; cost: number }>();
+  const totals = { quantity: 0, revenue: 0, cost: 0 };
+  const productsWithoutRecipe: string[] = [];
+
+  const productLines = sales.map(sale => {
+    const product = products.get(sale.productId);
+    const revenue = sale.revenue + sale.optionsRevenue - sale.discounts;
+
+    let cost = calculateRecipeCost(product?.recipe, ingredients).cost * sale.quantity;
+    sale.choices.forEach(({ optionId, choiceId, quantity }) => {
+      const choice = product?.options
+        ?.find(option => option.id === optionId)
+        ?.choices.find(c => c.id === choiceId);
+      cost += calculateRecipeCost(choice?.recipe, ingredients).cost * quantity;
+    });
+
+    if (!product?.recipe?.length) {
+      productsWithoutRecipe.push(sale.productId);
+    }
+
+    const categoryId = product?.categoryId && categories.has(product.categoryId) ? product.categoryId : null;
+    const category = categoryTotals.get(categoryId) ?? { quantity: 0, revenue: 0, cost: 0 };
+    category.quantity += sale.quantity;
+    category.revenue += revenue;
+    category.cost += cost;
+    categoryTotals.set(categoryId, category);
+
+    totals.quantity += sale.quantity;
+    totals.revenue += revenue;
+    totals.cost += cost;
+
+    return {
+      productId: sale.productId,
+      name: product?.name ?? sale.name,
+      ...(categoryId && { categoryId }),
+      ...toProfitLine(sale.quantity, revenue, cost)
+    };
+  });
+
+  return {
+    products: productLines.sort((a, b) => b.grossProfit - a.grossProfit),
+    categories: [...categoryTotals.entries()]
+      .map(([categoryId, line]) => ({
+        categoryId,
+        name: categoryId ? (categories.get(categoryId) as Category).name : UNCATEGORIZED_NAME,
+        ...toProfitLine(line.quantity, line.revenue, line.cost)
+      }))
+      .sort((a, b) => b.grossProfit - a.grossProfit),
+    totals: toProfitLine(totals.quantity, totals.revenue, totals.cost),
+    productsWithoutRecipe
+  };
+};
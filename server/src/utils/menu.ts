@@ -0,0 +1,40 @@
+import { Menu, MenuCategory, OrderChannel } from '../models/types';
+
+/**
+ * Menu ordering and channel helpers
+ */
+
+/**
+ * Order category names by their position on the menu
+ * Categories the menu does not list yet (e.g. created after the last reorder) go last, alphabetically
+ */
+export const sortCategoriesByMenu = (names: string[], menuCategories: MenuCategory[] = []): string[] => {
+  const positions = new Map(menuCategories.map(category => [category.name, category.position]));
+
+  return [...new Set(names)].sort((a, b) => {
+    const positionA = positions.get(a);
+    const positionB = positions.get(b);
+
+    if (positionA !== undefined && positionB !== undefined && positionA !== positionB) {
+      return positionA - positionB;
+    }
+    if (positionA !== undefined && positionB === undefined) return -1;
+    if (positionA === undefined && positionB !== undefined) return 1;
+
+    return a.localeCompare(b);
+  });
+};
+
+/**
+ * Products sold on a channel: the union of its active menus
+ * Returns null when no active menu is assigned to the channel, meaning the whole catalog is sold
+ */
+export const getChannelProductIds = (menus: Menu[], channel: OrderChannel): Set<string> | null => {
+  const channelMenus = menus.filter(menu => menu.active && menu.visibility.includes(channel));
+
+  if (channelMenus.length === 0) {
+    return null;
+  }
+
+  return new Set(channelMenus.flatMap(menu => menu.productIds ?? []));
+};
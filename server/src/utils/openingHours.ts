@@ -0,0 +1,149 @@
+import { OpeningHours, OpeningShift, OrderChannel, SettingsValues, Weekday } from '../models/types';
+
+/**
+ * Opening hours helpers
+ * Shifts are wall-clock times in the restaurant timezone; intervals are compared on that clock
+ * and only converted to real instants for the response
+ */
+
+export const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export interface LocalTime {
+  date: string; // YYYY-MM-DD
+  weekday: Weekday;
+  minutes: number; // since midnight
+}
+
+export interface OpenState {
+  open: boolean;
+  closesAt?: Date; // End of the current shift
+  nextOpenAt?: Date; // Next shift start while closed, if any within the lookahead
+}
+
+const MINUTE = 60000;
+const DAY = 24 * 60 * MINUTE;
+
+// Days searched for the next opening, enough to skip a closed week plus holidays
+const LOOKAHEAD_DAYS = 14;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Wall-clock time of an instant in a timezone, as milliseconds on a UTC-based scale
+ */
+const toWallClock = (date: Date, timezone: string): number => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  return Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute)
+  );
+};
+
+/**
+ * Instant of a wall-clock time; the second pass settles offsets that change around DST transitions
+ */
+const toInstant = (wallClock: number, timezone: string): Date => {
+  const offsetAt = (instant: number) => toWallClock(new Date(instant), timezone) - Math.floor(instant / MINUTE) * MINUTE;
+
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+};
+
+/**
+ * Date, weekday and minute of the day of an instant in the restaurant timezone
+ */
+export const getLocalTime = (date: Date, timezone: string): LocalTime => {
+  const wallClock = toWallClock(date, timezone);
+  const day = new Date(wallClock);
+
+  return {
+    date: day.toISOString().slice(0, 10),
+    weekday: WEEKDAYS[day.getUTCDay()],
+    minutes: (wallClock % DAY) / MINUTE
+  };
+};
+
+/**
+ * Shifts of one day for a channel: a date exception wins over the channel's weekly hours,
+ * which win over the default weekly hours
+ */
+export const getShiftsForDay = (
+  hours: OpeningHours,
+  channel: OrderChannel,
+  date: string,
+  weekday: Weekday
+): OpeningShift[] => {
+  const exception = hours.exceptions.find(item => item.date === date);
+  if (exception) {
+    return exception.shifts;
+  }
+
+  return (hours.channels?.[channel] ?? hours.week)[weekday] ?? [];
+};
+
+/**
+ * Whether a channel is open at a given time, with the current shift end or the next opening
+ * Channels are always open while opening hours are disabled
+ */
+export const getOpenState = (
+  settings: SettingsValues,
+  channel: OrderChannel,
+  now: Date = new Date()
+): OpenState => {
+  const hours = settings.openingHours;
+  if (!hours?.enabled) {
+    return { open: true };
+  }
+
+  const timezone = settings.timezone;
+  const current = toWallClock(now, timezone);
+  const today = current - (current % DAY);
+
+  // Start from yesterday so a shift running past midnight is still found
+  const intervals: { start: number; end: number }[] = [];
+  for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset++) {
+    const dayStart = today + offset * DAY;
+    const day = new Date(dayStart);
+    const shifts = getShiftsForDay(hours, channel, day.toISOString().slice(0, 10), WEEKDAYS[day.getUTCDay()]);
+
+    shifts.forEach(shift => {
+      const open = toMinutes(shift.open);
+      const close = toMinutes(shift.close);
+      intervals.push({
+        start: dayStart + open * MINUTE,
+        end: dayStart + (close <= open ? close + 24 * 60 : close) * MINUTE
+      });
+    });
+  }
+
+  const currentShift = intervals.find(interval => interval.start <= current && current < interval.end);
+  if (currentShift) {
+    return { open: true, closesAt: toInstant(currentShift.end, timezone) };
+  }
+
+  const nextShift = intervals
+    .filter(interval => interval.start > current)
+    .sort((a, b) => a.start - b.start)[0];
+
+  return {
+    open: false,
+    ...(nextShift && { nextOpenAt: toInstant(nextShift.start, timezone) })
+  };
+};
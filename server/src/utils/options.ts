@@ -0,0 +1,85 @@
+import { ProductOption } from '../models/types';
+
+/**
+ * Product option rules
+ * The same rules are applied by the product dialog in the web app (src/lib/option-rules.ts)
+ */
+
+export interface OptionRuleViolation {
+  optionId: string;
+  message: string;
+  code: string;
+}
+
+/**
+ * Minimum and maximum number of selections for an option
+ * A selected choice counts once per unit of quantity ("2x bacon" counts as 2)
+ */
+export const getSelectionLimits = (option: ProductOption): { min: number; max: number } => {
+  const min = Math.max(option.minSelections ?? 0, option.required ? 1 : 0);
+  const max = option.maxSelections ?? option.choices.length * (option.maxQuantityPerChoice ?? 1);
+
+  return { min, max };
+};
+
+/**
+ * Validate the selections made for a product against its option rules
+ */
+export const validateOptionRules = (
+  options: ProductOption[] = [],
+  selections: { id: string; choiceId: string; qty?: number }[]
+): OptionRuleViolation[] => {
+  const violations: OptionRuleViolation[] = [];
+
+  options.forEach(option => {
+    const selected = selections.filter(selection => selection.id === option.id);
+    const count = selected.reduce((sum, selection) => sum + (selection.qty ?? 1), 0);
+    const { min, max } = getSelectionLimits(option);
+    const maxPerChoice = option.maxQuantityPerChoice ?? 1;
+
+    if (count < min) {
+      violations.push(count === 0 && option.required
+        ? { optionId: option.id, message: `${option.name} is required`, code: 'OPTION_REQUIRED' }
+        : { optionId: option.id, message: `${option.name} requires at least ${min} selections`, code: 'TOO_FEW_SELECTIONS' });
+    }
+
+    if (count > max) {
+      violations.push({
+        optionId: option.id,
+        message: `${option.name} allows at most ${max} selections`,
+        code: 'TOO_MANY_SELECTIONS'
+      });
+    }
+
+    const seen = new Set<string>();
+    selected.forEach(selection => {
+      if (seen.has(selection.choiceId)) {
+        violations.push({
+          optionId: option.id,
+          message: `Choice ${selection.choiceId} was selected more than once on ${option.name}`,
+          code: 'DUPLICATE_CHOICE'
+        });
+      }
+      seen.add(selection.choiceId);
+
+      if ((selection.qty ?? 1) > maxPerChoice) {
+        violations.push({
+          optionId: option.id,
+          message: `${option.name} allows at most ${maxPerChoice} of each choice`,
+          code: 'CHOICE_QUANTITY_EXCEEDED'
+        });
+      }
+    });
+  });
+
+  return violations;
+};
+
+/**
+ * Drop resolved copies of linked option groups before saving a product
+ * Products read from the API include their linked groups in `options`; only embedded options are stored
+ */
+export const withoutLinkedOptions = (
+  options: ProductOption[],
+  optionGroupIds: string[] = []
+): ProductOption[] => options.filter(option => !optionGroupIds.includes(option.id));
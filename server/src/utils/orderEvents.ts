@@ -0,0 +1,55 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { Order, OrderEventType, OrderStatus, OrderChannel } from '../models/types';
+
+export interface OrderEventFilter {
+  status?: OrderStatus[];
+  channel?: OrderChannel;
+}
+
+/**
+ * Event id built from the order update time, so clients can resume with Last-Event-ID
+ * Format: <seconds>.<nanoseconds>:<orderId>
+ */
+export const buildOrderEventId = (updatedAt: Timestamp, orderId: string): string => {
+  const nanoseconds = String(updatedAt.nanoseconds).padStart(9, '0');
+  return `${updatedAt.seconds}.${nanoseconds}:${orderId}`;
+};
+
+/**
+ * Update time encoded in an event id, or null when the id is malformed
+ */
+export const parseOrderEventId = (eventId: string): Timestamp | null => {
+  const match = /^(\d+)\.(\d{9}):.+$/.exec(eventId);
+  if (!match) {
+    return null;
+  }
+
+  return new Timestamp(Number(match[1]), Number(match[2]));
+};
+
+export const getOrderEventType = (order: Order, created: boolean): OrderEventType => {
+  if (order.status === 'canceled') {
+    return 'order.canceled';
+  }
+  return created ? 'order.created' : 'order.updated';
+};
+
+/**
+ * Whether an order change concerns a filtered subscriber
+ * Status filters also match orders leaving a watched status, so screens can drop them
+ */
+export const matchesOrderEventFilter = (order: Order, filter: OrderEventFilter): boolean => {
+  if (filter.channel && order.channel !== filter.channel) {
+    return false;
+  }
+
+  if (filter.status && filter.status.length > 0) {
+    const lastChange = order.statusHistory?.[order.statusHistory.length - 1];
+    const previousStatus = lastChange?.to === order.status ? lastChange.from : null;
+
+    return filter.status.includes(order.status) ||
+      (previousStatus !== null && filter.status.includes(previousStatus));
+  }
+
+  return true;
+};
@@ -0,0 +1,48 @@
+import { OrderChannel, OrderCounter, SettingsValues } from '../models/types';
+
+type OrderNumberSettings = SettingsValues['orderNumbers'];
+
+/**
+ * Business day of a date in the restaurant timezone (YYYY-MM-DD)
+ */
+export const getBusinessDate = (date: Date, timezone: string): string => {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+};
+
+/**
+ * Next counter state, restarting at 1 on a new business day when daily reset is enabled
+ */
+export const getNextOrderCounter = (
+  current: OrderCounter | undefined,
+  settings: OrderNumberSettings,
+  timezone: string,
+  now: Date = new Date()
+): OrderCounter => {
+  const date = getBusinessDate(now, timezone);
+  const restart = !current || (settings.resetDaily && current.date !== date);
+
+  return {
+    value: restart ? 1 : current.value + 1,
+    date
+  };
+};
+
+/**
+ * Display code for an order number, e.g. D-012 for delivery
+ */
+export const formatOrderCode = (
+  orderNumber: number,
+  channel: OrderChannel,
+  settings: OrderNumberSettings
+): string => {
+  const number = String(orderNumber).padStart(3, '0');
+  const prefix = settings.prefixes?.[channel];
+
+  return prefix ? `${prefix}-${number}` : number;
+};
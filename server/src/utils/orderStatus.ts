@@ -0,0 +1,111 @@
+import { Order, OrderChannel, OrderStatus, UserRole } from '../models/types';
+import { getPaymentSummary } from './payments';
+
+/**
+ * Order status state machine
+ * Dine-in and takeaway orders end with `served`; delivery orders go out for delivery instead
+ */
+
+type TransitionGraph = Partial<Record<OrderStatus, OrderStatus[]>>;
+
+const BASE_TRANSITIONS: TransitionGraph = {
+  draft: ['placed', 'canceled'],
+  placed: ['confirmed', 'canceled'],
+  confirmed: ['in_preparation', 'canceled'],
+  in_preparation: ['ready']
+};
+
+export const ORDER_TRANSITIONS: Record<OrderChannel, TransitionGraph> = {
+  dine_in: {
+    ...BASE_TRANSITIONS,
+    ready: ['served'],
+    served: ['closed']
+  },
+  takeaway: {
+    ...BASE_TRANSITIONS,
+    ready: ['served'],
+    served: ['closed']
+  },
+  delivery: {
+    ...BASE_TRANSITIONS,
+    ready: ['out_for_delivery'],
+    out_for_delivery: ['delivered'],
+    delivered: ['closed']
+  }
+};
+
+export const TERMINAL_STATUSES: OrderStatus[] = ['closed', 'canceled'];
+
+/**
+ * Statuses an order can move to from its current status
+ */
+export const getAllowedTransitions = (channel: OrderChannel, from: OrderStatus): OrderStatus[] => {
+  return ORDER_TRANSITIONS[channel][from] || [];
+};
+
+export const canTransition = (channel: OrderChannel, from: OrderStatus, to: OrderStatus): boolean => {
+  return getAllowedTransitions(channel, from).includes(to);
+};
+
+/**
+ * Cancellation after preparation started is only possible with a manager override
+ */
+export const canOverrideCancel = (from: OrderStatus): boolean => {
+  return !TERMINAL_STATUSES.includes(from);
+};
+
+export type StatusChangeErrorCode = 'ORDER_NOT_FOUND' | 'INVALID_TRANSITION' | 'OVERRIDE_NOT_ALLOWED' | 'BALANCE_DUE';
+
+/**
+ * Raised inside the status transaction so nothing is written when the stored order does not allow the change
+ */
+export class StatusChangeError extends Error {
+  constructor(message: string, public readonly code: StatusChangeErrorCode) {
+    super(message);
+    this.name = 'StatusChangeError';
+  }
+}
+
+/**
+ * Check a status change against the order as stored
+ * Cancel overrides are for managers only, and orders close once fully paid
+ */
+export const assertStatusChange = (
+  order: Order,
+  to: OrderStatus,
+  options: { override?: boolean; role?: UserRole } = {}
+): void => {
+  if (!canTransition(order.channel, order.status, to)) {
+    const isCancelOverride = to === 'canceled' && options.override && canOverrideCancel(order.status);
+
+    if (!isCancelOverride) {
+      throw new StatusChangeError(`Cannot change order status from ${order.status} to ${to}`, 'INVALID_TRANSITION');
+    }
+
+    if (options.role === 'staff') {
+      throw new StatusChangeError('Only managers can cancel orders already in preparation', 'OVERRIDE_NOT_ALLOWED');
+    }
+  }
+
+  if (to === 'closed' && getPaymentSummary(order).balance > 0) {
+    throw new StatusChangeError('Cannot close an order that is not fully paid', 'BALANCE_DUE');
+  }
+};
+
+const STATUSES_BEFORE_READY: OrderStatus[] = ['draft', 'placed', 'confirmed', 'in_preparation'];
+
+/**
+ * Estimated ready time, counted from the start of preparation (or placement while queued)
+ * Returns null once the order is ready, delivered or finished
+ */
+export const getEstimatedReadyAt = (order: Order, prepTimeMinutes: number): Date | null => {
+  if (!STATUSES_BEFORE_READY.includes(order.status)) {
+    return null;
+  }
+
+  // Scheduled orders wait in the queue until the opening they were placed for
+  const preparationStart = order.statusHistory?.find(change => change.to === 'in_preparation');
+  const start = preparationStart ? preparationStart.at : order.scheduledFor ?? order.createdAt;
+
+  return new Date(start.getTime() + prepTimeMinutes * 60000);
+};
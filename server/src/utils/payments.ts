@@ -0,0 +1,215 @@
+import { BillShare, BillSplit, Order, Payment, PaymentMethod, PaymentSummary, ServiceFeeChange } from '../models/types';
+import { calculateSubtotal, calculateTotal } from './pricing';
+
+/**
+ * Payments and split bills
+ * All amounts are in cents; an order is paid once its payments add up to amounts.total
+ */
+
+export class PaymentError extends Error {
+  constructor(message: string, public readonly code: string, public readonly field: string = 'amount') {
+    super(message);
+    this.name = 'PaymentError';
+  }
+}
+
+export interface PaymentInput {
+  method: PaymentMethod;
+  amount?: number; // defaults to what is left of the share or the bill
+  received?: number; // cash only; the change is what exceeds the amount
+  shareId?: string;
+  txid?: string; // Pix charge being confirmed
+}
+
+export type BillSplitInput =
+  | { mode: 'equal'; payers: number; labels?: string[] }
+  | { mode: 'items'; payers: { label?: string; items: { index: number; qty: number }[] }[] };
+
+export interface ServiceFeeInput {
+  amount?: number; // in cents, 0 waives the fee
+  percent?: number; // of the subtotal
+  reason: string;
+}
+
+type PayableOrder = Pick<Order, 'items' | 'amounts' | 'payments' | 'billSplit'>;
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+const defaultLabel = (index: number) => `Pessoa ${index + 1}`;
+
+/**
+ * Paid and outstanding amounts of the order and of each bill share
+ */
+export const getPaymentSummary = (order: PayableOrder): PaymentSummary => {
+  const payments = order.payments ?? [];
+  const total = order.amounts.total;
+  const paid = sum(payments.map(payment => payment.amount));
+  const balance = Math.max(0, total - paid);
+
+  return {
+    total,
+    paid,
+    balance,
+    changeDue: sum(payments.map(payment => payment.changeDue ?? 0)),
+    status: paid === 0 && total > 0 ? 'unpaid' : balance > 0 ? 'partial' : 'paid',
+    shares: (order.billSplit?.shares ?? []).map(share => {
+      const sharePaid = sum(payments.filter(payment => payment.shareId === share.id).map(payment => payment.amount));
+      return { ...share, paid: sharePaid, balance: Math.max(0, share.amount - sharePaid) };
+    })
+  };
+};
+
+/**
+ * Build the payment to record, checking it against what is left of the bill (and of the share)
+ * Cash with a received amount and no amount pays as much as it covers and gives the rest as change
+ */
+export const buildPayment = (
+  order: PayableOrder,
+  input: PaymentInput,
+  details: Pick<Payment, 'id' | 'actor' | 'createdAt'>
+): Payment => {
+  const summary = getPaymentSummary(order);
+  let limit = summary.balance;
+
+  if (input.shareId) {
+    const share = summary.shares.find(item => item.id === input.shareId);
+    if (!share) {
+      throw new PaymentError(`Bill share ${input.shareId} not found`, 'SHARE_NOT_FOUND', 'shareId');
+    }
+    limit = Math.min(limit, share.balance);
+  }
+
+  if (limit === 0) {
+    throw new PaymentError('Nothing left to pay', 'ALREADY_PAID');
+  }
+
+  const amount = input.amount ?? (input.received !== undefined ? Math.min(input.received, limit) : limit);
+  if (amount > limit) {
+    throw new PaymentError(`Payment exceeds the ${limit} left to pay`, 'PAYMENT_EXCEEDS_BALANCE');
+  }
+
+  if (input.received !== undefined && input.received < amount) {
+    throw new PaymentError('Cash received is less than the amount paid', 'INSUFFICIENT_CASH', 'received');
+  }
+
+  return {
+    id: details.id,
+    method: input.method,
+    amount,
+    ...(input.received !== undefined && { received: input.received, changeDue: input.received - amount }),
+    ...(input.shareId && { shareId: input.shareId }),
+    ...(input.txid && { txid: input.txid }),
+    ...(details.actor && { actor: details.actor }),
+    createdAt: details.createdAt
+  };
+};
+
+/**
+ * Divide the bill between payers
+ * Equal splits divide what is left to pay, first payers taking the leftover cents
+ * Item splits charge each payer their lines' share of the total (discounts and fees spread
+ * in proportion), so they need a bill without payments; unassigned lines stay outside the shares
+ */
+export const buildBillSplit = (
+  order: PayableOrder,
+  input: BillSplitInput,
+  createId: () => string,
+  createdAt: Date = new Date()
+): BillSplit => {
+  const summary = getPaymentSummary(order);
+  if (summary.shares.some(share => share.paid > 0)) {
+    throw new PaymentError('The current split already has payments', 'SPLIT_HAS_PAYMENTS', 'mode');
+  }
+
+  if (input.mode === 'equal') {
+    const base = Math.floor(summary.balance / input.payers);
+    const remainder = summary.balance - base * input.payers;
+
+    return {
+      mode: 'equal',
+      shares: Array.from({ length: input.payers }, (_, index) => ({
+        id: createId(),
+        label: input.labels?.[index] || defaultLabel(index),
+        amount: base + (index < remainder ? 1 : 0)
+      })),
+      createdAt
+    };
+  }
+
+  if (summary.paid > 0) {
+    throw new PaymentError('Bills with payments can only be split equally', 'SPLIT_HAS_PAYMENTS', 'mode');
+  }
+
+  // Every unit of a line goes to at most one payer
+  const assigned = order.items.map(() => 0);
+  input.payers.forEach((payer, payerIndex) => {
+    payer.items.forEach(({ index, qty }, itemIndex) => {
+      const field = `payers.${payerIndex}.items.${itemIndex}`;
+      const item = order.items[index];
+      if (!item) {
+        throw new PaymentError(`Order line ${index} not found`, 'ITEM_NOT_FOUND', field);
+      }
+      assigned[index] += qty;
+      if (assigned[index] > item.qty) {
+        throw new PaymentError(`${item.name} has only ${item.qty} units to split`, 'ITEM_OVERASSIGNED', field);
+      }
+    });
+  });
+
+  const subtotal = calculateSubtotal(order.items);
+  const payerSubtotals = input.payers.map(payer =>
+    calculateSubtotal(payer.items.map(({ index, qty }) => ({ ...order.items[index], qty })))
+  );
+  const amounts = payerSubtotals.map(value => subtotal > 0 ? Math.round(value / subtotal * summary.total) : 0);
+
+  // With every line assigned the shares must add up to the total, so the last one absorbs rounding
+  const fullyAssigned = order.items.every((item, index) => assigned[index] === item.qty);
+  if (fullyAssigned && amounts.length > 0) {
+    amounts[amounts.length - 1] = summary.total - sum(amounts.slice(0, -1));
+  }
+
+  const shares: BillShare[] = input.payers.map((payer, index) => ({
+    id: createId(),
+    label: payer.label || defaultLabel(index),
+    amount: amounts[index],
+    items: payer.items
+  }));
+
+  return { mode: 'items', shares, createdAt };
+};
+
+/**
+ * Waive or adjust the service fee and recompute the total
+ * Refused once a bill share has payments or the new total would fall below what was paid;
+ * the caller drops an unpaid split, whose shares add up to the old total
+ */
+export const applyServiceFee = (
+  order: PayableOrder,
+  input: ServiceFeeInput,
+  details: Pick<ServiceFeeChange, 'actor' | 'at'>
+): { amounts: Order['amounts']; change: ServiceFeeChange } => {
+  const summary = getPaymentSummary(order);
+  if (summary.shares.some(share => share.paid > 0)) {
+    throw new PaymentError('The bill split already has payments', 'SPLIT_HAS_PAYMENTS');
+  }
+
+  const service = input.amount ?? Math.round(order.amounts.subtotal * ((input.percent ?? 0) / 100));
+  const { service: from = 0, ...otherFees } = order.amounts.fees;
+  const fees = { ...otherFees, ...(service > 0 && { service }) };
+  const total = calculateTotal({ ...order.amounts, fees });
+
+  if (total < summary.paid) {
+    throw new PaymentError(`Payments already add up to ${summary.paid}, more than the new total`, 'TOTAL_BELOW_PAID');
+  }
+
+  return {
+    amounts: { ...order.amounts, fees, total },
+    change: {
+      from,
+      to: service,
+      reason: input.reason,
+      ...(details.actor && { actor: details.actor }),
+      at: details.at
+    }
+  };
+};
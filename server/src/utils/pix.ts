@@ -0,0 +1,91 @@
+/**
+ * Pix BR Code ("copia e cola") payloads, EMV merchant-presented QR codes as specified by the Banco Central
+ * Each field is ID (2 digits) + length (2 digits) + value, and the payload ends with a CRC16 of itself
+ * Static codes carry the key, optionally with an amount and txid; dynamic codes carry the URL where a PSP serves
+ * the charge (its "location"), and the payer's bank reads the amount and txid from there
+ */
+
+export interface PixChargeInput {
+  key: string;
+  merchantName: string;
+  merchantCity: string;
+  amount?: number; // cents; static codes leave it to the payer
+  txid?: string; // identifies the charge on the receiver's statement
+  location?: string; // PSP URL of a dynamic charge, without https://
+}
+
+const MERCHANT_NAME_LENGTH = 25;
+const MERCHANT_CITY_LENGTH = 15;
+export const TXID_LENGTH = 25;
+export const LOCATION_LENGTH = 77;
+
+// Static codes without a txid, and every dynamic code, use the reserved value ***
+const NO_TXID = '***';
+
+const field = (id: string, value: string): string => {
+  if (value.length > 99) {
+    throw new Error(`Pix field ${id} is longer than 99 characters`);
+  }
+  return `${id}${value.length.toString().padStart(2, '0')}${value}`;
+};
+
+// Names and cities are restricted to plain ASCII, so accents are dropped
+const toAscii = (value: string, maxLength: number): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '')
+    .trim()
+    .slice(0, maxLength);
+
+/**
+ * Transaction id for a charge: letters and digits only, up to 25 characters
+ */
+export const toPixTxid = (value: string): string =>
+  value.replace(/[^A-Za-z0-9]/g, '').slice(0, TXID_LENGTH) || NO_TXID;
+
+/**
+ * Location of a dynamic charge as the BR Code carries it: no scheme, since it is always https
+ */
+export const toPixLocation = (url: string): string => url.trim().replace(/^https:\/\//i, '');
+
+/**
+ * CRC16/CCITT-FALSE (polynomial 0x1021, initial value 0xFFFF) as 4 uppercase hex digits
+ */
+export const crc16 = (payload: string): string => {
+  let crc = 0xffff;
+  for (const byte of new TextEncoder().encode(payload)) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+/**
+ * Build the payload of a Pix charge
+ * With an amount or a location the code is marked single use (point of initiation 12), otherwise it is reusable
+ * A location makes the code dynamic: the PSP serves the amount and txid, so the payload leaves both out
+ */
+export const buildPixPayload = (input: PixChargeInput): string => {
+  const location = input.location ? toPixLocation(input.location) : undefined;
+  const amount = location ? undefined : input.amount;
+
+  const payload = [
+    field('00', '01'),
+    field('01', location || amount !== undefined ? '12' : '11'),
+    field('26', field('00', 'br.gov.bcb.pix') + (location ? field('25', location) : field('01', input.key.trim()))),
+    field('52', '0000'),
+    field('53', '986'),
+    amount !== undefined ? field('54', (amount / 100).toFixed(2)) : '',
+    field('58', 'BR'),
+    field('59', toAscii(input.merchantName, MERCHANT_NAME_LENGTH)),
+    field('60', toAscii(input.merchantCity, MERCHANT_CITY_LENGTH)),
+    field('62', field('05', !location && input.txid ? toPixTxid(input.txid) : NO_TXID)),
+    '6304'
+  ].join('');
+
+  return payload + crc16(payload);
+};
@@ -0,0 +1,87 @@
+import { Coupon, OrderItem, OrderChannel, Order, SettingsValues, Tip } from '../models/types';
+
+/**
+ * Pricing helpers shared by order creation and coupon validation
+ * All amounts are in cents
+ */
+
+/**
+ * Calculate the subtotal of a list of order items, options included
+ */
+export const calculateSubtotal = (items: Pick<OrderItem, 'qty' | 'unitPrice' | 'options'>[]): number => {
+  return items.reduce((sum, item) => {
+    const optionsPrice = item.options.reduce((optSum, opt) => optSum + opt.price * (opt.qty ?? 1), 0);
+    return sum + (item.unitPrice + optionsPrice) * item.qty;
+  }, 0);
+};
+
+/**
+ * Calculate the discount a coupon grants on a subtotal
+ * The discount never exceeds the subtotal
+ */
+export const calculateCouponDiscount = (
+  coupon: Pick<Coupon, 'type' | 'value'>,
+  subtotal: number
+): number => {
+  const discount = coupon.type === 'percent'
+    ? Math.round(subtotal * (coupon.value / 100))
+    : coupon.value;
+
+  return Math.min(discount, subtotal);
+};
+
+/**
+ * Check whether the restaurant accepts orders on a channel
+ */
+export const isChannelEnabled = (
+  settings: Pick<SettingsValues, 'delivery' | 'pickup'>,
+  channel: OrderChannel
+): boolean => {
+  switch (channel) {
+    case 'delivery':
+      return settings.delivery.enabled;
+    case 'takeaway':
+      return settings.pickup.enabled;
+    default:
+      return true;
+  }
+};
+
+/**
+ * Calculate channel fees from the restaurant settings
+ * `by_distance` delivery has no distance input yet, so `feeValue` is used as the base fee
+ */
+export const calculateFees = (
+  settings: Pick<SettingsValues, 'delivery' | 'dineIn'>,
+  channel: OrderChannel,
+  subtotal: number
+): Order['amounts']['fees'] => {
+  const fees: Order['amounts']['fees'] = {};
+
+  if (channel === 'dine_in' && settings.dineIn.serviceFeePercent) {
+    fees.service = Math.round(subtotal * (settings.dineIn.serviceFeePercent / 100));
+  }
+
+  if (channel === 'delivery' && settings.delivery.feeValue > 0) {
+    fees.delivery = settings.delivery.feeValue;
+  }
+
+  return fees;
+};
+
+/**
+ * Calculate the tip added at checkout, percentages are taken on the subtotal
+ */
+export const calculateTip = (tip: Tip, subtotal: number): number => {
+  return tip.type === 'percent'
+    ? Math.round(subtotal * (tip.value / 100))
+    : tip.value;
+};
+
+/**
+ * Calculate the order total from its amounts
+ */
+export const calculateTotal = (amounts: Omit<Order['amounts'], 'total'>): number => {
+  return amounts.subtotal - amounts.discounts
+    + (amounts.fees.service || 0) + (amounts.fees.delivery || 0) + (amounts.tip || 0);
+};
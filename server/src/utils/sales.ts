@@ -0,0 +1,114 @@
+import { Order } from '../models/types';
+
+/**
+ * Units and revenue of a product over a set of orders
+ * `revenue` is the base price times quantity, as in the order analytics; options are kept apart,
+ * and `discounts` is the product's share of the coupon discounts of its orders
+ */
+export interface ProductSales {
+  productId: string;
+  name: string;
+  quantity: number;
+  revenue: number;
+  optionsRevenue: number;
+  discounts: number;
+  choices: { optionId: string; choiceId: string; quantity: number }[];
+}
+
+/**
+ * Split the coupon discount of an order across its lines in proportion to their totals, in whole cents
+ * The last line takes what rounding left over, so the shares add up to the discount
+ */
+const allocateDiscounts = (order: Order): number[] => {
+  const lineTotals = order.items.map(item =>
+    (item.unitPrice + item.options.reduce((sum, option) => sum + option.price * (option.qty ?? 1), 0)) * item.qty
+  );
+  const subtotal = lineTotals.reduce((sum, total) => sum + total, 0);
+  const discount = Math.min(order.amounts.discounts ?? 0, subtotal);
+
+  if (discount <= 0) {
+    return lineTotals.map(() => 0);
+  }
+
+  let allocated = 0;
+  return lineTotals.map((total, index) => {
+    const share = index === lineTotals.length - 1 ? discount - allocated : Math.floor((discount * total) / subtotal);
+    allocated += share;
+    return share;
+  });
+};
+
+/**
+ * Sum the order lines per product, with the units sold of each chosen option
+ */
+export const summarizeProductSales = (orders: Order[]): ProductSales[] => {
+  const sales = new Map<string, ProductSales>();
+
+  orders.forEach(order => {
+    const discounts = allocateDiscounts(order);
+
+    order.items.forEach((item, index) => {
+      const stats = sales.get(item.productId) ?? {
+        productId: item.productId,
+        name: item.name,
+        quantity: 0,
+        revenue: 0,
+        optionsRevenue: 0,
+        discounts: 0,
+        choices: []
+      };
+
+      stats.quantity += item.qty;
+      stats.revenue += item.unitPrice * item.qty;
+      stats.discounts += discounts[index];
+
+      item.options.forEach(option => {
+        const qty = item.qty * (option.qty ?? 1);
+        stats.optionsRevenue += option.price * qty;
+
+        const choice = stats.choices.find(c => c.optionId === option.id && c.choiceId === option.choiceId);
+        if (choice) {
+          choice.quantity += qty;
+        } else {
+          stats.choices.push({ optionId: option.id, choiceId: option.choiceId, quantity: qty });
+        }
+      });
+
+      sales.set(item.productId, stats);
+    });
+  });
+
+  return [...sales.values()];
+};
+
+/**
+ * Tips and service fees over a set of orders
+ * Tips go to the staff, so they are reported apart from the restaurant's revenue;
+ * `waived` is what staff took off the service fees charged at checkout
+ */
+export interface TipsAndFeesSummary {
+  tips: { total: number; orders: number; average: number };
+  serviceFees: { total: number; waived: number; adjustedOrders: number };
+}
+
+export const summarizeTipsAndFees = (orders: Order[]): TipsAndFeesSummary => {
+  const tipped = orders.filter(order => (order.amounts.tip ?? 0) > 0);
+  const totalTips = tipped.reduce((sum, order) => sum + (order.amounts.tip ?? 0), 0);
+  const adjusted = orders.filter(order => (order.serviceFeeChanges ?? []).length > 0);
+
+  return {
+    tips: {
+      total: totalTips,
+      orders: tipped.length,
+      average: tipped.length > 0 ? Math.round(totalTips / tipped.length) : 0
+    },
+    serviceFees: {
+      total: orders.reduce((sum, order) => sum + (order.amounts.fees.service ?? 0), 0),
+      waived: adjusted.reduce((sum, order) => {
+        const charged = order.serviceFeeChanges![0].from;
+        return sum + Math.max(0, charged - (order.amounts.fees.service ?? 0));
+      }, 0),
+      adjustedOrders: adjusted.length
+    }
+  };
+};
@@ -0,0 +1,61 @@
+import { Response } from 'express';
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+const RETRY_MS = 3000;
+
+export interface EventStream {
+  send: (event: { id?: string; event?: string; data: unknown }) => void;
+  close: () => void;
+}
+
+/**
+ * Start a Server-Sent Events response with periodic heartbeats
+ * `onClose` runs once, when either the client disconnects or the stream is closed
+ */
+export const openEventStream = (res: Response, onClose: () => void): EventStream => {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    // no-transform keeps the compression middleware from buffering events
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  // Comment lines keep proxies from closing idle connections
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+  }, HEARTBEAT_INTERVAL_MS);
+
+  let closed = false;
+  const cleanup = () => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    clearInterval(heartbeat);
+    onClose();
+  };
+
+  res.on('close', cleanup);
+
+  return {
+    send: ({ id, event, data }) => {
+      if (closed) {
+        return;
+      }
+      if (id) {
+        res.write(`id: ${id}\n`);
+      }
+      if (event) {
+        res.write(`event: ${event}\n`);
+      }
+      res.write(`data: ${JSON.stringify(data)}\n\n`);
+    },
+    close: () => {
+      cleanup();
+      res.end();
+    }
+  };
+};
@@ -2,9 +2,23 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import Index from "./pages/Index";
 import MenuPage from "./pages/Menu";
+import KitchenPage from "./pages/Kitchen";
+import OrderTrackingPage from "./pages/OrderTracking";
+import AdminLoginPage from "./pages/admin/Login";
+import AdminOrdersPage from "./pages/admin/Orders";
+import AdminProductsPage from "./pages/admin/Products";
+import AdminOptionGroupsPage from "./pages/admin/OptionGroups";
+import AdminMenuOrderPage from "./pages/admin/MenuOrder";
+import AdminMenusPage from "./pages/admin/Menus";
+import AdminTablesPage from "./pages/admin/Tables";
+import AdminStockPage from "./pages/admin/Stock";
+import AdminCostsPage from "./pages/admin/Costs";
+import AdminSettingsPage from "./pages/admin/Settings";
+import { AdminLayout } from "./components/admin/AdminLayout";
+import { RequireAuth } from "./components/admin/RequireAuth";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -22,9 +36,30 @@ const App = () => (
           {/* Menu Routes - Public access */}
           <Route path="/menu/:restaurant" element={<MenuPage />} />
           {/* Order Tracking */}
-          {/* <Route path="/order/:orderId" element={<OrderTracking />} /> */}
+          <Route path="/order/:orderId" element={<OrderTrackingPage />} />
+          {/* Kitchen Display - Staff access */}
+          <Route path="/kitchen/:restaurant" element={<KitchenPage />} />
           {/* Admin Routes */}
-          {/* <Route path="/admin" element={<AdminDashboard />} /> */}
+          <Route path="/admin/login" element={<AdminLoginPage />} />
+          <Route
+            path="/admin"
+            element={
+              <RequireAuth>
+                <AdminLayout />
+              </RequireAuth>
+            }
+          >
+            <Route index element={<Navigate to="orders" replace />} />
+            <Route path="orders" element={<AdminOrdersPage />} />
+            <Route path="products" element={<AdminProductsPage />} />
+            <Route path="option-groups" element={<AdminOptionGroupsPage />} />
+            <Route path="menu" element={<AdminMenuOrderPage />} />
+            <Route path="menus" element={<AdminMenusPage />} />
+            <Route path="tables" element={<AdminTablesPage />} />
+            <Route path="stock" element={<AdminStockPage />} />
+            <Route path="costs" element={<AdminCostsPage />} />
+            <Route path="settings" element={<AdminSettingsPage />} />
+          </Route>
           {/* Catch-all route */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import QRCode from 'react-qr-code';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { createMockService } from '@/lib/mock-service';
+import type { PixCharge } from '@/lib/pix';
+import { Check, Copy } from 'lucide-react';
+
+interface PixChargePanelProps {
+  restaurantId: string;
+  orderId: string;
+  shareId?: string;
+  balance: number; // the charge is fetched again whenever what is left to pay changes
+}
+
+const formatPrice = (price: number) => `R$ ${(price / 100).toFixed(2)}`;
+
+// QR code and "copia e cola" of the Pix charge of an order
+export function PixChargePanel({ restaurantId, orderId, shareId, balance }: PixChargePanelProps) {
+  const [charge, setCharge] = useState<PixCharge | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    setCharge(null);
+    setFailed(false);
+
+    createMockService(restaurantId)
+      .getPixCharge(orderId, shareId)
+      .then((result) => active && setCharge(result))
+      .catch((error) => {
+        console.error('Error generating Pix charge:', error);
+        if (active) setFailed(true);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [restaurantId, orderId, shareId, balance]);
+
+  const handleCopy = async () => {
+    if (!charge) return;
+
+    try {
+      await navigator.clipboard.writeText(charge.payload);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy Pix code:', error);
+    }
+  };
+
+  if (failed) {
+    return <p className="text-sm text-muted-foreground">Não foi possível gerar o Pix. Pague no caixa.</p>;
+  }
+
+  if (!charge) {
+    return <Skeleton className="mx-auto h-48 w-48" />;
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="rounded-lg bg-white p-3">
+        <QRCode value={charge.payload} size={180} />
+      </div>
+      <p className="text-lg font-bold">{formatPrice(charge.amount)}</p>
+      <p className="w-full break-all rounded bg-muted p-2 font-mono text-xs">{charge.payload}</p>
+      <Button type="button" variant="outline" className="w-full" onClick={handleCopy}>
+        {copied ? <Check className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+        {copied ? 'Código copiado' : 'Copiar código Pix'}
+      </Button>
+    </div>
+  );
+}
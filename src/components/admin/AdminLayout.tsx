@@ -0,0 +1,72 @@
+import { NavLink, Outlet, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAuthStore } from '@/lib/auth';
+import { ArrowUpDown, Calculator, ClipboardList, LayoutList, ListChecks, LogOut, Package, Settings, Table2, UtensilsCrossed } from 'lucide-react';
+
+const navItems = [
+  { to: '/admin/orders', label: 'Pedidos', icon: ClipboardList },
+  { to: '/admin/products', label: 'Produtos', icon: UtensilsCrossed },
+  { to: '/admin/option-groups', label: 'Opções', icon: ListChecks },
+  { to: '/admin/menu', label: 'Cardápio', icon: ArrowUpDown },
+  { to: '/admin/menus', label: 'Canais', icon: LayoutList },
+  { to: '/admin/stock', label: 'Estoque', icon: Package },
+  { to: '/admin/costs', label: 'Custos', icon: Calculator },
+  { to: '/admin/tables', label: 'Mesas', icon: Table2 },
+  { to: '/admin/settings', label: 'Configurações', icon: Settings },
+];
+
+const roleLabels = {
+  admin: 'Administrador',
+  manager: 'Gerente',
+  staff: 'Equipe',
+};
+
+export function AdminLayout() {
+  const { user, signOut } = useAuthStore();
+  const navigate = useNavigate();
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate('/admin/login');
+  };
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <header className="sticky top-0 z-40 border-b bg-background">
+        <div className="container mx-auto flex flex-wrap items-center justify-between gap-2 px-4 py-3">
+          <nav className="flex flex-wrap items-center gap-1">
+            {navItems.map(({ to, label, icon: Icon }) => (
+              <NavLink
+                key={to}
+                to={to}
+                className={({ isActive }) =>
+                  `flex items-center gap-2 rounded-md px-3 py-2 text-sm font-medium ${
+                    isActive ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+                  }`
+                }
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </NavLink>
+            ))}
+          </nav>
+
+          {user && (
+            <div className="flex items-center gap-2">
+              <span className="text-sm">{user.displayName}</span>
+              <Badge variant="outline">{roleLabels[user.role]}</Badge>
+              <Button variant="ghost" size="sm" onClick={handleSignOut}>
+                <LogOut className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        <Outlet />
+      </main>
+    </div>
+  );
+}
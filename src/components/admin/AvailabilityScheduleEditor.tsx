@@ -0,0 +1,112 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { WEEKDAYS, WEEKDAY_LABELS } from '@/lib/opening-hours';
+import type { AvailabilityWindow, Weekday } from '@/lib/types';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface AvailabilityScheduleEditorProps {
+  value: AvailabilityWindow[];
+  onChange: (schedule: AvailabilityWindow[]) => void;
+}
+
+interface WeekdayPickerProps {
+  value: Weekday[];
+  onChange: (days: Weekday[]) => void;
+}
+
+// Also used for the day special rotation
+export function WeekdayPicker({ value, onChange }: WeekdayPickerProps) {
+  return (
+    <div className="flex flex-wrap gap-3">
+      {WEEKDAYS.map((day) => (
+        <label key={day} className="flex items-center gap-1 text-sm">
+          <Checkbox
+            checked={value.includes(day)}
+            onCheckedChange={(checked) =>
+              // Keep the days in week order whatever order they were ticked in
+              onChange(WEEKDAYS.filter((item) => (item === day ? !!checked : value.includes(item))))
+            }
+          />
+          {WEEKDAY_LABELS[day]}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+export function AvailabilityScheduleEditor({ value, onChange }: AvailabilityScheduleEditorProps) {
+  const updateWindow = (index: number, window: AvailabilityWindow) =>
+    onChange(value.map((item, i) => (i === index ? window : item)));
+
+  return (
+    <div className="space-y-3">
+      {value.length === 0 && (
+        <p className="text-sm text-muted-foreground">Sempre disponível enquanto o restaurante estiver aberto.</p>
+      )}
+
+      {value.map((window, index) => {
+        const allDay = !window.from || !window.to;
+
+        return (
+          <div key={index} className="space-y-2 rounded-md border p-3">
+            <div className="flex items-start justify-between gap-2">
+              <WeekdayPicker
+                value={window.days ?? WEEKDAYS}
+                // All days ticked is stored as "every day"; a window needs at least one day
+                onChange={(days) =>
+                  days.length > 0 &&
+                  updateWindow(index, { ...window, days: days.length === WEEKDAYS.length ? undefined : days })
+                }
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="flex items-center gap-2 text-sm">
+                <Switch
+                  checked={allDay}
+                  onCheckedChange={(checked) =>
+                    updateWindow(index, checked
+                      ? { days: window.days }
+                      : { ...window, from: '11:00', to: '15:00' })
+                  }
+                />
+                Dia todo
+              </label>
+              {!allDay && (
+                <>
+                  <Input
+                    type="time"
+                    className="w-28"
+                    value={window.from}
+                    onChange={(e) => updateWindow(index, { ...window, from: e.target.value })}
+                  />
+                  <span className="text-sm text-muted-foreground">às</span>
+                  <Input
+                    type="time"
+                    className="w-28"
+                    value={window.to}
+                    onChange={(e) => updateWindow(index, { ...window, to: e.target.value })}
+                  />
+                </>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <Button type="button" size="sm" variant="outline" onClick={() => onChange([...value, { from: '07:00', to: '11:00' }])}>
+        <Plus className="w-4 h-4 mr-1" />
+        Janela de horário
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ingredientUnitLabels } from '@/lib/food-cost';
+import { ingredientFormSchema, type IngredientFormValues } from '@/lib/schemas';
+import type { Ingredient, IngredientUnit } from '@/lib/types';
+
+interface IngredientFormDialogProps {
+  open: boolean;
+  ingredient?: Ingredient | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: IngredientFormValues) => Promise<void>;
+}
+
+const emptyValues: IngredientFormValues = {
+  name: '',
+  unit: 'g',
+  unitCost: 0,
+};
+
+// Unit costs are edited in reais but kept in cents, with room for fractions of a cent per gram
+const toCents = (value: string) => Math.round(Number(value) * 1_000_000) / 10_000;
+
+export function IngredientFormDialog({ open, ingredient, onOpenChange, onSubmit }: IngredientFormDialogProps) {
+  const form = useForm<IngredientFormValues>({
+    resolver: zodResolver(ingredientFormSchema),
+    defaultValues: emptyValues,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(ingredient ? { name: ingredient.name, unit: ingredient.unit, unitCost: ingredient.unitCost } : emptyValues);
+    }
+  }, [open, ingredient, form]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{ingredient ? 'Editar ingrediente' : 'Novo ingrediente'}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="unit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unidade</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(ingredientUnitLabels) as IngredientUnit[]).map((unit) => (
+                          <SelectItem key={unit} value={unit}>
+                            {ingredientUnitLabels[unit]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="unitCost"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Custo por unidade (R$)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.0001"
+                        value={field.value / 100}
+                        onChange={(e) => field.onChange(toCents(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormDescription>Ex.: 0,052 por grama para R$ 52,00 o quilo</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" className="btn-primary" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
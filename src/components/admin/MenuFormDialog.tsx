@@ -0,0 +1,203 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { menuFormSchema, type MenuFormValues } from '@/lib/schemas';
+import type { Category, Menu, OrderChannel, Product } from '@/lib/types';
+
+interface MenuFormDialogProps {
+  open: boolean;
+  menu?: Menu | null;
+  categories: Category[];
+  products: Product[];
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: MenuFormValues) => Promise<void>;
+}
+
+const channelLabels: Record<OrderChannel, string> = {
+  dine_in: 'Mesa',
+  takeaway: 'Retirada',
+  delivery: 'Delivery',
+};
+
+const emptyValues: MenuFormValues = {
+  name: '',
+  active: true,
+  visibility: [],
+  productIds: [],
+};
+
+const toFormValues = (menu: Menu): MenuFormValues => ({
+  name: menu.name,
+  active: menu.active,
+  visibility: menu.visibility,
+  productIds: menu.productIds,
+});
+
+// Adds or removes ids from a checkbox list
+const toggle = <T,>(values: T[], value: T, checked: boolean) =>
+  checked ? [...values, value] : values.filter((item) => item !== value);
+
+export function MenuFormDialog({
+  open,
+  menu,
+  categories,
+  products,
+  onOpenChange,
+  onSubmit,
+}: MenuFormDialogProps) {
+  const form = useForm<MenuFormValues>({
+    resolver: zodResolver(menuFormSchema),
+    defaultValues: emptyValues,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(menu ? toFormValues(menu) : emptyValues);
+    }
+  }, [open, menu, form]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{menu ? 'Editar cardápio' : 'Novo cardápio'}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex.: Delivery" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="visibility"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Canais</FormLabel>
+                  <div className="flex flex-wrap gap-4">
+                    {(Object.keys(channelLabels) as OrderChannel[]).map((channel) => (
+                      <label key={channel} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(channel)}
+                          onCheckedChange={(checked) => field.onChange(toggle(field.value, channel, !!checked))}
+                        />
+                        {channelLabels[channel]}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                  <FormLabel>Ativo</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="productIds"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex items-center justify-between">
+                    <FormLabel>Produtos ({field.value.length})</FormLabel>
+                    <div className="flex gap-2">
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => field.onChange(products.map((product) => product.id))}
+                      >
+                        Todos
+                      </Button>
+                      <Button type="button" size="sm" variant="ghost" onClick={() => field.onChange([])}>
+                        Nenhum
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="space-y-3 rounded-md border p-3">
+                    {categories.map((category) => {
+                      const categoryProducts = products.filter((product) => product.categoryId === category.id);
+                      if (categoryProducts.length === 0) return null;
+
+                      return (
+                        <div key={category.id} className="space-y-2">
+                          <p className="text-sm font-medium">
+                            {category.icon && <span className="mr-1">{category.icon}</span>}
+                            {category.name}
+                          </p>
+                          <div className="grid gap-2 sm:grid-cols-2">
+                            {categoryProducts.map((product) => (
+                              <label key={product.id} className="flex items-center gap-2 text-sm">
+                                <Checkbox
+                                  checked={field.value.includes(product.id)}
+                                  onCheckedChange={(checked) =>
+                                    field.onChange(toggle(field.value, product.id, !!checked))
+                                  }
+                                />
+                                <span className="truncate">{product.name}</span>
+                              </label>
+                            ))}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" className="btn-primary" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,198 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { WEEKDAYS, WEEKDAY_LABELS } from '@/lib/opening-hours';
+import type { OpeningException, OpeningHours, OpeningShift, OrderChannel, WeeklyHours } from '@/lib/types';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface OpeningHoursEditorProps {
+  value: OpeningHours;
+  onChange: (hours: OpeningHours) => void;
+}
+
+const channelLabels: Record<OrderChannel, string> = {
+  dine_in: 'Mesa',
+  takeaway: 'Retirada',
+  delivery: 'Delivery',
+};
+
+const newShift = (): OpeningShift => ({ open: '11:00', close: '23:00' });
+
+interface ShiftListProps {
+  shifts: OpeningShift[];
+  onChange: (shifts: OpeningShift[]) => void;
+}
+
+function ShiftList({ shifts, onChange }: ShiftListProps) {
+  const updateShift = (index: number, changes: Partial<OpeningShift>) =>
+    onChange(shifts.map((shift, i) => (i === index ? { ...shift, ...changes } : shift)));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {shifts.length === 0 && <span className="text-sm text-muted-foreground">Fechado</span>}
+      {shifts.map((shift, index) => (
+        <div key={index} className="flex items-center gap-1">
+          <Input
+            type="time"
+            className="w-28"
+            value={shift.open}
+            onChange={(e) => updateShift(index, { open: e.target.value })}
+          />
+          <span className="text-sm text-muted-foreground">às</span>
+          <Input
+            type="time"
+            className="w-28"
+            value={shift.close}
+            onChange={(e) => updateShift(index, { close: e.target.value })}
+          />
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() => onChange(shifts.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" size="sm" variant="outline" onClick={() => onChange([...shifts, newShift()])}>
+        <Plus className="w-4 h-4 mr-1" />
+        Turno
+      </Button>
+    </div>
+  );
+}
+
+interface WeekEditorProps {
+  week: WeeklyHours;
+  onChange: (week: WeeklyHours) => void;
+}
+
+function WeekEditor({ week, onChange }: WeekEditorProps) {
+  return (
+    <div className="space-y-2">
+      {WEEKDAYS.map((day) => (
+        <div key={day} className="flex items-start gap-3">
+          <span className="w-10 pt-2 text-sm font-medium">{WEEKDAY_LABELS[day]}</span>
+          <ShiftList shifts={week[day] ?? []} onChange={(shifts) => onChange({ ...week, [day]: shifts })} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function OpeningHoursEditor({ value, onChange }: OpeningHoursEditorProps) {
+  const update = (changes: Partial<OpeningHours>) => onChange({ ...value, ...changes });
+
+  // A channel override starts as a copy of the default week
+  const toggleChannel = (channel: OrderChannel, custom: boolean) =>
+    update({ channels: { ...value.channels, [channel]: custom ? value.week : undefined } });
+
+  const updateException = (index: number, changes: Partial<OpeningException>) =>
+    update({
+      exceptions: value.exceptions.map((exception, i) => (i === index ? { ...exception, ...changes } : exception)),
+    });
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="opening-hours-enabled"
+            checked={value.enabled}
+            onCheckedChange={(enabled) => update({ enabled })}
+          />
+          <Label htmlFor="opening-hours-enabled">Respeitar horário de funcionamento</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="scheduled-orders"
+            checked={value.scheduledOrders.enabled}
+            onCheckedChange={(enabled) => update({ scheduledOrders: { enabled } })}
+          />
+          <Label htmlFor="scheduled-orders">Aceitar pedidos agendados quando fechado</Label>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Horário padrão</Label>
+        <p className="text-xs text-muted-foreground">
+          Um fechamento antes da abertura termina no dia seguinte (ex.: 18:00 às 01:00).
+        </p>
+        <WeekEditor week={value.week} onChange={(week) => update({ week })} />
+      </div>
+
+      {(Object.keys(channelLabels) as OrderChannel[]).map((channel) => {
+        const week = value.channels?.[channel];
+
+        return (
+          <div key={channel} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`hours-${channel}`}
+                checked={!!week}
+                onCheckedChange={(custom) => toggleChannel(channel, custom)}
+              />
+              <Label htmlFor={`hours-${channel}`}>Horário próprio para {channelLabels[channel]}</Label>
+            </div>
+            {week && (
+              <WeekEditor
+                week={week}
+                onChange={(changed) => update({ channels: { ...value.channels, [channel]: changed } })}
+              />
+            )}
+          </div>
+        );
+      })}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Feriados e datas especiais</Label>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              update({
+                exceptions: [...value.exceptions, { date: new Date().toISOString().slice(0, 10), shifts: [] }],
+              })
+            }
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Data
+          </Button>
+        </div>
+        {value.exceptions.length === 0 && (
+          <p className="text-sm text-muted-foreground">Nenhuma data cadastrada.</p>
+        )}
+        {value.exceptions.map((exception, index) => (
+          <div key={index} className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                className="w-40"
+                value={exception.date}
+                onChange={(e) => updateException(index, { date: e.target.value })}
+              />
+              <Input
+                placeholder="Ex.: Natal"
+                value={exception.label ?? ''}
+                onChange={(e) => updateException(index, { label: e.target.value || undefined })}
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => update({ exceptions: value.exceptions.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <ShiftList shifts={exception.shifts} onChange={(shifts) => updateException(index, { shifts })} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
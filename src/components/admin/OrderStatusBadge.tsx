@@ -1,5 +1,6 @@
 import { Badge } from '@/components/ui/badge';
-import { Clock, CheckCircle, ChefHat, Package, Utensils, XCircle } from 'lucide-react';
+import { Clock, CheckCircle, ChefHat, Package, Utensils, XCircle, Bike, Home } from 'lucide-react';
+import { ORDER_STATUS_LABELS } from '@/lib/order-status';
 import type { OrderStatus } from '@/lib/types';
 
 interface OrderStatusBadgeProps {
@@ -12,56 +13,70 @@ export function OrderStatusBadge({ status, size = 'default' }: OrderStatusBadgeP
     switch (status) {
       case 'draft':
         return {
-          label: 'Rascunho',
+          label: ORDER_STATUS_LABELS.draft,
           variant: 'outline' as const,
           icon: Clock,
           className: 'bg-gray-50 text-gray-600 border-gray-200'
         };
       case 'placed':
         return {
-          label: 'Enviado',
+          label: ORDER_STATUS_LABELS.placed,
           variant: 'default' as const,
           icon: Clock,
           className: 'bg-blue-100 text-blue-800 border-blue-200'
         };
       case 'confirmed':
         return {
-          label: 'Confirmado',
+          label: ORDER_STATUS_LABELS.confirmed,
           variant: 'default' as const,
           icon: CheckCircle,
           className: 'bg-yellow-100 text-yellow-800 border-yellow-200'
         };
       case 'in_preparation':
         return {
-          label: 'Preparando',
+          label: ORDER_STATUS_LABELS.in_preparation,
           variant: 'default' as const,
           icon: ChefHat,
           className: 'bg-orange-100 text-orange-800 border-orange-200'
         };
       case 'ready':
         return {
-          label: 'Pronto',
+          label: ORDER_STATUS_LABELS.ready,
           variant: 'default' as const,
           icon: Package,
           className: 'bg-green-100 text-green-800 border-green-200'
         };
       case 'served':
         return {
-          label: 'Entregue',
+          label: ORDER_STATUS_LABELS.served,
           variant: 'default' as const,
           icon: Utensils,
           className: 'bg-success/10 text-success border-success/20'
         };
+      case 'out_for_delivery':
+        return {
+          label: ORDER_STATUS_LABELS.out_for_delivery,
+          variant: 'default' as const,
+          icon: Bike,
+          className: 'bg-purple-100 text-purple-800 border-purple-200'
+        };
+      case 'delivered':
+        return {
+          label: ORDER_STATUS_LABELS.delivered,
+          variant: 'default' as const,
+          icon: Home,
+          className: 'bg-success/10 text-success border-success/20'
+        };
       case 'closed':
         return {
-          label: 'Finalizado',
+          label: ORDER_STATUS_LABELS.closed,
           variant: 'outline' as const,
           icon: CheckCircle,
           className: 'bg-gray-100 text-gray-700 border-gray-300'
         };
       case 'canceled':
         return {
-          label: 'Cancelado',
+          label: ORDER_STATUS_LABELS.canceled,
           variant: 'destructive' as const,
           icon: XCircle,
           className: 'bg-destructive/10 text-destructive border-destructive/20'
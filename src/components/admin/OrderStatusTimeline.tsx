@@ -0,0 +1,65 @@
+import { OrderStatusBadge } from './OrderStatusBadge';
+import { TERMINAL_STATUSES } from '@/lib/order-status';
+import type { OrderStatusChange } from '@/lib/types';
+
+interface OrderStatusTimelineProps {
+  history: OrderStatusChange[];
+  now?: Date;
+}
+
+const roleLabels = {
+  admin: 'Administrador',
+  manager: 'Gerente',
+  staff: 'Equipe'
+};
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return 'menos de 1 min';
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${minutes % 60}min`;
+};
+
+export function OrderStatusTimeline({ history, now = new Date() }: OrderStatusTimelineProps) {
+  const entries = [...history].sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">Sem histórico de status</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-4">
+      {entries.map((entry, index) => {
+        const next = entries[index + 1];
+        const isTerminal = TERMINAL_STATUSES.includes(entry.to);
+        // Time spent in this status, still running for the current one
+        const duration = next
+          ? next.at.getTime() - entry.at.getTime()
+          : isTerminal ? null : now.getTime() - entry.at.getTime();
+
+        return (
+          <li key={`${entry.to}-${entry.at.getTime()}`} className="ml-4">
+            <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary border-2 border-background" />
+            <div className="flex items-center gap-2 flex-wrap">
+              <OrderStatusBadge status={entry.to} size="sm" />
+              <span className="text-xs text-muted-foreground">{formatTime(entry.at)}</span>
+            </div>
+            <div className="text-xs text-muted-foreground mt-1 space-y-0.5">
+              {duration !== null && (
+                <p>{next ? 'Ficou' : 'Há'} {formatDuration(duration)} neste status</p>
+              )}
+              {entry.actor && (
+                <p>Por {entry.actor.role ? roleLabels[entry.actor.role] : 'usuário'} ({entry.actor.userId})</p>
+              )}
+              {entry.reason && <p>Motivo: {entry.reason}</p>}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,450 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PixChargePanel } from '@/components/PixChargePanel';
+import {
+  getPaymentSummary,
+  paymentMethodLabels,
+  paymentStatusLabels,
+  type BillSplitInput,
+  type PaymentInput,
+  type ServiceFeeInput,
+} from '@/lib/payments';
+import type { Order, PaymentMethod } from '@/lib/types';
+
+interface PaymentDialogProps {
+  restaurantId: string;
+  order: Order | null;
+  pixEnabled: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAddPayment: (input: PaymentInput) => Promise<void>;
+  onConfirmPix: (input: Pick<PaymentInput, 'amount' | 'shareId'>) => Promise<void>;
+  onSplitBill: (input: BillSplitInput) => Promise<void>;
+  onAdjustServiceFee: (input: ServiceFeeInput) => Promise<void>;
+}
+
+const BILL = 'bill';
+const MIN_PAYERS = 2;
+const MAX_PAYERS = 50;
+
+const formatPrice = (price: number) => `R$ ${(price / 100).toFixed(2)}`;
+
+// Amounts are typed in reais; empty means the default (what is left to pay)
+const toCents = (value: string) => (value.trim() ? Math.round(Number(value.replace(',', '.')) * 100) : undefined);
+
+export function PaymentDialog({
+  restaurantId,
+  order,
+  pixEnabled,
+  onOpenChange,
+  onAddPayment,
+  onConfirmPix,
+  onSplitBill,
+  onAdjustServiceFee,
+}: PaymentDialogProps) {
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [shareId, setShareId] = useState(BILL);
+  const [amount, setAmount] = useState('');
+  const [received, setReceived] = useState('');
+  const [splitMode, setSplitMode] = useState<BillSplitInput['mode']>('equal');
+  const [payers, setPayers] = useState(MIN_PAYERS);
+  const [itemPayers, setItemPayers] = useState<number[]>([]);
+  const [serviceFee, setServiceFee] = useState('');
+  const [feeReason, setFeeReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const orderId = order?.id;
+  useEffect(() => {
+    setMethod('cash');
+    setShareId(BILL);
+    setAmount('');
+    setReceived('');
+    setSplitMode('equal');
+    setPayers(MIN_PAYERS);
+    setItemPayers([]);
+    setServiceFee('');
+    setFeeReason('');
+  }, [orderId]);
+
+  if (!order) return null;
+
+  const summary = getPaymentSummary(order);
+  const selectedShare = summary.shares.find((share) => share.id === shareId);
+  const limit = selectedShare ? Math.min(summary.balance, selectedShare.balance) : summary.balance;
+
+  // Pix charges the whole balance or share, staff confirms once it shows on the statement
+  const isPixCharge = method === 'pix' && pixEnabled;
+
+  // Preview of what the API will record, so the cashier sees the change before confirming
+  const amountCents = isPixCharge ? undefined : toCents(amount);
+  const receivedCents = method === 'cash' ? toCents(received) : undefined;
+  const payingCents = amountCents ?? (receivedCents !== undefined ? Math.min(receivedCents, limit) : limit);
+  const changeCents = receivedCents !== undefined ? receivedCents - payingCents : 0;
+  const isPaymentValid =
+    limit > 0 &&
+    payingCents > 0 &&
+    payingCents <= limit &&
+    (receivedCents === undefined || receivedCents >= payingCents);
+
+  const canSplitByItems = summary.paid === 0;
+  const isSplitValid =
+    payers >= MIN_PAYERS &&
+    payers <= MAX_PAYERS &&
+    (splitMode === 'equal' || order.items.some((_, index) => itemPayers[index] !== undefined));
+
+  // The fee is changed before shares are paid; the API clears an unpaid split
+  const canAdjustServiceFee = summary.balance > 0 && !summary.shares.some((share) => share.paid > 0);
+  const serviceFeeCents = toCents(serviceFee);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePayment = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isPaymentValid) return;
+
+    run(async () => {
+      if (isPixCharge) {
+        await onConfirmPix({ ...(selectedShare && { shareId: selectedShare.id }) });
+      } else {
+        await onAddPayment({
+          method,
+          ...(amountCents !== undefined && { amount: amountCents }),
+          ...(receivedCents !== undefined && { received: receivedCents }),
+          ...(selectedShare && { shareId: selectedShare.id }),
+        });
+      }
+      setAmount('');
+      setReceived('');
+    });
+  };
+
+  const handleSplit = () => {
+    if (!isSplitValid) return;
+
+    // Lines go whole to the payer picked for them; unassigned lines stay out of the shares
+    const input: BillSplitInput =
+      splitMode === 'equal'
+        ? { mode: 'equal', payers }
+        : {
+            mode: 'items',
+            payers: Array.from({ length: payers }, (_, payer) => ({
+              items: order.items
+                .map((item, index) => ({ index, qty: item.qty }))
+                .filter(({ index }) => itemPayers[index] === payer),
+            })),
+          };
+
+    run(async () => {
+      await onSplitBill(input);
+      setShareId(BILL);
+    });
+  };
+
+  const handleServiceFee = (amount: number) => {
+    if (!feeReason.trim()) return;
+
+    run(async () => {
+      await onAdjustServiceFee({ amount, reason: feeReason.trim() });
+      setServiceFee('');
+      setFeeReason('');
+      setShareId(BILL);
+    });
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Pagamento do pedido #{order.orderCode ?? order.orderNumber}</DialogTitle>
+          <DialogDescription>
+            {paymentStatusLabels[summary.status]} · Total {formatPrice(summary.total)} · Pago{' '}
+            {formatPrice(summary.paid)} · Falta {formatPrice(summary.balance)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {summary.shares.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">Divisão da conta</h3>
+            {summary.shares.map((share) => (
+              <div key={share.id} className="flex items-center justify-between text-sm">
+                <span>{share.label}</span>
+                <span className="flex items-center gap-2">
+                  {formatPrice(share.amount)}
+                  {share.balance === 0 ? (
+                    <Badge variant="secondary">Pago</Badge>
+                  ) : (
+                    <span className="text-muted-foreground">falta {formatPrice(share.balance)}</span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {summary.balance > 0 && (
+          <form onSubmit={handlePayment} className="space-y-3 rounded-lg border p-4">
+            <h3 className="text-sm font-semibold">Registrar pagamento</h3>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label>Forma de pagamento</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(paymentMethodLabels) as PaymentMethod[]).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {paymentMethodLabels[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {summary.shares.length > 0 && (
+                <div className="space-y-1">
+                  <Label>Quem paga</Label>
+                  <Select value={shareId} onValueChange={setShareId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={BILL}>Conta inteira</SelectItem>
+                      {summary.shares
+                        .filter((share) => share.balance > 0)
+                        .map((share) => (
+                          <SelectItem key={share.id} value={share.id}>
+                            {share.label}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {!isPixCharge && (
+                <div className="space-y-1">
+                  <Label htmlFor="payment-amount">Valor (R$)</Label>
+                  <Input
+                    id="payment-amount"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder={(limit / 100).toFixed(2)}
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                  />
+                </div>
+              )}
+              {method === 'cash' && (
+                <div className="space-y-1">
+                  <Label htmlFor="payment-received">Valor recebido (R$)</Label>
+                  <Input
+                    id="payment-received"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={received}
+                    onChange={(e) => setReceived(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+            {isPixCharge && (
+              <PixChargePanel
+                restaurantId={restaurantId}
+                orderId={order.id}
+                shareId={selectedShare?.id}
+                balance={limit}
+              />
+            )}
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">
+                {receivedCents !== undefined && changeCents >= 0 ? `Troco: ${formatPrice(changeCents)}` : ''}
+              </span>
+              <Button type="submit" className="btn-primary" disabled={!isPaymentValid || isSaving}>
+                {isPixCharge ? 'Confirmar Pix recebido' : 'Registrar'} {isPaymentValid ? formatPrice(payingCents) : ''}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {summary.balance > 0 && !summary.shares.some((share) => share.paid > 0) && (
+          <div className="space-y-3 rounded-lg border p-4">
+            <h3 className="text-sm font-semibold">Dividir conta</h3>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label>Como dividir</Label>
+                <Select value={splitMode} onValueChange={(value) => setSplitMode(value as BillSplitInput['mode'])}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="equal">Em partes iguais</SelectItem>
+                    <SelectItem value="items" disabled={!canSplitByItems}>
+                      Por item
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="split-payers">Pessoas</Label>
+                <Input
+                  id="split-payers"
+                  type="number"
+                  min={MIN_PAYERS}
+                  max={MAX_PAYERS}
+                  value={payers}
+                  onChange={(e) => setPayers(Number(e.target.value))}
+                />
+              </div>
+            </div>
+
+            {splitMode === 'items' &&
+              order.items.map((item, index) => (
+                <div key={index} className="flex items-center justify-between gap-2 text-sm">
+                  <span>
+                    {item.qty}x {item.name}
+                  </span>
+                  <Select
+                    value={itemPayers[index] !== undefined ? String(itemPayers[index]) : ''}
+                    onValueChange={(value) =>
+                      setItemPayers((current) => {
+                        const next = [...current];
+                        next[index] = Number(value);
+                        return next;
+                      })
+                    }
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue placeholder="Ninguém" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: Math.min(Math.max(payers, 0), MAX_PAYERS) }, (_, payer) => (
+                        <SelectItem key={payer} value={String(payer)}>
+                          Pessoa {payer + 1}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+
+            <div className="flex justify-end">
+              <Button type="button" variant="outline" disabled={!isSplitValid || isSaving} onClick={handleSplit}>
+                Dividir
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {canAdjustServiceFee && (
+          <div className="space-y-3 rounded-lg border p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold">Taxa de serviço</h3>
+              <span className="text-sm text-muted-foreground">
+                {formatPrice(order.amounts.fees.service ?? 0)}
+                {!!order.amounts.tip && ` · Gorjeta ${formatPrice(order.amounts.tip)}`}
+              </span>
+            </div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="service-fee-amount">Novo valor (R$)</Label>
+                <Input
+                  id="service-fee-amount"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={serviceFee}
+                  onChange={(e) => setServiceFee(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="service-fee-reason">Motivo</Label>
+                <Input
+                  id="service-fee-reason"
+                  placeholder="Ex.: demora no atendimento"
+                  value={feeReason}
+                  onChange={(e) => setFeeReason(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                disabled={!order.amounts.fees.service || !feeReason.trim() || isSaving}
+                onClick={() => handleServiceFee(0)}
+              >
+                Remover taxa
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={serviceFeeCents === undefined || serviceFeeCents < 0 || !feeReason.trim() || isSaving}
+                onClick={() => serviceFeeCents !== undefined && handleServiceFee(serviceFeeCents)}
+              >
+                Ajustar
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {(order.serviceFeeChanges ?? []).length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">Alterações na taxa de serviço</h3>
+            {(order.serviceFeeChanges ?? []).map((change, index) => (
+              <div key={index} className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-muted-foreground">{change.reason}</span>
+                <span>
+                  {formatPrice(change.from)} → {formatPrice(change.to)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {(order.payments ?? []).length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">Pagamentos</h3>
+            {(order.payments ?? []).map((payment) => (
+              <div key={payment.id} className="flex items-center justify-between text-sm">
+                <span>
+                  {paymentMethodLabels[payment.method]}
+                  {payment.shareId && ` · ${summary.shares.find((share) => share.id === payment.shareId)?.label ?? ''}`}
+                </span>
+                <span>
+                  {formatPrice(payment.amount)}
+                  {!!payment.changeDue && (
+                    <span className="text-muted-foreground"> (troco {formatPrice(payment.changeDue)})</span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
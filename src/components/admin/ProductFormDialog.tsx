@@ -0,0 +1,390 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { ProductOptionsEditor } from '@/components/admin/ProductOptionsEditor';
+import { AvailabilityScheduleEditor, WeekdayPicker } from '@/components/admin/AvailabilityScheduleEditor';
+import { productFormSchema, type ProductFormValues } from '@/lib/schemas';
+import type { Category, OptionGroup, Product } from '@/lib/types';
+
+interface ProductFormDialogProps {
+  open: boolean;
+  product?: Product | null;
+  categories?: Category[];
+  // Catalog used to copy option groups between products
+  products?: Product[];
+  optionGroups?: OptionGroup[];
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: ProductFormValues) => Promise<void>;
+}
+
+const emptyValues: ProductFormValues = {
+  name: '',
+  description: '',
+  imageUrl: '',
+  categoryId: '',
+  price: 0,
+  options: [],
+  optionGroupIds: [],
+  available: true,
+  position: 0,
+  isHighlighted: false,
+  isDaySpecial: false,
+  schedule: [],
+  specialDays: [],
+  stock: undefined,
+  lowStockThreshold: undefined,
+};
+
+// Empty inputs leave stock untracked instead of storing 0
+const toOptionalInt = (value: string) => (value === '' ? undefined : Math.max(0, Math.round(Number(value))));
+
+const toFormValues = (product: Product): ProductFormValues => ({
+  name: product.name,
+  description: product.description,
+  imageUrl: product.imageUrl ?? '',
+  categoryId: product.categoryId,
+  price: product.price,
+  // Linked groups come resolved in options; the form edits only the product's own
+  options: (product.options ?? []).filter((option) => !product.optionGroupIds?.includes(option.id)),
+  optionGroupIds: product.optionGroupIds ?? [],
+  available: product.available,
+  position: product.position,
+  isHighlighted: product.isHighlighted ?? false,
+  isDaySpecial: product.isDaySpecial ?? false,
+  schedule: product.schedule ?? [],
+  specialDays: product.specialDays ?? [],
+  stock: product.stock,
+  lowStockThreshold: product.lowStockThreshold,
+});
+
+export function ProductFormDialog({
+  open,
+  product,
+  categories = [],
+  products = [],
+  optionGroups = [],
+  onOpenChange,
+  onSubmit,
+}: ProductFormDialogProps) {
+  const form = useForm<ProductFormValues>({
+    resolver: zodResolver(productFormSchema),
+    defaultValues: emptyValues,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(product ? toFormValues(product) : emptyValues);
+    }
+  }, [open, product, form]);
+
+  const linkedGroupIds = form.watch('optionGroupIds') ?? [];
+  const rotatesDaySpecial = (form.watch('specialDays') ?? []).length > 0;
+
+  const switches = [
+    { name: 'available', label: 'Disponível' },
+    { name: 'isHighlighted', label: 'Destaque' },
+    { name: 'isDaySpecial', label: 'Prato do dia' },
+  ] as const;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{product ? 'Editar produto' : 'Novo produto'}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Descrição</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="categoryId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Categoria</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={category.id}>
+                            {category.icon ? `${category.icon} ${category.name}` : category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Preço (R$)</FormLabel>
+                    <FormControl>
+                      {/* Stored in cents, edited in reais */}
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={field.value / 100}
+                        onChange={(e) => field.onChange(Math.round(Number(e.target.value) * 100))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="imageUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>URL da imagem</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="position"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Posição</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={field.value}
+                        onChange={(e) => field.onChange(Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="stock"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{product ? 'Estoque atual' : 'Estoque inicial'}</FormLabel>
+                    <FormControl>
+                      {/* After creation the count only changes through orders and the stock page */}
+                      <Input
+                        type="number"
+                        min="0"
+                        placeholder="Sem controle"
+                        disabled={!!product}
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(toOptionalInt(e.target.value))}
+                      />
+                    </FormControl>
+                    {product && <FormDescription>Ajuste pela página Estoque</FormDescription>}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="lowStockThreshold"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Alerta de estoque baixo</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(toOptionalInt(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+              {switches.map(({ name, label }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-2 space-y-0">
+                      <FormControl>
+                        <Switch
+                          checked={!!field.value}
+                          onCheckedChange={field.onChange}
+                          // The weekday rotation decides the day special
+                          disabled={name === 'isDaySpecial' && rotatesDaySpecial}
+                        />
+                      </FormControl>
+                      <FormLabel>{label}</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="specialDays"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Prato do dia automático</FormLabel>
+                  <WeekdayPicker value={field.value ?? []} onChange={field.onChange} />
+                  <p className="text-xs text-muted-foreground">
+                    Nos dias marcados o produto vira prato do dia sozinho, sem usar a chave manual.
+                  </p>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="schedule"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Horários de venda</FormLabel>
+                  <AvailabilityScheduleEditor value={field.value ?? []} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {optionGroups.length > 0 && (
+              <FormField
+                control={form.control}
+                name="optionGroupIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Grupos da biblioteca</FormLabel>
+                    <div className="flex flex-wrap gap-4">
+                      {optionGroups.map((group) => (
+                        <label key={group.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value?.includes(group.id)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...(field.value ?? []), group.id]
+                                  : field.value?.filter((id) => id !== group.id)
+                              )
+                            }
+                          />
+                          {group.name}
+                        </label>
+                      ))}
+                    </div>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="options"
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <ProductOptionsEditor
+                      value={field.value ?? []}
+                      onChange={field.onChange}
+                      products={products.filter((p) => p.id !== product?.id)}
+                      linkedOptions={optionGroups.filter((group) => linkedGroupIds.includes(group.id))}
+                      showErrors={form.formState.isSubmitted}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" className="btn-primary" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
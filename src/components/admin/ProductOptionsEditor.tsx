@@ -0,0 +1,319 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ProductOptionsSelector } from '@/components/menu/ProductOptionsSelector';
+import { productOptionFormSchema } from '@/lib/schemas';
+import { moveItem } from '@/lib/utils';
+import type { Product, ProductChoice, ProductOption, SelectedOption } from '@/lib/types';
+import { ArrowDown, ArrowUp, Copy, Plus, Trash2 } from 'lucide-react';
+
+interface ProductOptionsEditorProps {
+  value: ProductOption[];
+  onChange: (options: ProductOption[]) => void;
+  // Products whose option groups can be copied
+  products?: Product[];
+  // Linked library groups, shown after the product's own options in the preview
+  linkedOptions?: ProductOption[];
+  showErrors?: boolean;
+}
+
+const newChoice = (): ProductChoice => ({ id: crypto.randomUUID(), name: '', price: 0 });
+
+const newOption = (): ProductOption => ({
+  id: crypto.randomUUID(),
+  name: '',
+  required: false,
+  maxSelections: 1,
+  choices: [newChoice()],
+});
+
+// Copies get fresh ids so carts never mix up the two products' selections, and start untracked
+const copyOption = (option: ProductOption): ProductOption => ({
+  ...option,
+  id: crypto.randomUUID(),
+  choices: option.choices.map(({ stock: _stock, lowStockThreshold: _threshold, ...choice }) => ({
+    ...choice,
+    id: crypto.randomUUID(),
+  })),
+});
+
+// Empty inputs clear the limit instead of storing 0
+const toOptionalInt = (value: string) => (value === '' ? undefined : Math.max(0, Math.round(Number(value))));
+
+export function ProductOptionsEditor({
+  value,
+  onChange,
+  products = [],
+  linkedOptions = [],
+  showErrors,
+}: ProductOptionsEditorProps) {
+  const [previewSelections, setPreviewSelections] = useState<SelectedOption[]>([]);
+
+  const updateOption = (index: number, updates: Partial<ProductOption>) => {
+    onChange(value.map((option, i) => (i === index ? { ...option, ...updates } : option)));
+  };
+
+  const updateChoice = (optionIndex: number, choiceIndex: number, updates: Partial<ProductChoice>) => {
+    const choices = value[optionIndex].choices.map((choice, i) =>
+      i === choiceIndex ? { ...choice, ...updates } : choice
+    );
+    updateOption(optionIndex, { choices });
+  };
+
+  const handleCopy = (key: string) => {
+    const [productId, optionId] = key.split(':');
+    const source = products
+      .find((product) => product.id === productId)
+      ?.options?.find((option) => option.id === optionId);
+
+    if (source) {
+      onChange([...value, copyOption(source)]);
+    }
+  };
+
+  const previewOptions = [...value, ...linkedOptions];
+  const copySources = products.filter((product) => product.options && product.options.length > 0);
+
+  return (
+    <Tabs defaultValue="edit" className="space-y-3" onValueChange={() => setPreviewSelections([])}>
+      <div className="flex items-center justify-between">
+        <Label>Opções</Label>
+        <TabsList>
+          <TabsTrigger value="edit">Editar</TabsTrigger>
+          <TabsTrigger value="preview">Pré-visualizar</TabsTrigger>
+        </TabsList>
+      </div>
+
+      <TabsContent value="edit" className="space-y-3">
+        {value.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Sem opções. O cliente adiciona o produto direto ao carrinho.
+          </p>
+        )}
+
+        {value.map((option, optionIndex) => {
+          const result = productOptionFormSchema.safeParse(option);
+          const error = showErrors && !result.success ? result.error.issues[0].message : undefined;
+
+          return (
+            <div key={option.id} className="space-y-3 rounded-lg border p-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  placeholder="Nome do grupo (ex.: Ponto da carne)"
+                  value={option.name}
+                  onChange={(e) => updateOption(optionIndex, { name: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  disabled={optionIndex === 0}
+                  onClick={() => onChange(moveItem(value, optionIndex, optionIndex - 1))}
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  disabled={optionIndex === value.length - 1}
+                  onClick={() => onChange(moveItem(value, optionIndex, optionIndex + 1))}
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => onChange(value.filter((_, i) => i !== optionIndex))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`required-${option.id}`}
+                    checked={!!option.required}
+                    onCheckedChange={(required) => updateOption(optionIndex, { required })}
+                  />
+                  <Label htmlFor={`required-${option.id}`}>Obrigatório</Label>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`min-${option.id}`} className="text-xs">Mínimo</Label>
+                  <Input
+                    id={`min-${option.id}`}
+                    type="number"
+                    min="0"
+                    value={option.minSelections ?? ''}
+                    onChange={(e) => updateOption(optionIndex, { minSelections: toOptionalInt(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`max-${option.id}`} className="text-xs">Máximo</Label>
+                  <Input
+                    id={`max-${option.id}`}
+                    type="number"
+                    min="1"
+                    value={option.maxSelections ?? ''}
+                    onChange={(e) => updateOption(optionIndex, { maxSelections: toOptionalInt(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`per-choice-${option.id}`} className="text-xs">Máx. por escolha</Label>
+                  <Input
+                    id={`per-choice-${option.id}`}
+                    type="number"
+                    min="1"
+                    value={option.maxQuantityPerChoice ?? ''}
+                    onChange={(e) =>
+                      updateOption(optionIndex, { maxQuantityPerChoice: toOptionalInt(e.target.value) })
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {option.choices.map((choice, choiceIndex) => (
+                  <div key={choice.id} className="flex items-center gap-2">
+                    <Input
+                      placeholder="Escolha"
+                      value={choice.name}
+                      onChange={(e) => updateChoice(optionIndex, choiceIndex, { name: e.target.value })}
+                    />
+                    {/* Price delta in cents, edited in reais */}
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      className="w-28"
+                      aria-label="Acréscimo (R$)"
+                      value={choice.price / 100}
+                      onChange={(e) =>
+                        updateChoice(optionIndex, choiceIndex, { price: Math.round(Number(e.target.value) * 100) })
+                      }
+                    />
+                    {/* Counts are set on the stock page, only the alert level is edited here */}
+                    {choice.stock !== undefined && (
+                      <Input
+                        type="number"
+                        min="0"
+                        className="w-24"
+                        placeholder="Alerta"
+                        aria-label={`Alerta de estoque baixo (${choice.stock} em estoque)`}
+                        title={`${choice.stock} em estoque`}
+                        value={choice.lowStockThreshold ?? ''}
+                        onChange={(e) =>
+                          updateChoice(optionIndex, choiceIndex, { lowStockThreshold: toOptionalInt(e.target.value) })
+                        }
+                      />
+                    )}
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      disabled={choiceIndex === 0}
+                      onClick={() =>
+                        updateOption(optionIndex, { choices: moveItem(option.choices, choiceIndex, choiceIndex - 1) })
+                      }
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      disabled={choiceIndex === option.choices.length - 1}
+                      onClick={() =>
+                        updateOption(optionIndex, { choices: moveItem(option.choices, choiceIndex, choiceIndex + 1) })
+                      }
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() =>
+                        updateOption(optionIndex, { choices: option.choices.filter((_, i) => i !== choiceIndex) })
+                      }
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => updateOption(optionIndex, { choices: [...option.choices, newChoice()] })}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Escolha
+                </Button>
+              </div>
+
+              {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+            </div>
+          );
+        })}
+
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" variant="outline" onClick={() => onChange([...value, newOption()])}>
+            <Plus className="w-4 h-4 mr-2" />
+            Novo grupo
+          </Button>
+
+          {/* Always empty so the same group can be copied twice */}
+          {copySources.length > 0 && (
+            <Select value="" onValueChange={handleCopy}>
+              <SelectTrigger className="w-auto gap-2">
+                <Copy className="w-4 h-4" />
+                <SelectValue placeholder="Copiar de outro produto" />
+              </SelectTrigger>
+              <SelectContent>
+                {copySources.map((product) => (
+                  <SelectGroup key={product.id}>
+                    <SelectLabel>{product.name}</SelectLabel>
+                    {product.options?.map((option) => (
+                      <SelectItem key={option.id} value={`${product.id}:${option.id}`}>
+                        {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </TabsContent>
+
+      <TabsContent value="preview" className="rounded-lg border p-4">
+        {previewOptions.length > 0 ? (
+          <ProductOptionsSelector
+            options={previewOptions}
+            selectedOptions={previewSelections}
+            onChange={setPreviewSelections}
+          />
+        ) : (
+          <p className="text-sm text-muted-foreground">Nenhuma opção para mostrar.</p>
+        )}
+      </TabsContent>
+    </Tabs>
+  );
+}
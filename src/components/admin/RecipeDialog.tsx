@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { calculateRecipeCost } from '@/lib/food-cost';
+import { recipeLineFormSchema } from '@/lib/schemas';
+import type { Ingredient, RecipeLine } from '@/lib/types';
+import { Plus, Trash2 } from 'lucide-react';
+
+// One recipe edited by the dialog: the product itself or one of the choices that add ingredients
+export interface RecipeSection {
+  key: string;
+  label: string;
+  recipe?: RecipeLine[];
+}
+
+interface RecipeDialogProps {
+  open: boolean;
+  title: string;
+  sections: RecipeSection[];
+  ingredients: Ingredient[];
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (recipes: Record<string, RecipeLine[]>) => Promise<void>;
+}
+
+const formatCost = (cents: number) => `R$ ${(cents / 100).toFixed(2)}`;
+
+export function RecipeDialog({ open, title, sections, ingredients, onOpenChange, onSubmit }: RecipeDialogProps) {
+  const [recipes, setRecipes] = useState<Record<string, RecipeLine[]>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setRecipes(Object.fromEntries(sections.map((section) => [section.key, section.recipe ?? []])));
+    }
+  }, [open, sections]);
+
+  const ingredientsById = new Map(ingredients.map((ingredient) => [ingredient.id, ingredient]));
+  const isValid = Object.values(recipes).every((lines) =>
+    lines.every((line) => recipeLineFormSchema.safeParse(line).success)
+  );
+
+  const updateLines = (key: string, update: (lines: RecipeLine[]) => RecipeLine[]) =>
+    setRecipes((current) => ({ ...current, [key]: update(current[key] ?? []) }));
+
+  const updateLine = (key: string, index: number, changes: Partial<RecipeLine>) =>
+    updateLines(key, (lines) => lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isValid) return;
+
+    setIsSaving(true);
+    try {
+      await onSubmit(recipes);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>Quantidades usadas em uma unidade, na unidade de cada ingrediente.</DialogDescription>
+        </DialogHeader>
+
+        <form id="recipe-form" onSubmit={handleSubmit} className="space-y-6">
+          {sections.map((section) => {
+            const lines = recipes[section.key] ?? [];
+
+            return (
+              <div key={section.key} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold">{section.label}</h3>
+                  <span className="text-sm text-muted-foreground">
+                    Custo: {formatCost(calculateRecipeCost(lines, ingredientsById).cost)}
+                  </span>
+                </div>
+
+                {lines.map((line, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_8rem_2.5rem] items-center gap-2">
+                    <Select
+                      value={line.ingredientId}
+                      onValueChange={(ingredientId) => updateLine(section.key, index, { ingredientId })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Ingrediente" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ingredients.map((ingredient) => (
+                          <SelectItem key={ingredient.id} value={ingredient.id}>
+                            {ingredient.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center gap-1">
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={line.quantity || ''}
+                        onChange={(e) => updateLine(section.key, index, { quantity: Number(e.target.value) })}
+                      />
+                      <span className="w-6 text-xs text-muted-foreground">
+                        {ingredientsById.get(line.ingredientId)?.unit}
+                      </span>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateLines(section.key, (current) => current.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={ingredients.length === 0}
+                  onClick={() => updateLines(section.key, (current) => [...current, { ingredientId: '', quantity: 0 }])}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Ingrediente
+                </Button>
+              </div>
+            );
+          })}
+        </form>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button type="submit" form="recipe-form" className="btn-primary" disabled={!isValid || isSaving}>
+            {isSaving ? 'Salvando...' : 'Salvar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
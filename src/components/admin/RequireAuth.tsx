@@ -0,0 +1,18 @@
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuthStore } from '@/lib/auth';
+
+interface RequireAuthProps {
+  children: React.ReactNode;
+}
+
+// Sends visitors without a staff session to the admin login
+export function RequireAuth({ children }: RequireAuthProps) {
+  const user = useAuthStore((state) => state.user);
+  const location = useLocation();
+
+  if (!user) {
+    return <Navigate to="/admin/login" state={{ from: location.pathname }} replace />;
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,60 @@
+import { useState, type ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import { moveItem } from '@/lib/utils';
+import { ArrowDown, ArrowUp, GripVertical } from 'lucide-react';
+
+interface SortableListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => ReactNode;
+  onReorder: (items: T[]) => void;
+}
+
+// Native drag and drop, with arrow buttons for touch screens where dragging is not available
+export function SortableList<T>({ items, getKey, renderItem, onReorder }: SortableListProps<T>) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const handleDragOver = (event: React.DragEvent, index: number) => {
+    event.preventDefault();
+    if (dragIndex === null || dragIndex === index) return;
+
+    onReorder(moveItem(items, dragIndex, index));
+    setDragIndex(index);
+  };
+
+  return (
+    <ul className="space-y-2">
+      {items.map((item, index) => (
+        <li
+          key={getKey(item)}
+          draggable
+          onDragStart={() => setDragIndex(index)}
+          onDragOver={(event) => handleDragOver(event, index)}
+          onDragEnd={() => setDragIndex(null)}
+          className={`flex items-center gap-2 rounded-md border bg-background px-2 py-1 ${
+            dragIndex === index ? 'opacity-50' : ''
+          }`}
+        >
+          <GripVertical className="w-4 h-4 shrink-0 cursor-grab text-muted-foreground" />
+          <div className="flex-1 min-w-0">{renderItem(item)}</div>
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={index === 0}
+            onClick={() => onReorder(moveItem(items, index, index - 1))}
+          >
+            <ArrowUp className="w-4 h-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={index === items.length - 1}
+            onClick={() => onReorder(moveItem(items, index, index + 1))}
+          >
+            <ArrowDown className="w-4 h-4" />
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { StockAdjustmentInput } from '@/lib/mock-service';
+import type { StockLevel, StockTarget } from '@/lib/types';
+
+export type StockTargetOption = StockTarget & { name: string };
+
+type ManualReason = StockAdjustmentInput['reason'];
+
+interface StockAdjustmentDialogProps {
+  open: boolean;
+  // Tracked item being adjusted; without it the dialog starts tracking one of the untracked items
+  level: StockLevel | null;
+  untracked?: StockTargetOption[];
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (adjustment: StockAdjustmentInput) => Promise<void>;
+}
+
+const reasonLabels: Record<ManualReason, string> = {
+  restock: 'Reposição (entrada)',
+  waste: 'Perda (saída)',
+  count: 'Contagem (novo saldo)',
+};
+
+const getTargetKey = ({ productId, optionGroupId, optionId, choiceId }: StockTarget) =>
+  [productId, optionGroupId, optionId, choiceId].map((part) => part ?? '').join('/');
+
+export function StockAdjustmentDialog({
+  open,
+  level,
+  untracked = [],
+  onOpenChange,
+  onSubmit,
+}: StockAdjustmentDialogProps) {
+  const [reason, setReason] = useState<ManualReason>('restock');
+  const [targetKey, setTargetKey] = useState('');
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setReason(level ? 'restock' : 'count');
+      setTargetKey('');
+      setAmount('');
+      setNote('');
+    }
+  }, [open, level]);
+
+  const target: StockTargetOption | undefined = level ?? untracked.find((item) => getTargetKey(item) === targetKey);
+  const value = Math.round(Number(amount));
+  const isValid = !!target && amount !== '' && value >= (reason === 'count' ? 0 : 1);
+
+  const submit = async (adjustment: StockAdjustmentInput) => {
+    setIsSaving(true);
+    try {
+      await onSubmit(adjustment);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!target || !isValid) return;
+
+    const { productId, optionGroupId, optionId, choiceId } = target;
+    const base = { productId, optionGroupId, optionId, choiceId, note: note.trim() || undefined };
+    submit(reason === 'count' ? { ...base, reason, quantity: value } : { ...base, reason, qty: value });
+  };
+
+  const handleStopTracking = () => {
+    if (!level) return;
+
+    const { productId, optionGroupId, optionId, choiceId } = level;
+    submit({ productId, optionGroupId, optionId, choiceId, reason: 'count', quantity: null, note: note.trim() || undefined });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{level ? `Ajustar ${level.name}` : 'Controlar estoque'}</DialogTitle>
+          <DialogDescription>
+            {level
+              ? `${level.stock} em estoque`
+              : 'Itens controlados são baixados a cada pedido e ficam indisponíveis ao zerar.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="stock-adjustment-form" onSubmit={handleSubmit} className="space-y-4">
+          {!level && (
+            <div className="space-y-2">
+              <Label>Item</Label>
+              <Select value={targetKey} onValueChange={setTargetKey}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  {untracked.map((item) => (
+                    <SelectItem key={getTargetKey(item)} value={getTargetKey(item)}>
+                      {item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {level && (
+            <div className="space-y-2">
+              <Label>Movimento</Label>
+              <Select value={reason} onValueChange={(value) => setReason(value as ManualReason)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(reasonLabels) as ManualReason[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {reasonLabels[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="stock-amount">{reason === 'count' ? 'Quantidade em estoque' : 'Quantidade'}</Label>
+            <Input
+              id="stock-amount"
+              type="number"
+              min={reason === 'count' ? 0 : 1}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="stock-note">Observação</Label>
+            <Textarea
+              id="stock-note"
+              maxLength={500}
+              placeholder="Ex.: entrega do fornecedor, produto vencido"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </form>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {level ? (
+            <Button type="button" variant="ghost" disabled={isSaving} onClick={handleStopTracking}>
+              Parar de controlar
+            </Button>
+          ) : (
+            <span />
+          )}
+          <Button type="submit" form="stock-adjustment-form" className="btn-primary" disabled={!isValid || isSaving}>
+            {isSaving ? 'Salvando...' : 'Salvar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
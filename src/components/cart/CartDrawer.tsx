@@ -1,4 +1,5 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
@@ -6,23 +7,34 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Separator } from '@/components/ui/separator';
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
-import { ShoppingCart, Plus, Minus, Trash2, Tag, User, Phone } from 'lucide-react';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Switch } from '@/components/ui/switch';
+import { PixChargePanel } from '@/components/PixChargePanel';
+import { ShoppingCart, Plus, Minus, Trash2, Tag, User, Phone, Clock, Wallet, HandCoins } from 'lucide-react';
 import { useCartStore } from '@/lib/store';
 import { createMockService } from '@/lib/mock-service';
 import { useToast } from '@/hooks/use-toast';
-import type { CartItem } from '@/lib/types';
+import { calculateCouponDiscount, calculateFees, calculateTip } from '@/lib/utils';
+import { calculateOptionsPrice } from '@/lib/option-rules';
+import { formatOpeningTime } from '@/lib/opening-hours';
+import type { CartItem, Settings } from '@/lib/types';
+
+// Suggested tips, as a percentage of the subtotal
+const TIP_PERCENTS = [5, 10, 15];
 
 interface CartDrawerProps {
   restaurantId: string;
   tableNumber?: string;
+  scheduledFor?: Date; // Next opening while the restaurant is closed
 }
 
-export function CartDrawer({ restaurantId, tableNumber }: CartDrawerProps) {
+export function CartDrawer({ restaurantId, tableNumber, scheduledFor }: CartDrawerProps) {
   const {
     items,
     subtotal,
     discounts,
     fees,
+    tip,
     total,
     channel,
     couponCode,
@@ -30,6 +42,8 @@ export function CartDrawer({ restaurantId, tableNumber }: CartDrawerProps) {
     removeItem,
     applyCoupon,
     removeCoupon,
+    updateFees,
+    setTip,
     clearCart
   } = useCartStore();
 
@@ -38,12 +52,56 @@ export function CartDrawer({ restaurantId, tableNumber }: CartDrawerProps) {
   const [customerPhone, setCustomerPhone] = useState('');
   const [couponInput, setCouponInput] = useState('');
   const [isPlacingOrder, setIsPlacingOrder] = useState(false);
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [payWithPix, setPayWithPix] = useState(false);
+  const [includeServiceFee, setIncludeServiceFee] = useState(true);
+  const [customTip, setCustomTip] = useState('');
+  // Order placed with Pix, shown as the payment step until the customer moves on
+  const [pixOrder, setPixOrder] = useState<{ id: string; total: number } | null>(null);
   const { toast } = useToast();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    createMockService(restaurantId).getSettings().then(setSettings);
+  }, [restaurantId]);
+
+  // Keep fees in sync with the restaurant settings; the service fee is optional for the customer
+  useEffect(() => {
+    if (settings) {
+      const channelFees = calculateFees(settings, channel, subtotal);
+      if (!includeServiceFee) {
+        delete channelFees.service;
+      }
+      updateFees(channelFees);
+    }
+  }, [settings, channel, subtotal, includeServiceFee, updateFees]);
 
   const formatPrice = (price: number) => `R$ ${(price / 100).toFixed(2)}`;
 
   const itemCount = items.reduce((sum, item) => sum + item.qty, 0);
 
+  const isPixEnabled = !!settings?.pix.enabled;
+
+  const hasServiceFee = channel === 'dine_in' && !!settings?.dineIn.serviceFeePercent;
+
+  const tipAmount = tip ? calculateTip(tip, subtotal) : 0;
+
+  const handleCustomTip = (value: string) => {
+    setCustomTip(value);
+    setTip({ type: 'fixed', value: Math.max(0, Math.round((parseFloat(value) || 0) * 100)) });
+  };
+
+  const trackOrder = (orderId: string) =>
+    navigate(`/order/${orderId}?restaurant=${encodeURIComponent(restaurantId)}`);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open && pixOrder) {
+      trackOrder(pixOrder.id);
+      setPixOrder(null);
+    }
+  };
+
   const handleUpdateQuantity = (item: CartItem, newQty: number) => {
     updateItemQty(item.productId, newQty, item.options);
   };
@@ -78,13 +136,8 @@ export function CartDrawer({ restaurantId, tableNumber }: CartDrawerProps) {
         return;
       }
 
-      // Calculate discount
-      let discount = 0;
-      if (coupon.type === 'percent') {
-        discount = Math.round(subtotal * (coupon.value / 100));
-      } else {
-        discount = coupon.value;
-      }
+      // Preview only: the final discount is recalculated when the order is placed
+      const discount = calculateCouponDiscount(coupon, subtotal);
 
       applyCoupon(couponInput.toUpperCase(), discount);
       setCouponInput('');
@@ -122,6 +175,10 @@ export function CartDrawer({ restaurantId, tableNumber }: CartDrawerProps) {
         })),
         channel,
         tableId: tableNumber,
+        couponCode,
+        tip: tipAmount > 0 ? tip : undefined,
+        serviceFee: includeServiceFee,
+        scheduled: !!scheduledFor,
         customer: {
           name: customerName.trim() || undefined,
           phone: customerPhone.trim() || undefined
@@ -134,15 +191,26 @@ export function CartDrawer({ restaurantId, tableNumber }: CartDrawerProps) {
       clearCart();
       setCustomerName('');
       setCustomerPhone('');
+      setCustomTip('');
+
+      // Paying with Pix keeps the drawer open on the QR code
+      if (payWithPix && isPixEnabled) {
+        setPixOrder({ id: orderId, total });
+        toast({
+          title: "Pedido realizado!",
+          description: "Pague com Pix para concluir.",
+        });
+        return;
+      }
+
       setIsOpen(false);
       
       toast({
         title: "Pedido realizado!",
-        description: `Seu pedido foi enviado para a cozinha. Acompanhe o status: ${orderId}`,
+        description: "Seu pedido foi enviado para a cozinha. Acompanhe o status por aqui.",
       });
 
-      // Navigate to order tracking (in a real app, you'd use router)
-      console.log('Order placed:', orderId);
+      trackOrder(orderId);
       
     } catch (error) {
       console.error('Error placing order:', error);
@@ -157,7 +225,7 @@ export function CartDrawer({ restaurantId, tableNumber }: CartDrawerProps) {
   };
 
   return (
-    <Sheet open={isOpen} onOpenChange={setIsOpen}>
+    <Sheet open={isOpen} onOpenChange={handleOpenChange}>
       <SheetTrigger asChild>
         <Button 
           className="fixed bottom-4 right-4 rounded-full w-14 h-14 shadow-lg z-50 btn-primary"
@@ -176,207 +244,321 @@ export function CartDrawer({ restaurantId, tableNumber }: CartDrawerProps) {
 
       <SheetContent side="right" className="w-full sm:max-w-lg overflow-y-auto">
         <SheetHeader>
-          <SheetTitle>Seu Pedido</SheetTitle>
+          <SheetTitle>{pixOrder ? 'Pagamento via Pix' : 'Seu Pedido'}</SheetTitle>
           <SheetDescription>
             {tableNumber ? `Mesa ${tableNumber}` : 'Carrinho de compras'}
           </SheetDescription>
         </SheetHeader>
 
-        <div className="py-4 space-y-6">
-          {/* Cart Items */}
-          {items.length === 0 ? (
-            <div className="text-center py-8">
-              <ShoppingCart className="w-12 h-12 mx-auto text-muted-foreground mb-2" />
-              <p className="text-muted-foreground">Seu carrinho está vazio</p>
-            </div>
-          ) : (
-            <div className="space-y-4">
-              {items.map((item, index) => (
-                <div key={`${item.productId}-${index}`} className="flex gap-3 p-3 border rounded-lg">
-                  {item.imageUrl && (
-                    <img
-                      src={item.imageUrl}
-                      alt={item.name}
-                      className="w-16 h-16 object-cover rounded"
-                    />
-                  )}
-                  
-                  <div className="flex-1 min-w-0">
-                    <h4 className="font-medium truncate">{item.name}</h4>
-                    
-                    {item.options.length > 0 && (
-                      <div className="text-xs text-muted-foreground mt-1">
-                        {item.options.map((opt, i) => (
-                          <div key={i}>{opt.name}: {opt.choice}</div>
-                        ))}
-                      </div>
+        {pixOrder ? (
+          <div className="py-4 space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Escaneie o QR Code ou copie o código no app do seu banco. O pagamento é confirmado pela equipe.
+            </p>
+            <PixChargePanel restaurantId={restaurantId} orderId={pixOrder.id} balance={pixOrder.total} />
+            <Button className="w-full btn-primary" onClick={() => handleOpenChange(false)}>
+              Acompanhar pedido
+            </Button>
+          </div>
+        ) : (
+          <div className="py-4 space-y-6">
+            {/* Cart Items */}
+            {items.length === 0 ? (
+              <div className="text-center py-8">
+                <ShoppingCart className="w-12 h-12 mx-auto text-muted-foreground mb-2" />
+                <p className="text-muted-foreground">Seu carrinho está vazio</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {items.map((item, index) => (
+                  <div key={`${item.productId}-${index}`} className="flex gap-3 p-3 border rounded-lg">
+                    {item.imageUrl && (
+                      <img
+                        src={item.imageUrl}
+                        alt={item.name}
+                        className="w-16 h-16 object-cover rounded"
+                      />
                     )}
                     
-                    {item.notes && (
-                      <p className="text-xs text-muted-foreground mt-1">
-                        Obs: {item.notes}
-                      </p>
-                    )}
+                    <div className="flex-1 min-w-0">
+                      <h4 className="font-medium truncate">{item.name}</h4>
+                      
+                      {item.options.length > 0 && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {item.options.map((opt, i) => (
+                            <div key={i}>{opt.name}: {opt.qty && opt.qty > 1 ? `${opt.qty}x ` : ''}{opt.choice}</div>
+                          ))}
+                        </div>
+                      )}
+                      
+                      {item.notes && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Obs: {item.notes}
+                        </p>
+                      )}
 
-                    <div className="flex items-center justify-between mt-2">
-                      <div className="flex items-center space-x-2">
+                      <div className="flex items-center justify-between mt-2">
+                        <div className="flex items-center space-x-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleUpdateQuantity(item, item.qty - 1)}
+                            disabled={item.qty <= 1}
+                          >
+                            <Minus className="w-3 h-3" />
+                          </Button>
+                          <span className="w-8 text-center text-sm">{item.qty}</span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleUpdateQuantity(item, item.qty + 1)}
+                          >
+                            <Plus className="w-3 h-3" />
+                          </Button>
+                        </div>
+                        
                         <Button
-                          variant="outline"
+                          variant="ghost"
                           size="sm"
-                          onClick={() => handleUpdateQuantity(item, item.qty - 1)}
-                          disabled={item.qty <= 1}
+                          onClick={() => handleRemoveItem(item)}
+                          className="text-destructive hover:text-destructive"
                         >
-                          <Minus className="w-3 h-3" />
-                        </Button>
-                        <span className="w-8 text-center text-sm">{item.qty}</span>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleUpdateQuantity(item, item.qty + 1)}
-                        >
-                          <Plus className="w-3 h-3" />
+                          <Trash2 className="w-4 h-4" />
                         </Button>
                       </div>
-                      
+                    </div>
+
+                    <div className="text-right">
+                      <div className="font-medium">
+                        {formatPrice((item.price + calculateOptionsPrice(item.options)) * item.qty)}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {items.length > 0 && (
+              <>
+                {/* Coupon Section */}
+                <div className="space-y-3">
+                  <Label className="text-sm font-medium flex items-center gap-2">
+                    <Tag className="w-4 h-4" />
+                    Cupom de desconto
+                  </Label>
+                  
+                  {couponCode ? (
+                    <div className="flex items-center justify-between p-3 bg-accent/10 rounded-lg">
+                      <div>
+                        <span className="text-sm font-medium">Cupom: {couponCode}</span>
+                        <div className="text-xs text-muted-foreground">
+                          Desconto: {formatPrice(discounts)}
+                        </div>
+                      </div>
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => handleRemoveItem(item)}
-                        className="text-destructive hover:text-destructive"
+                        onClick={removeCoupon}
                       >
                         <Trash2 className="w-4 h-4" />
                       </Button>
                     </div>
-                  </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Código do cupom"
+                        value={couponInput}
+                        onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={handleApplyCoupon}
+                        disabled={!couponInput.trim()}
+                      >
+                        Aplicar
+                      </Button>
+                    </div>
+                  )}
+                </div>
 
-                  <div className="text-right">
-                    <div className="font-medium">
-                      {formatPrice((item.price + item.options.reduce((sum, opt) => sum + opt.price, 0)) * item.qty)}
+                {/* Customer Info */}
+                <div className="space-y-3">
+                  <Label className="text-sm font-medium">Informações do cliente (opcional)</Label>
+                  
+                  <div className="space-y-3">
+                    <div className="relative">
+                      <User className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                      <Input
+                        placeholder="Seu nome"
+                        value={customerName}
+                        onChange={(e) => setCustomerName(e.target.value)}
+                        className="pl-10"
+                      />
+                    </div>
+                    
+                    <div className="relative">
+                      <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                      <Input
+                        placeholder="Seu telefone"
+                        value={customerPhone}
+                        onChange={(e) => setCustomerPhone(e.target.value)}
+                        className="pl-10"
+                      />
                     </div>
                   </div>
                 </div>
-              ))}
-            </div>
-          )}
-
-          {items.length > 0 && (
-            <>
-              {/* Coupon Section */}
-              <div className="space-y-3">
-                <Label className="text-sm font-medium flex items-center gap-2">
-                  <Tag className="w-4 h-4" />
-                  Cupom de desconto
-                </Label>
-                
-                {couponCode ? (
-                  <div className="flex items-center justify-between p-3 bg-accent/10 rounded-lg">
-                    <div>
-                      <span className="text-sm font-medium">Cupom: {couponCode}</span>
-                      <div className="text-xs text-muted-foreground">
-                        Desconto: {formatPrice(discounts)}
-                      </div>
-                    </div>
+
+                {/* Tip */}
+                <div className="space-y-3">
+                  <Label className="text-sm font-medium flex items-center gap-2">
+                    <HandCoins className="w-4 h-4" />
+                    Gorjeta (opcional)
+                  </Label>
+
+                  <div className="grid grid-cols-5 gap-2">
                     <Button
-                      variant="ghost"
+                      variant={!tip ? 'default' : 'outline'}
                       size="sm"
-                      onClick={removeCoupon}
+                      onClick={() => setTip(undefined)}
                     >
-                      <Trash2 className="w-4 h-4" />
+                      Sem
                     </Button>
-                  </div>
-                ) : (
-                  <div className="flex gap-2">
-                    <Input
-                      placeholder="Código do cupom"
-                      value={couponInput}
-                      onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
-                    />
+                    {TIP_PERCENTS.map((percent) => (
+                      <Button
+                        key={percent}
+                        variant={tip?.type === 'percent' && tip.value === percent ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setTip({ type: 'percent', value: percent })}
+                      >
+                        {percent}%
+                      </Button>
+                    ))}
                     <Button
-                      variant="outline"
-                      onClick={handleApplyCoupon}
-                      disabled={!couponInput.trim()}
+                      variant={tip?.type === 'fixed' ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => handleCustomTip(customTip)}
                     >
-                      Aplicar
+                      Outro
                     </Button>
                   </div>
-                )}
-              </div>
 
-              {/* Customer Info */}
-              <div className="space-y-3">
-                <Label className="text-sm font-medium">Informações do cliente (opcional)</Label>
-                
-                <div className="space-y-3">
-                  <div className="relative">
-                    <User className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-                    <Input
-                      placeholder="Seu nome"
-                      value={customerName}
-                      onChange={(e) => setCustomerName(e.target.value)}
-                      className="pl-10"
-                    />
-                  </div>
-                  
-                  <div className="relative">
-                    <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                  {tip?.type === 'fixed' && (
                     <Input
-                      placeholder="Seu telefone"
-                      value={customerPhone}
-                      onChange={(e) => setCustomerPhone(e.target.value)}
-                      className="pl-10"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Valor da gorjeta (R$)"
+                      value={customTip}
+                      onChange={(e) => handleCustomTip(e.target.value)}
                     />
-                  </div>
+                  )}
                 </div>
-              </div>
 
-              {/* Order Summary */}
-              <div className="space-y-2 p-4 bg-muted/50 rounded-lg">
-                <div className="flex justify-between text-sm">
-                  <span>Subtotal:</span>
-                  <span>{formatPrice(subtotal)}</span>
-                </div>
-                
-                {discounts > 0 && (
-                  <div className="flex justify-between text-sm text-accent">
-                    <span>Desconto:</span>
-                    <span>-{formatPrice(discounts)}</span>
+                {hasServiceFee && (
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label htmlFor="service-fee" className="text-sm font-medium">
+                        Taxa de serviço ({settings?.dineIn.serviceFeePercent}%)
+                      </Label>
+                      <p className="text-xs text-muted-foreground">Opcional, vai para a equipe do salão</p>
+                    </div>
+                    <Switch
+                      id="service-fee"
+                      checked={includeServiceFee}
+                      onCheckedChange={setIncludeServiceFee}
+                    />
                   </div>
                 )}
-                
-                {fees.service && fees.service > 0 && (
+
+                {/* Order Summary */}
+                <div className="space-y-2 p-4 bg-muted/50 rounded-lg">
                   <div className="flex justify-between text-sm">
-                    <span>Taxa de serviço (10%):</span>
-                    <span>{formatPrice(fees.service)}</span>
+                    <span>Subtotal:</span>
+                    <span>{formatPrice(subtotal)}</span>
+                  </div>
+                  
+                  {discounts > 0 && (
+                    <div className="flex justify-between text-sm text-accent">
+                      <span>Desconto:</span>
+                      <span>-{formatPrice(discounts)}</span>
+                    </div>
+                  )}
+                  
+                  {fees.service && fees.service > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span>Taxa de serviço ({settings?.dineIn.serviceFeePercent}%):</span>
+                      <span>{formatPrice(fees.service)}</span>
+                    </div>
+                  )}
+                  
+                  {fees.delivery && fees.delivery > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span>Taxa de entrega:</span>
+                      <span>{formatPrice(fees.delivery)}</span>
+                    </div>
+                  )}
+
+                  {tipAmount > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span>Gorjeta{tip?.type === 'percent' ? ` (${tip.value}%)` : ''}:</span>
+                      <span>{formatPrice(tipAmount)}</span>
+                    </div>
+                  )}
+                  
+                  <Separator />
+                  
+                  <div className="flex justify-between font-bold text-lg">
+                    <span>Total:</span>
+                    <span className="text-primary">{formatPrice(total)}</span>
+                  </div>
+                </div>
+
+                {scheduledFor && (
+                  <div className="flex items-center gap-2 p-3 bg-warning/10 rounded-lg text-sm">
+                    <Clock className="w-4 h-4" />
+                    <span>
+                      Pedido agendado para {formatOpeningTime(scheduledFor, settings?.timezone ?? 'America/Sao_Paulo')}
+                    </span>
                   </div>
                 )}
-                
-                {fees.delivery && fees.delivery > 0 && (
-                  <div className="flex justify-between text-sm">
-                    <span>Taxa de entrega:</span>
-                    <span>{formatPrice(fees.delivery)}</span>
+
+                {isPixEnabled && (
+                  <div className="space-y-3">
+                    <Label className="text-sm font-medium flex items-center gap-2">
+                      <Wallet className="w-4 h-4" />
+                      Pagamento
+                    </Label>
+                    <RadioGroup
+                      value={payWithPix ? 'pix' : 'later'}
+                      onValueChange={(value) => setPayWithPix(value === 'pix')}
+                    >
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value="pix" id="pay-pix" />
+                        <Label htmlFor="pay-pix">Pix agora</Label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value="later" id="pay-later" />
+                        <Label htmlFor="pay-later">
+                          {channel === 'delivery' ? 'Pagar na entrega' : 'Pagar no caixa'}
+                        </Label>
+                      </div>
+                    </RadioGroup>
                   </div>
                 )}
-                
-                <Separator />
-                
-                <div className="flex justify-between font-bold text-lg">
-                  <span>Total:</span>
-                  <span className="text-primary">{formatPrice(total)}</span>
-                </div>
-              </div>
 
-              {/* Place Order Button */}
-              <Button
-                className="w-full btn-primary"
-                onClick={handlePlaceOrder}
-                disabled={isPlacingOrder}
-                size="lg"
-              >
-                {isPlacingOrder ? 'Enviando pedido...' : 'Fazer Pedido'}
-              </Button>
-            </>
-          )}
-        </div>
+                {/* Place Order Button */}
+                <Button
+                  className="w-full btn-primary"
+                  onClick={handlePlaceOrder}
+                  disabled={isPlacingOrder}
+                  size="lg"
+                >
+                  {isPlacingOrder ? 'Enviando pedido...' : scheduledFor ? 'Agendar Pedido' : 'Fazer Pedido'}
+                </Button>
+              </>
+            )}
+          </div>
+        )}
       </SheetContent>
     </Sheet>
   );
@@ -4,14 +4,22 @@ import { Badge } from '@/components/ui/badge';
 import { Search, Filter } from 'lucide-react';
 import { ProductCard } from './ProductCard';
 import { createMockService } from '@/lib/mock-service';
-import type { Product } from '@/lib/types';
+import type { Category, OrderChannel, Product } from '@/lib/types';
 
 interface MenuListProps {
   restaurantId: string;
+  // Only products on this channel's menu are listed
+  channel: OrderChannel;
+  // Evaluate product schedules at this time instead of now, e.g. the opening a scheduled order waits for
+  availableAt?: Date;
 }
 
-export function MenuList({ restaurantId }: MenuListProps) {
+// Reload so dayparts (breakfast, lunch specials) come and go without a page refresh
+const SCHEDULE_REFRESH_MS = 60000;
+
+export function MenuList({ restaurantId, channel, availableAt }: MenuListProps) {
   const [products, setProducts] = useState<Product[]>([]);
+  const [menuCategories, setMenuCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
@@ -21,8 +29,15 @@ export function MenuList({ restaurantId }: MenuListProps) {
     
     const loadProducts = async () => {
       try {
-        const productList = await mockService.getProducts();
-        setProducts(productList);
+        // Products arrive sorted by position; sections follow the stored category order
+        const [productList, categoryList] = await Promise.all([
+          mockService.getProducts(channel, availableAt),
+          mockService.getCategories({ visible: true })
+        ]);
+        // Products of hidden categories stay off the menu
+        const visibleIds = new Set(categoryList.map(category => category.id));
+        setProducts(productList.filter(product => visibleIds.has(product.categoryId)));
+        setMenuCategories(categoryList);
       } catch (error) {
         console.error('Error loading products:', error);
       } finally {
@@ -31,17 +46,17 @@ export function MenuList({ restaurantId }: MenuListProps) {
     };
 
     loadProducts();
-  }, [restaurantId]);
 
-  const categories = [
-    'all',
-    ...Array.from(new Set(products.map(p => p.category)))
-  ];
+    const interval = setInterval(loadProducts, SCHEDULE_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [restaurantId, channel, availableAt]);
+
+  const categories = menuCategories.filter(category => products.some(p => p.categoryId === category.id));
 
   const filteredProducts = products.filter(product => {
     const matchesSearch = product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          product.description.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesCategory = selectedCategory === 'all' || product.category === selectedCategory;
+    const matchesCategory = selectedCategory === 'all' || product.categoryId === selectedCategory;
     return matchesSearch && matchesCategory;
   });
 
@@ -83,14 +98,22 @@ export function MenuList({ restaurantId }: MenuListProps) {
 
           {/* Category Pills */}
           <div className="flex overflow-x-auto gap-2 pb-2">
+            <Badge
+              variant={selectedCategory === 'all' ? "default" : "outline"}
+              className="cursor-pointer whitespace-nowrap"
+              onClick={() => setSelectedCategory('all')}
+            >
+              Todos
+            </Badge>
             {categories.map((category) => (
               <Badge
-                key={category}
-                variant={selectedCategory === category ? "default" : "outline"}
+                key={category.id}
+                variant={selectedCategory === category.id ? "default" : "outline"}
                 className="cursor-pointer whitespace-nowrap"
-                onClick={() => setSelectedCategory(category)}
+                onClick={() => setSelectedCategory(category.id)}
               >
-                {category === 'all' ? 'Todos' : category}
+                {category.icon && <span className="mr-1">{category.icon}</span>}
+                {category.name}
               </Badge>
             ))}
           </div>
@@ -135,19 +158,32 @@ export function MenuList({ restaurantId }: MenuListProps) {
         )}
 
         {/* Regular Products by Category */}
-        {categories.filter(cat => cat !== 'all').map((category) => {
-          const categoryProducts = regularProducts.filter(p => p.category === category);
+        {categories.map((category) => {
+          const categoryProducts = regularProducts.filter(p => p.categoryId === category.id);
           
           if (categoryProducts.length === 0) return null;
 
           return (
-            <section key={category} className="animate-fade-in">
+            <section key={category.id} className="animate-fade-in">
+              {category.imageUrl && (
+                <img
+                  src={category.imageUrl}
+                  alt={category.name}
+                  className="w-full h-32 object-cover rounded-lg mb-4"
+                />
+              )}
               <div className="flex items-center gap-2 mb-4">
-                <h2 className="text-2xl font-bold">{category}</h2>
+                <h2 className="text-2xl font-bold">
+                  {category.icon && <span className="mr-2">{category.icon}</span>}
+                  {category.name}
+                </h2>
                 <Badge variant="outline">
                   {categoryProducts.length}
                 </Badge>
               </div>
+              {category.description && (
+                <p className="text-sm text-muted-foreground -mt-2 mb-4">{category.description}</p>
+              )}
               <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
                 {categoryProducts.map((product) => (
                   <ProductCard key={product.id} product={product} />
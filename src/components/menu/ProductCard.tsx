@@ -5,10 +5,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-import { Checkbox } from '@/components/ui/checkbox';
-import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Star, Plus, Minus } from 'lucide-react';
+import { ProductOptionsSelector } from '@/components/menu/ProductOptionsSelector';
 import { useCartStore } from '@/lib/store';
+import { calculateOptionsPrice, validateOptionRules } from '@/lib/option-rules';
 import type { Product, SelectedOption } from '@/lib/types';
 
 interface ProductCardProps {
@@ -24,12 +24,16 @@ export function ProductCard({ product }: ProductCardProps) {
 
   const formatPrice = (price: number) => `R$ ${(price / 100).toFixed(2)}`;
 
+  const optionViolations = validateOptionRules(product.options, selectedOptions);
+  const canAddToCart = optionViolations.length === 0;
+
   const calculateTotalPrice = () => {
-    const optionsPrice = selectedOptions.reduce((sum, option) => sum + option.price, 0);
-    return product.price + optionsPrice;
+    return product.price + calculateOptionsPrice(selectedOptions);
   };
 
   const handleAddToCart = () => {
+    if (!canAddToCart) return;
+
     addItem({
       productId: product.id,
       name: product.name,
@@ -47,30 +51,6 @@ export function ProductCard({ product }: ProductCardProps) {
     setIsOpen(false);
   };
 
-  const handleOptionChange = (optionId: string, choiceId: string, choiceName: string, price: number) => {
-    setSelectedOptions(prev => {
-      const option = product.options?.find(opt => opt.id === optionId);
-      if (!option) return prev;
-
-      const existing = prev.find(opt => opt.id === optionId);
-      
-      if (option.maxSelections === 1) {
-        // Radio behavior - replace existing
-        return [
-          ...prev.filter(opt => opt.id !== optionId),
-          { id: optionId, name: option.name, choice: choiceName, price }
-        ];
-      } else {
-        // Checkbox behavior - toggle
-        if (existing) {
-          return prev.filter(opt => opt.id !== optionId);
-        } else {
-          return [...prev, { id: optionId, name: option.name, choice: choiceName, price }];
-        }
-      }
-    });
-  };
-
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
       <DialogTrigger asChild>
@@ -152,74 +132,11 @@ export function ProductCard({ product }: ProductCardProps) {
 
           {/* Options */}
           {product.options && product.options.length > 0 && (
-            <div className="space-y-4">
-              <h3 className="font-semibold">Personalize seu pedido</h3>
-              
-              {product.options.map((option) => (
-                <div key={option.id} className="space-y-2">
-                  <Label className="text-sm font-medium">
-                    {option.name}
-                    {option.required && <span className="text-destructive ml-1">*</span>}
-                  </Label>
-                  
-                  {option.maxSelections === 1 ? (
-                    <RadioGroup
-                      value={selectedOptions.find(opt => opt.id === option.id)?.choice || ''}
-                      onValueChange={(value) => {
-                        const choice = option.choices.find(c => c.id === value);
-                        if (choice) {
-                          handleOptionChange(option.id, choice.id, choice.name, choice.price);
-                        }
-                      }}
-                    >
-                      {option.choices.map((choice) => (
-                        <div key={choice.id} className="flex items-center space-x-2">
-                          <RadioGroupItem value={choice.id} id={choice.id} />
-                          <Label htmlFor={choice.id} className="flex-1 cursor-pointer">
-                            <div className="flex justify-between">
-                              <span>{choice.name}</span>
-                              {choice.price > 0 && (
-                                <span className="font-medium">+{formatPrice(choice.price)}</span>
-                              )}
-                            </div>
-                          </Label>
-                        </div>
-                      ))}
-                    </RadioGroup>
-                  ) : (
-                    <div className="space-y-2">
-                      {option.choices.map((choice) => (
-                        <div key={choice.id} className="flex items-center space-x-2">
-                          <Checkbox
-                            id={choice.id}
-                            checked={selectedOptions.some(opt => 
-                              opt.id === option.id && opt.choice === choice.name
-                            )}
-                            onCheckedChange={(checked) => {
-                              if (checked) {
-                                handleOptionChange(option.id, choice.id, choice.name, choice.price);
-                              } else {
-                                setSelectedOptions(prev => 
-                                  prev.filter(opt => !(opt.id === option.id && opt.choice === choice.name))
-                                );
-                              }
-                            }}
-                          />
-                          <Label htmlFor={choice.id} className="flex-1 cursor-pointer">
-                            <div className="flex justify-between">
-                              <span>{choice.name}</span>
-                              {choice.price > 0 && (
-                                <span className="font-medium">+{formatPrice(choice.price)}</span>
-                              )}
-                            </div>
-                          </Label>
-                        </div>
-                      ))}
-                    </div>
-                  )}
-                </div>
-              ))}
-            </div>
+            <ProductOptionsSelector
+              options={product.options}
+              selectedOptions={selectedOptions}
+              onChange={setSelectedOptions}
+            />
           )}
 
           {/* Notes */}
@@ -265,6 +182,7 @@ export function ProductCard({ product }: ProductCardProps) {
               <Button 
                 className="btn-primary mt-2"
                 onClick={handleAddToCart}
+                disabled={!canAddToCart}
               >
                 Adicionar ao Pedido
               </Button>
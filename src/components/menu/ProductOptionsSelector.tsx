@@ -0,0 +1,193 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Plus, Minus } from 'lucide-react';
+import {
+  countSelections,
+  getSelectionLimits,
+  isSingleChoice,
+  validateOptionRules
+} from '@/lib/option-rules';
+import type { ProductChoice, ProductOption, SelectedOption } from '@/lib/types';
+
+interface ProductOptionsSelectorProps {
+  options: ProductOption[];
+  selectedOptions: SelectedOption[];
+  onChange: (selectedOptions: SelectedOption[]) => void;
+}
+
+// Option groups of the product dialog; also used by the admin editor preview
+export function ProductOptionsSelector({ options, selectedOptions, onChange }: ProductOptionsSelectorProps) {
+  const formatPrice = (price: number) => `R$ ${(price / 100).toFixed(2)}`;
+
+  const optionViolations = validateOptionRules(options, selectedOptions);
+
+  const toSelection = (option: ProductOption, choice: ProductChoice, qty = 1): SelectedOption => ({
+    id: option.id,
+    choiceId: choice.id,
+    name: option.name,
+    choice: choice.name,
+    price: choice.price,
+    ...(qty > 1 && { qty }),
+  });
+
+  const withoutChoice = (option: ProductOption, choice: ProductChoice) =>
+    selectedOptions.filter(opt => !(opt.id === option.id && opt.choiceId === choice.id));
+
+  // Radio behavior - replace the option's current choice
+  const handleSingleChoice = (option: ProductOption, choice: ProductChoice) => {
+    onChange([
+      ...selectedOptions.filter(opt => opt.id !== option.id),
+      toSelection(option, choice)
+    ]);
+  };
+
+  // Checkbox behavior - toggle a single choice, keeping the others
+  const handleToggleChoice = (option: ProductOption, choice: ProductChoice, checked: boolean) => {
+    const others = withoutChoice(option, choice);
+    onChange(checked ? [...others, toSelection(option, choice)] : others);
+  };
+
+  const handleChoiceQtyChange = (option: ProductOption, choice: ProductChoice, qty: number) => {
+    const others = withoutChoice(option, choice);
+    onChange(qty > 0 ? [...others, toSelection(option, choice, qty)] : others);
+  };
+
+  const getChoiceQty = (optionId: string, choiceId: string) => {
+    const selection = selectedOptions.find(opt => opt.id === optionId && opt.choiceId === choiceId);
+    return selection ? selection.qty ?? 1 : 0;
+  };
+
+  // Tracked choices at zero stay listed but cannot be picked, the API refuses them
+  const isSoldOut = (choice: ProductChoice) => choice.stock === 0;
+
+  const renderChoiceLabel = (choice: ProductChoice) => (
+    <div className="flex justify-between">
+      <span className={isSoldOut(choice) ? 'text-muted-foreground line-through' : undefined}>{choice.name}</span>
+      {isSoldOut(choice) ? (
+        <span className="text-xs text-muted-foreground">Esgotado</span>
+      ) : (
+        choice.price > 0 && <span className="font-medium">+{formatPrice(choice.price)}</span>
+      )}
+    </div>
+  );
+
+  const describeLimits = (option: ProductOption) => {
+    const { min, max } = getSelectionLimits(option);
+    if (min > 0 && min === max) return `Escolha ${min}`;
+    if (min > 0) return `Escolha de ${min} a ${max}`;
+    return `Escolha até ${max}`;
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-semibold">Personalize seu pedido</h3>
+
+      {options.map((option) => {
+        const { max } = getSelectionLimits(option);
+        const count = countSelections(option.id, selectedOptions);
+        const maxPerChoice = option.maxQuantityPerChoice ?? 1;
+        const violation = optionViolations.find(v => v.optionId === option.id);
+
+        return (
+          <div key={option.id} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-medium">
+                {option.name}
+                {option.required && <span className="text-destructive ml-1">*</span>}
+              </Label>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">{describeLimits(option)}</span>
+                <Badge variant={violation ? 'destructive' : 'outline'} className="text-xs">
+                  {count}/{max}
+                </Badge>
+              </div>
+            </div>
+
+            {isSingleChoice(option) ? (
+              <RadioGroup
+                value={selectedOptions.find(opt => opt.id === option.id)?.choiceId || ''}
+                onValueChange={(value) => {
+                  const choice = option.choices.find(c => c.id === value);
+                  if (choice) {
+                    handleSingleChoice(option, choice);
+                  }
+                }}
+              >
+                {option.choices.map((choice) => (
+                  <div key={choice.id} className="flex items-center space-x-2">
+                    <RadioGroupItem
+                      value={choice.id}
+                      id={`${option.id}-${choice.id}`}
+                      disabled={isSoldOut(choice)}
+                    />
+                    <Label htmlFor={`${option.id}-${choice.id}`} className="flex-1 cursor-pointer">
+                      {renderChoiceLabel(choice)}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            ) : (
+              <div className="space-y-2">
+                {option.choices.map((choice) => {
+                  const choiceQty = getChoiceQty(option.id, choice.id);
+                  const limitReached = count >= max;
+
+                  return (
+                    <div key={choice.id} className="flex items-center space-x-2">
+                      {maxPerChoice > 1 ? (
+                        <div className="flex items-center space-x-1">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            onClick={() => handleChoiceQtyChange(option, choice, choiceQty - 1)}
+                            disabled={choiceQty === 0}
+                          >
+                            <Minus className="w-3 h-3" />
+                          </Button>
+                          <span className="w-5 text-center text-sm">{choiceQty}</span>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            onClick={() => handleChoiceQtyChange(option, choice, choiceQty + 1)}
+                            disabled={
+                              limitReached ||
+                              choiceQty >= maxPerChoice ||
+                              (choice.stock !== undefined && choiceQty >= choice.stock)
+                            }
+                          >
+                            <Plus className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <Checkbox
+                          id={`${option.id}-${choice.id}`}
+                          checked={choiceQty > 0}
+                          disabled={choiceQty === 0 && (limitReached || isSoldOut(choice))}
+                          onCheckedChange={(checked) => handleToggleChoice(option, choice, checked === true)}
+                        />
+                      )}
+                      <Label htmlFor={`${option.id}-${choice.id}`} className="flex-1 cursor-pointer">
+                        {renderChoiceLabel(choice)}
+                      </Label>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {violation && (
+              <p className="text-xs text-destructive">{violation.message}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
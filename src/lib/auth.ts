@@ -0,0 +1,72 @@
+// Staff session for the admin area
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { AdminUser, UserRole } from './types';
+
+// Development builds without an API sign in against demo accounts; production builds drop that branch
+const USE_DEMO_AUTH = import.meta.env.DEV && !import.meta.env.VITE_API_URL;
+const API_URL = import.meta.env.VITE_API_URL || '/api/v1';
+
+interface AuthStore {
+  user: AdminUser | null;
+  signIn: (restaurantId: string, email: string, password: string) => Promise<AdminUser>;
+  signOut: () => Promise<void>;
+}
+
+// Firebase Auth sign in; the role comes from the membership the API checks on every request
+const signInWithFirebase = async (restaurantId: string, email: string, password: string): Promise<AdminUser> => {
+  const [{ signInWithEmailAndPassword, signOut }, { auth }] = await Promise.all([
+    import('firebase/auth'),
+    import('./firebase'),
+  ]);
+
+  const credential = await signInWithEmailAndPassword(auth, email.trim(), password);
+  const response = await fetch(`${API_URL}/restaurants/${encodeURIComponent(restaurantId)}/members/me`, {
+    headers: { Authorization: `Bearer ${await credential.user.getIdToken()}` },
+  });
+
+  if (!response.ok) {
+    await signOut(auth);
+    throw new Error('User is not a member of this restaurant');
+  }
+
+  const { data: member } = await response.json();
+  return {
+    id: member.id,
+    email: member.email ?? credential.user.email ?? email.trim(),
+    displayName: member.displayName ?? credential.user.displayName ?? '',
+    role: member.role,
+    restaurantId,
+  };
+};
+
+export const useAuthStore = create<AuthStore>()(
+  persist(
+    (set) => ({
+      user: null,
+
+      signIn: async (restaurantId, email, password) => {
+        const user = USE_DEMO_AUTH
+          ? await (await import('./demo-auth')).signInDemo(restaurantId, email, password)
+          : await signInWithFirebase(restaurantId, email, password);
+        set({ user });
+        return user;
+      },
+
+      signOut: async () => {
+        if (!USE_DEMO_AUTH) {
+          const [{ signOut }, { auth }] = await Promise.all([import('firebase/auth'), import('./firebase')]);
+          await signOut(auth);
+        }
+        set({ user: null });
+      },
+    }),
+    {
+      name: 'admin-session',
+    }
+  )
+);
+
+// Same role rules as the API routes
+export const hasRole = (user: AdminUser | null, ...roles: UserRole[]) =>
+  !!user && roles.includes(user.role);
@@ -0,0 +1,49 @@
+// Product availability schedules (dayparts), evaluated in the restaurant timezone
+// Mirrors server/src/utils/availability.ts so the menu hides the same products the API refuses
+import { WEEKDAYS } from './opening-hours';
+import type { AvailabilityWindow, Category, LocalTime, Product, Weekday } from './types';
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const previousWeekday = (weekday: Weekday) =>
+  WEEKDAYS[(WEEKDAYS.indexOf(weekday) + WEEKDAYS.length - 1) % WEEKDAYS.length];
+
+// A window past midnight belongs to the day it starts on, so "sex 18:00-02:00" also covers Saturday 01:00
+export function isInWindow(window: AvailabilityWindow, time: LocalTime): boolean {
+  const onDay = (weekday: Weekday) => !window.days || window.days.includes(weekday);
+
+  if (!window.from || !window.to) return onDay(time.weekday);
+
+  const from = toMinutes(window.from);
+  const to = toMinutes(window.to);
+
+  if (from < to) {
+    return onDay(time.weekday) && time.minutes >= from && time.minutes < to;
+  }
+
+  return (
+    (onDay(time.weekday) && time.minutes >= from) ||
+    (onDay(previousWeekday(time.weekday)) && time.minutes < to)
+  );
+}
+
+export function isWithinSchedule(schedule: AvailabilityWindow[] | undefined, time: LocalTime): boolean {
+  return !schedule?.length || schedule.some((window) => isInWindow(window, time));
+}
+
+// Fills availableNow and rotates isDaySpecial without touching the stored fields
+export function applySchedules(products: Product[], categories: Category[], time: LocalTime): Product[] {
+  const categorySchedules = new Map(categories.map((category) => [category.id, category.schedule]));
+
+  return products.map((product) => ({
+    ...product,
+    availableNow:
+      product.available &&
+      isWithinSchedule(product.schedule, time) &&
+      isWithinSchedule(categorySchedules.get(product.categoryId), time),
+    ...(product.specialDays?.length && { isDaySpecial: product.specialDays.includes(time.weekday) }),
+  }));
+}
@@ -0,0 +1,21 @@
+// Demo staff accounts, only loaded by development builds running without an API (see auth.ts)
+// Production builds sign in with Firebase Auth, so these passwords never ship in the bundle
+import type { AdminUser } from './types';
+
+const demoMembers: (Omit<AdminUser, 'restaurantId'> & { password: string })[] = [
+  { id: 'user-admin', email: 'admin@demo.com', displayName: 'Ana Admin', role: 'admin', password: 'demo123' },
+  { id: 'user-manager', email: 'gerente@demo.com', displayName: 'Gabriel Gerente', role: 'manager', password: 'demo123' },
+  { id: 'user-staff', email: 'equipe@demo.com', displayName: 'Eduarda Equipe', role: 'staff', password: 'demo123' }
+];
+
+export async function signInDemo(restaurantId: string, email: string, password: string): Promise<AdminUser> {
+  await new Promise(resolve => setTimeout(resolve, 500));
+
+  const member = demoMembers.find(m => m.email === email.trim().toLowerCase() && m.password === password);
+  if (!member) {
+    throw new Error('Invalid email or password');
+  }
+
+  const { password: _password, ...user } = member;
+  return { ...user, restaurantId };
+}
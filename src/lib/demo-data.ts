@@ -4,7 +4,46 @@ import pastaImage from '../assets/spaghetti-carbonara.jpg';
 import dessertImage from '../assets/petit-gateau.jpg';
 
 // Demo data for testing the digital menu system
-import type { Product, Table, Menu, Coupon } from './types';
+import type { Product, Category, OptionGroup, Table, Menu, Coupon, Settings, Ingredient } from './types';
+
+export const demoCategories: Category[] = [
+  { id: 'burgers', name: 'Hambúrgueres', icon: '🍔', position: 1, visible: true },
+  { id: 'pizzas', name: 'Pizzas', icon: '🍕', description: 'Massa de fermentação natural, assada no forno a lenha', position: 2, visible: true },
+  { id: 'pastas', name: 'Massas', icon: '🍝', position: 3, visible: true },
+  { id: 'salads', name: 'Saladas', icon: '🥗', position: 4, visible: true },
+  { id: 'drinks', name: 'Bebidas', icon: '🥤', position: 5, visible: true },
+  { id: 'desserts', name: 'Sobremesas', icon: '🍰', position: 6, visible: true },
+  { id: 'coffees', name: 'Cafés', icon: '☕', description: 'Servidos no café da manhã, das 7h às 11h', position: 7, visible: true, schedule: [{ from: '07:00', to: '11:00' }] }
+];
+
+// Ingredient costs in cents per unit, used by the recipes below
+export const demoIngredients: Ingredient[] = [
+  { id: 'ground-beef', name: 'Carne moída', unit: 'g', unitCost: 5.2 },
+  { id: 'brioche-bun', name: 'Pão brioche', unit: 'un', unitCost: 150 },
+  { id: 'cheddar', name: 'Queijo cheddar', unit: 'g', unitCost: 6.5 },
+  { id: 'bacon', name: 'Bacon', unit: 'g', unitCost: 4.8 },
+  { id: 'egg', name: 'Ovo caipira', unit: 'un', unitCost: 90 },
+  { id: 'fresh-pasta', name: 'Massa fresca', unit: 'g', unitCost: 2.2 },
+  { id: 'parmesan', name: 'Queijo parmesão', unit: 'g', unitCost: 12 },
+  { id: 'chocolate', name: 'Chocolate meio amargo', unit: 'g', unitCost: 6 },
+  { id: 'vanilla-ice-cream', name: 'Sorvete de baunilha', unit: 'ml', unitCost: 3 }
+];
+
+// Reusable option groups linked by products through optionGroupIds
+export const demoOptionGroups: OptionGroup[] = [
+  {
+    id: 'extras',
+    name: 'Adicionais',
+    required: false,
+    maxSelections: 3,
+    maxQuantityPerChoice: 2,
+    choices: [
+      { id: 'bacon', name: 'Bacon Crocante', price: 590, recipe: [{ ingredientId: 'bacon', quantity: 40 }] },
+      { id: 'egg', name: 'Ovo Frito', price: 390, recipe: [{ ingredientId: 'egg', quantity: 1 }] },
+      { id: 'cheese-extra', name: 'Queijo Extra', price: 490, recipe: [{ ingredientId: 'cheddar', quantity: 30 }] }
+    ]
+  }
+];
 
 export const demoProducts: Product[] = [
   {
@@ -12,7 +51,7 @@ export const demoProducts: Product[] = [
     name: 'Burger Artesanal',
     description: 'Hambúrguer 180g de carne bovina, queijo cheddar, alface, tomate, cebola roxa e molho especial da casa. Acompanha batata rústica.',
     imageUrl: burgerImage,
-    category: 'Hambúrgueres',
+    categoryId: 'burgers',
     price: 2890, // R$ 28,90
     available: true,
     position: 1,
@@ -28,18 +67,13 @@ export const demoProducts: Product[] = [
           { id: 'medium', name: 'Ao Ponto', price: 0 },
           { id: 'well-done', name: 'Bem Passada', price: 0 }
         ]
-      },
-      {
-        id: 'extras',
-        name: 'Adicionais',
-        required: false,
-        maxSelections: 3,
-        choices: [
-          { id: 'bacon', name: 'Bacon Crocante', price: 590 },
-          { id: 'egg', name: 'Ovo Frito', price: 390 },
-          { id: 'cheese-extra', name: 'Queijo Extra', price: 490 }
-        ]
       }
+    ],
+    optionGroupIds: ['extras'],
+    recipe: [
+      { ingredientId: 'ground-beef', quantity: 180 },
+      { ingredientId: 'brioche-bun', quantity: 1 },
+      { ingredientId: 'cheddar', quantity: 30 }
     ]
   },
   {
@@ -47,7 +81,7 @@ export const demoProducts: Product[] = [
     name: 'Pizza Margherita',
     description: 'Molho de tomate artesanal, mussarela de búfala, manjericão fresco e azeite extravirgem. Massa fermentada por 48h.',
     imageUrl: pizzaImage,
-    category: 'Pizzas',
+    categoryId: 'pizzas',
     price: 3490,
     available: true,
     position: 1,
@@ -81,21 +115,28 @@ export const demoProducts: Product[] = [
     name: 'Spaghetti Carbonara',
     description: 'Massa fresca italiana com molho cremoso, bacon defumado, queijo parmesão e gema de ovo caipira.',
     imageUrl: pastaImage,
-    category: 'Massas',
+    categoryId: 'pastas',
     price: 2690,
     available: true,
     position: 1,
-    isDaySpecial: true
+    specialDays: ['tue', 'thu', 'sat'],
+    recipe: [
+      { ingredientId: 'fresh-pasta', quantity: 150 },
+      { ingredientId: 'bacon', quantity: 50 },
+      { ingredientId: 'parmesan', quantity: 20 },
+      { ingredientId: 'egg', quantity: 1 }
+    ]
   },
   {
     id: 'salad-01',
     name: 'Salada Caesar',
     description: 'Mix de folhas verdes, croutons artesanais, queijo parmesão laminado e molho caesar tradicional.',
     imageUrl: 'https://images.unsplash.com/photo-1546793665-c74683f339c1?w=400&h=300&fit=crop',
-    category: 'Saladas',
+    categoryId: 'salads',
     price: 1890,
     available: true,
     position: 1,
+    schedule: [{ from: '11:00', to: '15:00' }],
     options: [
       {
         id: 'protein-add',
@@ -105,7 +146,7 @@ export const demoProducts: Product[] = [
         choices: [
           { id: 'grilled-chicken', name: 'Frango Grelhado', price: 890 },
           { id: 'grilled-beef', name: 'Carne Grelhada', price: 1290 },
-          { id: 'shrimp', name: 'Camarão Grelhado', price: 1590 }
+          { id: 'shrimp', name: 'Camarão Grelhado', price: 1590, stock: 6, lowStockThreshold: 2 }
         ]
       }
     ]
@@ -114,7 +155,7 @@ export const demoProducts: Product[] = [
     id: 'drink-01',
     name: 'Refrigerante 350ml',
     description: 'Coca-Cola, Guaraná, Fanta ou Sprite gelados.',
-    category: 'Bebidas',
+    categoryId: 'drinks',
     price: 590,
     available: true,
     position: 1,
@@ -137,7 +178,7 @@ export const demoProducts: Product[] = [
     id: 'drink-02',
     name: 'Suco Natural 400ml',
     description: 'Sucos naturais da fruta, preparados na hora sem conservantes.',
-    category: 'Bebidas',
+    categoryId: 'drinks',
     price: 890,
     available: true,
     position: 2,
@@ -174,17 +215,25 @@ export const demoProducts: Product[] = [
     name: 'Petit Gateau',
     description: 'Bolinho de chocolate quente com recheio cremoso, acompanha sorvete de baunilha e calda de frutas vermelhas.',
     imageUrl: dessertImage,
-    category: 'Sobremesas',
+    categoryId: 'desserts',
     price: 1690,
     available: true,
     position: 1,
-    isDaySpecial: true
+    isDaySpecial: true,
+    // Baked in the morning, sold until the batch runs out
+    stock: 12,
+    lowStockThreshold: 4,
+    recipe: [
+      { ingredientId: 'chocolate', quantity: 60 },
+      { ingredientId: 'egg', quantity: 1 },
+      { ingredientId: 'vanilla-ice-cream', quantity: 80 }
+    ]
   },
   {
     id: 'coffee-01',
     name: 'Café Expresso',
     description: 'Café especial torrado na casa, extraído na pressão ideal.',
-    category: 'Cafés',
+    categoryId: 'coffees',
     price: 490,
     available: true,
     position: 1,
@@ -216,20 +265,23 @@ export const demoTables: Table[] = [
   { id: 'table-10', number: '10', active: true }
 ];
 
-export const demoMenu: Menu = {
-  id: 'menu-01',
-  active: true,
-  categories: [
-    { name: 'Hambúrgueres', position: 1 },
-    { name: 'Pizzas', position: 2 },
-    { name: 'Massas', position: 3 },
-    { name: 'Saladas', position: 4 },
-    { name: 'Bebidas', position: 5 },
-    { name: 'Sobremesas', position: 6 },
-    { name: 'Cafés', position: 7 }
-  ],
-  visibility: ['dine_in', 'takeaway', 'delivery']
-};
+// Full menu at the restaurant; delivery gets a reduced one with dishes that travel well
+export const demoMenus: Menu[] = [
+  {
+    id: 'menu-01',
+    name: 'Cardápio completo',
+    active: true,
+    productIds: ['burger-01', 'pizza-01', 'pasta-01', 'salad-01', 'drink-01', 'drink-02', 'dessert-01', 'coffee-01'],
+    visibility: ['dine_in', 'takeaway']
+  },
+  {
+    id: 'menu-delivery',
+    name: 'Delivery',
+    active: true,
+    productIds: ['burger-01', 'pizza-01', 'pasta-01', 'drink-01', 'dessert-01'],
+    visibility: ['delivery']
+  }
+];
 
 export const demoCoupons: Coupon[] = [
   {
@@ -263,12 +315,65 @@ export const demoCoupons: Coupon[] = [
   }
 ];
 
+export const demoSettings: Settings = {
+  delivery: {
+    enabled: true,
+    feeType: 'fixed',
+    feeValue: 590 // R$ 5,90
+  },
+  dineIn: {
+    serviceFeePercent: 10
+  },
+  pickup: {
+    enabled: true
+  },
+  whatsapp: {
+    enabled: false
+  },
+  pix: {
+    enabled: true,
+    key: 'pix@cardapio-demo.com.br',
+    merchantName: 'Cardapio Demo',
+    merchantCity: 'Uberlandia'
+  },
+  timezone: 'America/Sao_Paulo',
+  orderNumbers: {
+    resetDaily: true,
+    prefixes: {
+      takeaway: 'R',
+      delivery: 'D'
+    }
+  },
+  prepTimeMinutes: 20,
+  openingHours: {
+    enabled: true,
+    week: {
+      sun: [{ open: '11:00', close: '16:00' }],
+      mon: [{ open: '11:00', close: '23:00' }],
+      tue: [{ open: '11:00', close: '23:00' }],
+      wed: [{ open: '11:00', close: '23:00' }],
+      thu: [{ open: '11:00', close: '23:00' }],
+      fri: [{ open: '11:00', close: '15:00' }, { open: '18:00', close: '01:00' }],
+      sat: [{ open: '11:00', close: '15:00' }, { open: '18:00', close: '01:00' }]
+    },
+    exceptions: [
+      { date: '2026-12-25', shifts: [], label: 'Natal' },
+      { date: '2027-01-01', shifts: [], label: 'Ano Novo' }
+    ],
+    scheduledOrders: {
+      enabled: true
+    }
+  }
+};
+
 // Helper function to get demo data by restaurant ID
 export function getDemoData(restaurantId: string) {
   return {
     products: demoProducts,
+    categories: demoCategories,
     tables: demoTables,
-    menu: demoMenu,
-    coupons: demoCoupons
+    menus: demoMenus,
+    coupons: demoCoupons,
+    settings: demoSettings
   };
 }
\ No newline at end of file
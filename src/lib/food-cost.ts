@@ -0,0 +1,234 @@
+// Food cost from recipes at the current ingredient costs, and gross profit of the products sold
+// Mirrors server/src/utils/foodCost.ts and server/src/utils/sales.ts so the mock reports like the API
+import type {
+  Category,
+  Ingredient,
+  IngredientUnit,
+  Order,
+  Product,
+  ProductChoice,
+  ProductCost,
+  ProfitLine,
+  ProfitReport,
+  RecipeLine,
+} from './types';
+
+export const UNCATEGORIZED_NAME = 'Sem categoria';
+
+export const ingredientUnitLabels: Record<IngredientUnit, string> = {
+  g: 'grama (g)',
+  kg: 'quilo (kg)',
+  ml: 'mililitro (ml)',
+  l: 'litro (l)',
+  un: 'unidade (un)',
+};
+
+export interface ProductSales {
+  productId: string;
+  name: string;
+  quantity: number;
+  revenue: number; // base price times quantity; options are kept apart
+  optionsRevenue: number;
+  discounts: number; // share of the coupon discounts of its orders
+  choices: { optionId: string; choiceId: string; quantity: number }[];
+}
+
+// Coupon discount of an order split across its lines by their totals, in whole cents; the last line
+// takes what rounding left over
+function allocateDiscounts(order: Order): number[] {
+  const lineTotals = order.items.map(
+    (item) => (item.unitPrice + item.options.reduce((sum, option) => sum + option.price * (option.qty ?? 1), 0)) * item.qty
+  );
+  const subtotal = lineTotals.reduce((sum, total) => sum + total, 0);
+  const discount = Math.min(order.amounts.discounts ?? 0, subtotal);
+
+  if (discount <= 0) return lineTotals.map(() => 0);
+
+  let allocated = 0;
+  return lineTotals.map((total, index) => {
+    const share = index === lineTotals.length - 1 ? discount - allocated : Math.floor((discount * total) / subtotal);
+    allocated += share;
+    return share;
+  });
+}
+
+// Sum the order lines per product, with the units sold of each chosen option
+export function summarizeProductSales(orders: Order[]): ProductSales[] {
+  const sales = new Map<string, ProductSales>();
+
+  orders.forEach((order) => {
+    const discounts = allocateDiscounts(order);
+
+    order.items.forEach((item, index) => {
+      const stats = sales.get(item.productId) ?? {
+        productId: item.productId,
+        name: item.name,
+        quantity: 0,
+        revenue: 0,
+        optionsRevenue: 0,
+        discounts: 0,
+        choices: [],
+      };
+
+      stats.quantity += item.qty;
+      stats.revenue += item.unitPrice * item.qty;
+      stats.discounts += discounts[index];
+
+      item.options.forEach((option) => {
+        const qty = item.qty * (option.qty ?? 1);
+        stats.optionsRevenue += option.price * qty;
+
+        const choice = stats.choices.find((c) => c.optionId === option.id && c.choiceId === option.choiceId);
+        if (choice) {
+          choice.quantity += qty;
+        } else {
+          stats.choices.push({ optionId: option.id, choiceId: option.choiceId, quantity: qty });
+        }
+      });
+
+      sales.set(item.productId, stats);
+    });
+  });
+
+  return [...sales.values()];
+}
+
+// Cost of one unit of a recipe; ingredients that no longer exist count as zero and are reported
+export function calculateRecipeCost(
+  recipe: RecipeLine[] = [],
+  ingredients: Map<string, Ingredient>
+): { cost: number; missingIngredientIds: string[] } {
+  const missingIngredientIds: string[] = [];
+
+  const cost = recipe.reduce((sum, line) => {
+    const ingredient = ingredients.get(line.ingredientId);
+    if (!ingredient) {
+      missingIngredientIds.push(line.ingredientId);
+      return sum;
+    }
+    return sum + ingredient.unitCost * line.quantity;
+  }, 0);
+
+  return { cost, missingIngredientIds };
+}
+
+export const calculateMarginPercent = (revenue: number, foodCost: number): number | null =>
+  revenue > 0 ? Math.round(((revenue - foodCost) / revenue) * 1000) / 10 : null;
+
+export const getRecipeIngredientIds = (recipe: RecipeLine[] = [], choices: ProductChoice[] = []): string[] => [
+  ...new Set([
+    ...recipe.map((line) => line.ingredientId),
+    ...choices.flatMap((choice) => (choice.recipe ?? []).map((line) => line.ingredientId)),
+  ]),
+];
+
+// Food cost and margin of each product and of its choices that have a recipe
+export function getProductCosts(products: Product[], ingredients: Map<string, Ingredient>): ProductCost[] {
+  return products.map((product) => {
+    const { cost, missingIngredientIds } = calculateRecipeCost(product.recipe, ingredients);
+    const foodCost = Math.round(cost);
+
+    const choices = (product.options ?? []).flatMap((option) =>
+      option.choices
+        .filter((choice) => choice.recipe?.length)
+        .map((choice) => {
+          const choiceCost = calculateRecipeCost(choice.recipe, ingredients);
+          missingIngredientIds.push(...choiceCost.missingIngredientIds);
+
+          return {
+            optionId: option.id,
+            choiceId: choice.id,
+            name: `${option.name} · ${choice.name}`,
+            price: choice.price,
+            foodCost: Math.round(choiceCost.cost),
+            margin: choice.price - Math.round(choiceCost.cost),
+          };
+        })
+    );
+
+    return {
+      productId: product.id,
+      name: product.name,
+      ...(product.categoryId && { categoryId: product.categoryId }),
+      price: product.price,
+      foodCost,
+      margin: product.price - foodCost,
+      marginPercent: calculateMarginPercent(product.price, foodCost),
+      hasRecipe: !!product.recipe?.length,
+      missingIngredientIds: [...new Set(missingIngredientIds)],
+      choices,
+    };
+  });
+}
+
+const toProfitLine = (quantity: number, revenue: number, cost: number): ProfitLine => {
+  const foodCost = Math.round(cost);
+  return {
+    quantity,
+    revenue,
+    foodCost,
+    grossProfit: revenue - foodCost,
+    marginPercent: calculateMarginPercent(revenue, foodCost),
+  };
+};
+
+// Revenue is net of coupon discounts; products sold without a recipe add revenue with no cost and are
+// listed in productsWithoutRecipe
+export function buildProfitReport(
+  sales: ProductSales[],
+  products: Map<string, Product>,
+  categories: Map<string, Category>,
+  ingredients: Map<string, Ingredient>
+): Omit<ProfitReport, 'dateFrom' | 'dateTo'> {
+  const categoryTotals = new Map<string | null, { quantity: number; revenue: number; cost: number }>();
+  const totals = { quantity: 0, revenue: 0, cost: 0 };
+  const productsWithoutRecipe: string[] = [];
+
+  const productLines = sales.map((sale) => {
+    const product = products.get(sale.productId);
+    const revenue = sale.revenue + sale.optionsRevenue - sale.discounts;
+
+    let cost = calculateRecipeCost(product?.recipe, ingredients).cost * sale.quantity;
+    sale.choices.forEach(({ optionId, choiceId, quantity }) => {
+      const choice = product?.options
+        ?.find((option) => option.id === optionId)
+        ?.choices.find((c) => c.id === choiceId);
+      cost += calculateRecipeCost(choice?.recipe, ingredients).cost * quantity;
+    });
+
+    if (!product?.recipe?.length) {
+      productsWithoutRecipe.push(sale.productId);
+    }
+
+    const categoryId = product?.categoryId && categories.has(product.categoryId) ? product.categoryId : null;
+    const category = categoryTotals.get(categoryId) ?? { quantity: 0, revenue: 0, cost: 0 };
+    category.quantity += sale.quantity;
+    category.revenue += revenue;
+    category.cost += cost;
+    categoryTotals.set(categoryId, category);
+
+    totals.quantity += sale.quantity;
+    totals.revenue += revenue;
+    totals.cost += cost;
+
+    return {
+      productId: sale.productId,
+      name: product?.name ?? sale.name,
+      ...(categoryId && { categoryId }),
+      ...toProfitLine(sale.quantity, revenue, cost),
+    };
+  });
+
+  return {
+    products: productLines.sort((a, b) => b.grossProfit - a.grossProfit),
+    categories: [...categoryTotals.entries()]
+      .map(([categoryId, line]) => ({
+        categoryId,
+        name: categoryId ? (categories.get(categoryId) as Category).name : UNCATEGORIZED_NAME,
+        ...toProfitLine(line.quantity, line.revenue, line.cost),
+      }))
+      .sort((a, b) => b.grossProfit - a.grossProfit),
+    totals: toProfitLine(totals.quantity, totals.revenue, totals.cost),
+    productsWithoutRecipe,
+  };
+}
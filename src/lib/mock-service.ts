@@ -2,32 +2,541 @@
 // This simulates the Firebase service using demo data
 import type { 
   Product, 
+  Category,
+  OptionGroup,
   Order, 
   OrderItem, 
+  OrderChannel,
+  OrderStatus,
+  OrderStatusChange,
+  Payment,
+  BillSplit,
+  ServiceFeeChange,
+  Tip,
   Coupon,
-  Table 
+  Settings,
+  Table,
+  Menu,
+  MenuCategory,
+  OpeningStatus,
+  StockAdjustment,
+  StockAdjustmentReason,
+  StockLevel,
+  StockTarget,
+  Ingredient,
+  ProductChoice,
+  ProductCost,
+  ProfitReport,
+  RecipeLine
 } from './types';
-import { demoProducts, demoCoupons, demoTables } from './demo-data';
+import { demoProducts, demoCategories, demoOptionGroups, demoIngredients, demoMenus, demoCoupons, demoTables, demoSettings } from './demo-data';
+import {
+  calculateCouponDiscount,
+  calculateFees,
+  calculateTip,
+  calculateTotal,
+  isChannelEnabled,
+  formatOrderCode,
+  getBusinessDate,
+  getChannelProductIds,
+  sortCategoriesByMenu
+} from './utils';
+import { calculateOptionsPrice, validateOptionRules } from './option-rules';
+import { getLocalTime, getOpenState } from './opening-hours';
+import {
+  applyServiceFee,
+  buildBillSplit,
+  buildPayment,
+  getPaymentSummary,
+  type BillSplitInput,
+  type PaymentInput,
+  type ServiceFeeInput
+} from './payments';
+import { buildPixPayload, toPixTxid, type PixCharge } from './pix';
+import { applySchedules } from './availability';
+import { canTransition, getNextStatus, TERMINAL_STATUSES } from './order-status';
+import {
+  applyStockChanges,
+  buildStockReservations,
+  getStockLevels,
+  preserveChoiceStock,
+  preserveOptionStock,
+  toStockChanges,
+  toStockReservations,
+  type StockChange,
+  type StockChangeResult,
+  type StockDocument,
+  type StockDocumentUpdates
+} from './stock';
+import { buildProfitReport, getProductCosts, getRecipeIngredientIds, summarizeProductSales } from './food-cost';
+
+// Mirrors the filters of GET /orders (OrderQuerySchema), without pagination
+export interface OrderFilters {
+  status?: OrderStatus;
+  channel?: OrderChannel;
+  tableId?: string;
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+// Mirrors POST /stock/adjustments (CreateStockAdjustmentSchema)
+export type StockAdjustmentInput = StockTarget & { note?: string } & (
+  | { reason: 'restock' | 'waste'; qty: number }
+  | { reason: 'count'; quantity: number | null }
+);
+
+interface StockChangeContext {
+  reason: StockAdjustmentReason;
+  orderId?: string;
+  actor?: StockAdjustment['actor'];
+  note?: string;
+}
+
+const filterOrders = (orders: Order[], filters: OrderFilters) =>
+  orders
+    .filter(order =>
+      (!filters.status || order.status === filters.status) &&
+      (!filters.channel || order.channel === filters.channel) &&
+      (!filters.tableId || order.tableId === filters.tableId) &&
+      (!filters.dateFrom || order.createdAt >= filters.dateFrom) &&
+      (!filters.dateTo || order.createdAt <= filters.dateTo)
+    )
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
 
 class MockService {
   private restaurantId: string;
   private orders: Order[] = [];
   private orderIdCounter = 1000;
+  private orderCounter = { value: 0, date: '' };
+  private listeners = new Set<() => void>();
+  // Catalog copies, editable from the admin area
+  private products: Product[] = demoProducts.map(product => ({ ...product }));
+  private categories: Category[] = demoCategories.map(category => ({ ...category }));
+  private optionGroups: OptionGroup[] = demoOptionGroups.map(group => ({ ...group }));
+  private menus: Menu[] = demoMenus.map(menu => ({ ...menu }));
+  private tables: Table[] = demoTables.map(table => ({ ...table }));
+  private settings: Settings = { ...demoSettings };
+  private stockAdjustments: StockAdjustment[] = [];
+  private ingredients: Ingredient[] = demoIngredients.map(ingredient => ({ ...ingredient }));
 
   constructor(restaurantId: string) {
     this.restaurantId = restaurantId;
+    this.loadState();
+
+    // Keep demo orders moving after a reload
+    this.orders
+      .filter(order => !TERMINAL_STATUSES.includes(order.status))
+      .forEach(order => this.simulateOrderProgression(order.id));
+
+    // Sync with other tabs, e.g. the kitchen screen and the customer tracking page
+    window.addEventListener('storage', event => {
+      if (event.key === this.storageKey) {
+        this.loadState();
+        this.listeners.forEach(listener => listener());
+      }
+    });
+  }
+
+  // State is kept in localStorage so tracking links and admin edits survive reloads
+  private get storageKey() {
+    return `mock-service:${this.restaurantId}`;
+  }
+
+  private loadState() {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      if (!stored) return;
+
+      const state = JSON.parse(stored);
+      const toDate = (value: string) => new Date(value);
+
+      this.orders = state.orders.map((order: Order) => ({
+        ...order,
+        createdAt: toDate(order.createdAt as unknown as string),
+        updatedAt: toDate(order.updatedAt as unknown as string),
+        closedAt: order.closedAt ? toDate(order.closedAt as unknown as string) : undefined,
+        scheduledFor: order.scheduledFor ? toDate(order.scheduledFor as unknown as string) : undefined,
+        statusHistory: order.statusHistory?.map(change => ({
+          ...change,
+          at: toDate(change.at as unknown as string)
+        })),
+        payments: order.payments?.map(payment => ({
+          ...payment,
+          createdAt: toDate(payment.createdAt as unknown as string)
+        })),
+        serviceFeeChanges: order.serviceFeeChanges?.map(change => ({
+          ...change,
+          at: toDate(change.at as unknown as string)
+        })),
+        billSplit: order.billSplit
+          ? { ...order.billSplit, createdAt: toDate(order.billSplit.createdAt as unknown as string) }
+          : undefined
+      }));
+      this.orderIdCounter = state.orderIdCounter;
+      this.orderCounter = state.orderCounter;
+      this.products = state.products ?? this.products;
+      this.categories = state.categories ?? this.categories;
+      this.optionGroups = state.optionGroups ?? this.optionGroups;
+      this.menus = state.menus ?? this.menus;
+      this.tables = state.tables ?? this.tables;
+      this.ingredients = state.ingredients ?? this.ingredients;
+      this.stockAdjustments = (state.stockAdjustments ?? []).map((adjustment: StockAdjustment) => ({
+        ...adjustment,
+        createdAt: toDate(adjustment.createdAt as unknown as string)
+      }));
+      // Settings saved by older versions miss newer sections such as opening hours
+      this.settings = { ...this.settings, ...state.settings };
+      // State saved before per-channel menus kept a single menu with the category order
+      this.migrateCategories(state.menu?.categories);
+    } catch (error) {
+      console.error('Error loading mock state:', error);
+    }
+  }
+
+  // Products saved before categories existed only have the category name (like POST /categories/migrate)
+  private migrateCategories(legacyOrder: MenuCategory[] = []) {
+    const categoryIds = new Map(this.categories.map(category => [category.name, category.id]));
+    const legacyNames = this.products
+      .filter(product => !product.categoryId && product.category)
+      .map(product => product.category ?? '');
+
+    if (legacyNames.length === 0) return;
+
+    let position = Math.max(0, ...this.categories.map(category => category.position));
+    sortCategoriesByMenu(legacyNames.filter(name => !categoryIds.has(name)), legacyOrder)
+      .forEach(name => {
+        const category: Category = { id: crypto.randomUUID(), name, position: ++position, visible: true };
+        this.categories.push(category);
+        categoryIds.set(name, category.id);
+      });
+
+    this.products = this.products.map(product =>
+      product.categoryId ? product : { ...product, categoryId: categoryIds.get(product.category ?? '') ?? '' }
+    );
+  }
+
+  private saveState() {
+    localStorage.setItem(this.storageKey, JSON.stringify({
+      orders: this.orders,
+      orderIdCounter: this.orderIdCounter,
+      orderCounter: this.orderCounter,
+      products: this.products,
+      categories: this.categories,
+      optionGroups: this.optionGroups,
+      menus: this.menus,
+      tables: this.tables,
+      settings: this.settings,
+      stockAdjustments: this.stockAdjustments,
+      ingredients: this.ingredients
+    }));
   }
 
   // Products
-  async getProducts(): Promise<Product[]> {
+  async getProducts(channel?: OrderChannel, at: Date = new Date()): Promise<Product[]> {
     // Simulate network delay
     await new Promise(resolve => setTimeout(resolve, 800));
-    return demoProducts.filter(p => p.available);
+
+    // Like ?channel= on the API: only what the channel's menu sells
+    const menuProductIds = channel ? getChannelProductIds(this.menus, channel) : null;
+    return this.withSchedules(
+      this.products
+        .filter(p => !menuProductIds || menuProductIds.has(p.id))
+        .sort((a, b) => a.position - b.position)
+        .map(p => this.resolveReferences(p)),
+      at
+    ).filter(p => p.availableNow);
+  }
+
+  async getAllProducts(): Promise<Product[]> {
+    await new Promise(resolve => setTimeout(resolve, 500));
+    return this.withSchedules(
+      [...this.products]
+        .sort((a, b) => a.position - b.position)
+        .map(p => this.resolveReferences(p))
+    );
   }
 
   async getProduct(productId: string): Promise<Product | null> {
     await new Promise(resolve => setTimeout(resolve, 300));
-    return demoProducts.find(p => p.id === productId) || null;
+    const product = this.products.find(p => p.id === productId);
+    return product ? this.withSchedules([this.resolveReferences(product)])[0] : null;
+  }
+
+  // Evaluate product and category schedules in the restaurant timezone, like the product read routes
+  private withSchedules(products: Product[], at: Date = new Date()): Product[] {
+    return applySchedules(products, this.categories, getLocalTime(at, this.settings.timezone));
+  }
+
+  // Resolve the category name and append linked option groups to the product's own options, like ProductRepository
+  private resolveReferences(product: Product): Product {
+    const category = this.categories.find(category => category.id === product.categoryId)?.name ?? product.category;
+
+    if (!product.optionGroupIds?.length) {
+      return { ...product, category };
+    }
+
+    const linkedOptions = product.optionGroupIds
+      .map(groupId => this.optionGroups.find(group => group.id === groupId))
+      .filter(group => group !== undefined);
+
+    return { ...product, category, options: [...(product.options ?? []), ...linkedOptions] };
+  }
+
+  // Only embedded options are stored; resolved copies of linked groups are dropped
+  private withoutLinkedOptions<T extends Partial<Product>>(data: T, optionGroupIds: string[] = []): T {
+    if (!data.options) {
+      return data;
+    }
+    return { ...data, options: data.options.filter(option => !optionGroupIds.includes(option.id)) };
+  }
+
+  private assertIngredientsExist(recipe?: RecipeLine[], choices: ProductChoice[] = []) {
+    const unknownId = getRecipeIngredientIds(recipe, choices)
+      .find(id => !this.ingredients.some(ingredient => ingredient.id === id));
+    if (unknownId) {
+      throw new Error(`Ingredient ${unknownId} not found`);
+    }
+  }
+
+  async createProduct(productData: Omit<Product, 'id'>): Promise<Product> {
+    await new Promise(resolve => setTimeout(resolve, 500));
+    this.assertIngredientsExist(productData.recipe, productData.options?.flatMap(option => option.choices));
+
+    const product: Product = {
+      ...this.withoutLinkedOptions(productData, productData.optionGroupIds),
+      id: `product-${Date.now()}`
+    };
+    this.products.push(product);
+    this.notifyListeners();
+    return this.resolveReferences(product);
+  }
+
+  async updateProduct(productId: string, updates: Partial<Omit<Product, 'id'>>): Promise<Product> {
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    const index = this.products.findIndex(p => p.id === productId);
+    if (index < 0) {
+      throw new Error(`Product ${productId} not found`);
+    }
+
+    // Stock only changes through orders and adjustments, like PUT /products/:id
+    const { stock: _stock, ...changes } = updates;
+    const stored = this.products[index];
+    const optionGroupIds = changes.optionGroupIds ?? stored.optionGroupIds;
+    const data = this.withoutLinkedOptions(changes, optionGroupIds);
+    this.assertIngredientsExist(data.recipe, data.options?.flatMap(option => option.choices));
+    this.products[index] = {
+      ...stored,
+      ...data,
+      ...(data.options && { options: preserveOptionStock(data.options, stored.options) }),
+      // Setting availability by hand overrides an automatic sell-out
+      ...(data.available !== undefined && stored.soldOut && { soldOut: false })
+    };
+    this.notifyListeners();
+    return this.resolveReferences(this.products[index]);
+  }
+
+  // Same toggles as the PATCH availability/highlight/special routes
+  async updateProductAvailability(productId: string, available: boolean): Promise<Product> {
+    return this.updateProduct(productId, { available });
+  }
+
+  async updateProductHighlight(productId: string, isHighlighted: boolean): Promise<Product> {
+    return this.updateProduct(productId, { isHighlighted });
+  }
+
+  async updateProductDaySpecial(productId: string, isDaySpecial: boolean): Promise<Product> {
+    return this.updateProduct(productId, { isDaySpecial });
+  }
+
+  async deleteProduct(productId: string): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, 500));
+    this.products = this.products.filter(p => p.id !== productId);
+    this.menus = this.menus.map(menu => ({
+      ...menu,
+      productIds: menu.productIds.filter(id => id !== productId)
+    }));
+    this.notifyListeners();
+  }
+
+  // Batched like PATCH /products/positions
+  async updateProductPositions(updates: { id: string; position: number }[]): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    const positions = new Map(updates.map(update => [update.id, update.position]));
+    if (updates.some(update => !this.products.some(p => p.id === update.id))) {
+      throw new Error('Positions reference unknown products');
+    }
+
+    this.products = this.products.map(product => {
+      const position = positions.get(product.id);
+      return position === undefined ? product : { ...product, position };
+    });
+    this.notifyListeners();
+  }
+
+  // Categories
+  async getCategories(filters: { visible?: boolean } = {}): Promise<Category[]> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+    return this.categories
+      .filter(category => !filters.visible || category.visible)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  private assertCategoryNameAvailable(name: string, excludeCategoryId?: string) {
+    if (this.categories.some(category => category.name === name && category.id !== excludeCategoryId)) {
+      throw new Error(`Category ${name} already exists`);
+    }
+  }
+
+  async createCategory(categoryData: Omit<Category, 'id' | 'position'> & { position?: number }): Promise<Category> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+    this.assertCategoryNameAvailable(categoryData.name);
+
+    const category: Category = {
+      ...categoryData,
+      id: crypto.randomUUID(),
+      position: categoryData.position ?? Math.max(0, ...this.categories.map(c => c.position)) + 1
+    };
+    this.categories.push(category);
+    this.notifyListeners();
+    return category;
+  }
+
+  // Products show the new name on their next read
+  async updateCategory(categoryId: string, updates: Partial<Omit<Category, 'id'>>): Promise<Category> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    const index = this.categories.findIndex(category => category.id === categoryId);
+    if (index < 0) {
+      throw new Error(`Category ${categoryId} not found`);
+    }
+    if (updates.name) {
+      this.assertCategoryNameAvailable(updates.name, categoryId);
+    }
+
+    this.categories[index] = { ...this.categories[index], ...updates };
+    this.notifyListeners();
+    return this.categories[index];
+  }
+
+  async deleteCategory(categoryId: string): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    const productCount = this.products.filter(product => product.categoryId === categoryId).length;
+    if (productCount > 0) {
+      throw new Error(`Category is used by ${productCount} products`);
+    }
+
+    this.categories = this.categories.filter(category => category.id !== categoryId);
+    this.notifyListeners();
+  }
+
+  // Batched like PATCH /categories/positions
+  async updateCategoryPositions(updates: { id: string; position: number }[]): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    const positions = new Map(updates.map(update => [update.id, update.position]));
+    if (updates.some(update => !this.categories.some(category => category.id === update.id))) {
+      throw new Error('Positions reference unknown categories');
+    }
+
+    this.categories = this.categories.map(category => {
+      const position = positions.get(category.id);
+      return position === undefined ? category : { ...category, position };
+    });
+    this.notifyListeners();
+  }
+
+  // Menus
+  async getMenus(): Promise<Menu[]> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+    return [...this.menus].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private assertProductsExist(productIds: string[] = []) {
+    const unknownId = productIds.find(id => !this.products.some(p => p.id === id));
+    if (unknownId) {
+      throw new Error(`Product ${unknownId} not found`);
+    }
+  }
+
+  async createMenu(menuData: Omit<Menu, 'id'>): Promise<Menu> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+    this.assertProductsExist(menuData.productIds);
+
+    const menu: Menu = { ...menuData, id: crypto.randomUUID() };
+    this.menus.push(menu);
+    this.notifyListeners();
+    return menu;
+  }
+
+  async updateMenu(menuId: string, updates: Partial<Omit<Menu, 'id'>>): Promise<Menu> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    const index = this.menus.findIndex(menu => menu.id === menuId);
+    if (index < 0) {
+      throw new Error(`Menu ${menuId} not found`);
+    }
+    this.assertProductsExist(updates.productIds);
+
+    this.menus[index] = { ...this.menus[index], ...updates };
+    this.notifyListeners();
+    return this.menus[index];
+  }
+
+  async deleteMenu(menuId: string): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+    this.menus = this.menus.filter(menu => menu.id !== menuId);
+    this.notifyListeners();
+  }
+
+  // Option groups
+  async getOptionGroups(): Promise<OptionGroup[]> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+    return [...this.optionGroups].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createOptionGroup(groupData: Omit<OptionGroup, 'id'>): Promise<OptionGroup> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+    this.assertIngredientsExist([], groupData.choices);
+
+    const group: OptionGroup = { ...groupData, id: crypto.randomUUID() };
+    this.optionGroups.push(group);
+    this.notifyListeners();
+    return group;
+  }
+
+  // Linked products pick up the change on their next read
+  async updateOptionGroup(groupId: string, updates: Partial<Omit<OptionGroup, 'id'>>): Promise<OptionGroup> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    const index = this.optionGroups.findIndex(group => group.id === groupId);
+    if (index < 0) {
+      throw new Error(`Option group ${groupId} not found`);
+    }
+    this.assertIngredientsExist([], updates.choices);
+
+    const stored = this.optionGroups[index];
+    this.optionGroups[index] = {
+      ...stored,
+      ...updates,
+      ...(updates.choices && { choices: preserveChoiceStock(updates.choices, stored.choices) })
+    };
+    this.notifyListeners();
+    return this.optionGroups[index];
+  }
+
+  async deleteOptionGroup(groupId: string): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    this.optionGroups = this.optionGroups.filter(group => group.id !== groupId);
+    this.products = this.products.map(product =>
+      product.optionGroupIds?.includes(groupId)
+        ? { ...product, optionGroupIds: product.optionGroupIds.filter(id => id !== groupId) }
+        : product
+    );
+    this.notifyListeners();
   }
 
   // Orders
@@ -36,42 +545,96 @@ class MockService {
     channel: string;
     tableId?: string;
     customer?: { name?: string; phone?: string };
+    couponCode?: string;
+    tip?: Tip;
+    serviceFee?: boolean;
+    scheduled?: boolean;
   }): Promise<string> {
     await new Promise(resolve => setTimeout(resolve, 1000));
 
-    const orderNumber = Math.floor(1000 + Math.random() * 9000);
-    const orderId = `order-${this.orderIdCounter++}`;
+    const { couponCode, scheduled, tip, serviceFee = true, ...orderFields } = orderData;
+    const channel = orderData.channel as OrderChannel;
+
+    if (!isChannelEnabled(this.settings, channel)) {
+      throw new Error(`Channel ${channel} is not available`);
+    }
+
+    // Closed channels only take orders scheduled for the next opening, like the API
+    const openState = getOpenState(this.settings, channel);
+    if (!openState.open && (!scheduled || !this.settings.openingHours.scheduledOrders.enabled || !openState.nextOpenAt)) {
+      throw new Error(`Channel ${channel} is closed`);
+    }
+
+    const items = this.repriceItems(
+      orderFields.items,
+      getChannelProductIds(this.menus, channel),
+      openState.open ? new Date() : openState.nextOpenAt
+    );
     
     // Calculate totals
-    const subtotal = orderData.items.reduce((sum, item) => {
-      const optionsPrice = item.options.reduce((optSum, opt) => optSum + opt.price, 0);
+    const subtotal = items.reduce((sum, item) => {
+      const optionsPrice = calculateOptionsPrice(item.options);
       return sum + (item.unitPrice + optionsPrice) * item.qty;
     }, 0);
 
-    const serviceFee = orderData.channel === 'dine_in' ? Math.round(subtotal * 0.1) : 0;
-    const deliveryFee = orderData.channel === 'delivery' ? 590 : 0;
-    const total = subtotal + serviceFee + deliveryFee;
+    // Apply coupon the same way the API does
+    const coupon = couponCode ? await this.getCoupon(couponCode) : null;
+    if (couponCode && (!coupon || (coupon.minSubtotal && subtotal < coupon.minSubtotal))) {
+      throw new Error('Invalid coupon');
+    }
+    const discounts = coupon ? calculateCouponDiscount(coupon, subtotal) : 0;
+
+    // Dine-in customers may decline the service fee
+    const fees = calculateFees(this.settings, channel, subtotal);
+    if (!serviceFee) {
+      delete fees.service;
+    }
+    const tipAmount = tip ? calculateTip(tip, subtotal) : 0;
+    const amounts = { subtotal, discounts, fees, ...(tipAmount > 0 && { tip: tipAmount }) };
+
+    // Take tracked stock last, so a rejected order never holds units
+    const orderId = `order-${this.orderIdCounter}`;
+    const catalog = new Map(
+      items
+        .map(item => this.products.find(p => p.id === item.productId))
+        .filter(product => product !== undefined)
+        .map(product => [product.id, this.resolveReferences(product)])
+    );
+    const stockResults = this.applyStock(
+      toStockChanges(buildStockReservations(items, catalog), -1),
+      { reason: 'order', orderId }
+    );
+
+    // Like the API transaction, only an accepted order uses up its id and order number
+    this.orderIdCounter++;
+    const orderNumber = this.nextOrderNumber();
 
     const order: Order = {
       id: orderId,
-      ...orderData,
+      ...orderFields,
+      items,
+      coupon: coupon ? {
+        id: coupon.id,
+        code: coupon.code,
+        type: coupon.type,
+        value: coupon.value,
+        discount: discounts
+      } : undefined,
+      tip: tipAmount > 0 ? tip : undefined,
       orderNumber,
+      orderCode: formatOrderCode(orderNumber, channel, this.settings.orderNumbers),
+      scheduledFor: openState.open ? undefined : openState.nextOpenAt,
+      stockReservations: stockResults.length > 0 ? toStockReservations(stockResults) : undefined,
       status: 'placed',
-      channel: orderData.channel as any,
-      amounts: {
-        subtotal,
-        discounts: 0,
-        fees: { 
-          service: serviceFee,
-          delivery: deliveryFee 
-        },
-        total
-      },
+      statusHistory: [{ from: null, to: 'placed', at: new Date() }],
+      channel,
+      amounts: { ...amounts, total: calculateTotal(amounts) },
       createdAt: new Date(),
       updatedAt: new Date()
     };
 
     this.orders.push(order);
+    this.notifyListeners();
     
     // Simulate order progression
     this.simulateOrderProgression(orderId);
@@ -79,28 +642,392 @@ class MockService {
     return orderId;
   }
 
-  async updateOrderStatus(orderId: string, status: string): Promise<void> {
+  // Sequential order numbers, restarting each business day like the API counter
+  private nextOrderNumber(): number {
+    const { resetDaily } = this.settings.orderNumbers;
+    const date = getBusinessDate(new Date(), this.settings.timezone);
+
+    if (resetDaily && this.orderCounter.date !== date) {
+      this.orderCounter = { value: 0, date };
+    }
+
+    this.orderCounter.value++;
+    return this.orderCounter.value;
+  }
+
+  // Rebuild order lines from the catalog, like the API does; schedules are checked at preparation time
+  private repriceItems(items: OrderItem[], menuProductIds: Set<string> | null = null, at: Date = new Date()): OrderItem[] {
+    return items.map(item => {
+      const stored = this.products.find(p => p.id === item.productId);
+      const product = stored && this.withSchedules([this.resolveReferences(stored)], at)[0];
+      if (!product || !product.availableNow) {
+        throw new Error(`Product ${item.productId} is not available`);
+      }
+      if (menuProductIds && !menuProductIds.has(product.id)) {
+        throw new Error(`${product.name} is not on this channel's menu`);
+      }
+
+      const options = item.options.map(selected => {
+        const option = product.options?.find(opt => opt.id === selected.id);
+        const choice = option?.choices.find(c => c.id === selected.choiceId);
+        if (!option || !choice) {
+          throw new Error(`Invalid option ${selected.id} for ${product.name}`);
+        }
+        if (choice.stock === 0) {
+          throw new Error(`${choice.name} is sold out`);
+        }
+        return { ...selected, id: option.id, choiceId: choice.id, name: option.name, choice: choice.name, price: choice.price };
+      });
+
+      const violations = validateOptionRules(product.options, options);
+      if (violations.length > 0) {
+        throw new Error(`Invalid options for ${product.name}`);
+      }
+
+      return { ...item, name: product.name, unitPrice: product.price, options };
+    });
+  }
+
+  async updateOrderStatus(
+    orderId: string,
+    status: OrderStatus,
+    { override, ...change }: Pick<OrderStatusChange, 'actor' | 'reason'> & { override?: boolean } = {}
+  ): Promise<void> {
     await new Promise(resolve => setTimeout(resolve, 500));
     
     const order = this.orders.find(o => o.id === orderId);
     if (order) {
-      order.status = status as any;
+      if (!canTransition(order.channel, order.status, status)) {
+        // Managers may cancel orders already in preparation, like the API
+        const isCancelOverride = status === 'canceled' && override && !TERMINAL_STATUSES.includes(order.status);
+        if (!isCancelOverride) {
+          throw new Error(`Cannot change order status from ${order.status} to ${status}`);
+        }
+        if (change.actor?.role === 'staff') {
+          throw new Error('Only managers can cancel orders already in preparation');
+        }
+      }
+
+      if (status === 'closed' && getPaymentSummary(order).balance > 0) {
+        throw new Error('Cannot close an order that is not fully paid');
+      }
+
+      // Give the reserved units back, like the cancel transaction of the API
+      if (status === 'canceled' && order.stockReservations) {
+        this.applyStock(toStockChanges(order.stockReservations, 1), {
+          reason: 'cancel',
+          orderId,
+          actor: change.actor,
+          note: change.reason
+        });
+      }
+
+      order.statusHistory = [
+        ...(order.statusHistory || []),
+        { from: order.status, to: status, at: new Date(), ...change }
+      ];
+      order.status = status;
       order.updatedAt = new Date();
       
-      if (status === 'closed') {
+      if (status === 'closed' || status === 'canceled') {
         order.closedAt = new Date();
       }
+      if (status === 'canceled' && change.reason) {
+        order.cancelReason = change.reason;
+      }
+
+      this.notifyListeners();
     }
   }
 
+  async getOrderHistory(orderId: string): Promise<OrderStatusChange[] | null> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+    const order = this.orders.find(o => o.id === orderId);
+    return order ? [...(order.statusHistory || [])] : null;
+  }
+
   async getOrder(orderId: string): Promise<Order | null> {
     await new Promise(resolve => setTimeout(resolve, 300));
     return this.orders.find(o => o.id === orderId) || null;
   }
 
-  async getOrders(): Promise<Order[]> {
+  async getOrders(filters: OrderFilters = {}): Promise<Order[]> {
     await new Promise(resolve => setTimeout(resolve, 500));
-    return [...this.orders].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return filterOrders(this.orders, filters);
+  }
+
+  // Payments
+  // Payments are checked against the balance like the payment transaction of the API
+  private findPayableOrder(orderId: string): Order {
+    const order = this.orders.find(o => o.id === orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    if (TERMINAL_STATUSES.includes(order.status)) {
+      throw new Error(`Cannot take payments on a ${order.status} order`);
+    }
+    return order;
+  }
+
+  async addPayment(orderId: string, input: PaymentInput, actor?: Payment['actor']): Promise<Payment> {
+    await new Promise(resolve => setTimeout(resolve, 400));
+
+    const order = this.findPayableOrder(orderId);
+    const payment = buildPayment(order, input, { id: crypto.randomUUID(), actor, createdAt: new Date() });
+    order.payments = [...(order.payments || []), payment];
+    order.updatedAt = new Date();
+
+    this.notifyListeners();
+    return payment;
+  }
+
+  async splitBill(orderId: string, input: BillSplitInput): Promise<BillSplit> {
+    await new Promise(resolve => setTimeout(resolve, 400));
+
+    const order = this.findPayableOrder(orderId);
+    order.billSplit = buildBillSplit(order, input, () => crypto.randomUUID());
+    order.updatedAt = new Date();
+
+    this.notifyListeners();
+    return order.billSplit;
+  }
+
+  // Service fee waived or adjusted by staff; an unpaid split is dropped since it adds up to the old total
+  async adjustServiceFee(orderId: string, input: ServiceFeeInput, actor?: ServiceFeeChange['actor']): Promise<ServiceFeeChange> {
+    await new Promise(resolve => setTimeout(resolve, 400));
+
+    const order = this.findPayableOrder(orderId);
+    const { amounts, change } = applyServiceFee(order, input, { actor, at: new Date() });
+    order.amounts = amounts;
+    order.serviceFeeChanges = [...(order.serviceFeeChanges || []), change];
+    order.billSplit = undefined;
+    order.updatedAt = new Date();
+
+    this.notifyListeners();
+    return change;
+  }
+
+  // Pix charge of what is left to pay on the order or share, like GET /orders/:orderId/pix
+  async getPixCharge(orderId: string, shareId?: string): Promise<PixCharge> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    const { pix } = this.settings;
+    if (!pix.enabled || !pix.key || !pix.merchantName || !pix.merchantCity) {
+      throw new Error('Pix payments are not enabled');
+    }
+
+    const summary = getPaymentSummary(this.findPayableOrder(orderId));
+    let amount = summary.balance;
+    if (shareId) {
+      const share = summary.shares.find(item => item.id === shareId);
+      if (!share) {
+        throw new Error('Bill share not found');
+      }
+      amount = Math.min(amount, share.balance);
+    }
+    if (amount === 0) {
+      throw new Error('Nothing left to pay');
+    }
+
+    const txid = toPixTxid(orderId);
+    return {
+      payload: buildPixPayload({ key: pix.key, merchantName: pix.merchantName, merchantCity: pix.merchantCity, amount, txid }),
+      amount,
+      txid,
+      ...(shareId && { shareId })
+    };
+  }
+
+  async confirmPixPayment(
+    orderId: string,
+    { amount, shareId }: { amount?: number; shareId?: string } = {},
+    actor?: Payment['actor']
+  ): Promise<Payment> {
+    return this.addPayment(orderId, { method: 'pix', amount, shareId, txid: toPixTxid(orderId) }, actor);
+  }
+
+  // Stock
+  async getStockLevels(filters: { low?: boolean } = {}): Promise<StockLevel[]> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+    const levels = getStockLevels(this.products, this.optionGroups);
+    return filters.low ? levels.filter(level => level.low) : levels;
+  }
+
+  async getStockAdjustments(
+    filters: { productId?: string; optionGroupId?: string; limit?: number } = {}
+  ): Promise<StockAdjustment[]> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+    return this.stockAdjustments
+      .filter(adjustment =>
+        (!filters.productId || adjustment.productId === filters.productId) &&
+        (!filters.optionGroupId || adjustment.optionGroupId === filters.optionGroupId)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, filters.limit ?? 50);
+  }
+
+  // Restock and waste move the count, a count sets it (null stops tracking)
+  async adjustStock(
+    { reason, note, ...input }: StockAdjustmentInput,
+    actor?: StockAdjustment['actor']
+  ): Promise<StockChangeResult[]> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    const { productId, optionGroupId, optionId, choiceId } = input;
+    const target = { productId, optionGroupId, optionId, choiceId };
+    const change: StockChange = 'quantity' in input
+      ? { target, quantity: input.quantity }
+      : { target, delta: reason === 'restock' ? input.qty : -input.qty };
+
+    const results = this.applyStock([change], { reason, actor, note });
+    if (results.length === 0) {
+      throw new Error('Tracked stock item not found');
+    }
+
+    this.notifyListeners();
+    return results;
+  }
+
+  // Apply every change or none, like the stock transactions of the API, and log each one
+  private applyStock(changes: StockChange[], context: StockChangeContext): StockChangeResult[] {
+    const byDocument = new Map<string, StockChange[]>();
+    changes.forEach(change => {
+      const key = change.target.optionGroupId ? `group:${change.target.optionGroupId}` : `product:${change.target.productId}`;
+      byDocument.set(key, [...(byDocument.get(key) ?? []), change]);
+    });
+
+    const writes: { key: string; updates: StockDocumentUpdates }[] = [];
+    const results: StockChangeResult[] = [];
+    byDocument.forEach((documentChanges, key) => {
+      const [kind, id] = key.split(':');
+      const data: StockDocument | undefined = kind === 'group'
+        ? this.optionGroups.find(group => group.id === id)
+        : this.products.find(product => product.id === id);
+      if (!data) return;
+
+      const plan = applyStockChanges(data, documentChanges);
+      if (plan.shortages.length > 0) {
+        throw new Error(`Not enough stock: ${plan.shortages.map(shortage => shortage.name).join(', ')}`);
+      }
+      writes.push({ key, updates: plan.updates });
+      results.push(...plan.results);
+    });
+
+    const apply = <T extends StockDocument>(item: T, { stock, ...fields }: StockDocumentUpdates): T => {
+      const updated = { ...item, ...fields };
+      if (stock === null) {
+        delete updated.stock;
+      } else if (stock !== undefined) {
+        updated.stock = stock;
+      }
+      return updated;
+    };
+    writes.forEach(({ key, updates }) => {
+      const [kind, id] = key.split(':');
+      if (kind === 'group') {
+        this.optionGroups = this.optionGroups.map(group => group.id === id ? apply(group, updates) : group);
+      } else {
+        this.products = this.products.map(product => product.id === id ? apply(product, updates) : product);
+      }
+    });
+
+    results.forEach(result => this.stockAdjustments.push({
+      ...result.target,
+      id: crypto.randomUUID(),
+      name: result.name,
+      delta: result.delta,
+      quantity: result.quantity,
+      reason: context.reason,
+      orderId: context.orderId,
+      actor: context.actor,
+      note: context.note,
+      createdAt: new Date()
+    }));
+
+    return results;
+  }
+
+  // Ingredients
+  async getIngredients(): Promise<Ingredient[]> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+    return [...this.ingredients].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private assertIngredientNameAvailable(name: string, excludeIngredientId?: string) {
+    if (this.ingredients.some(ingredient => ingredient.name === name && ingredient.id !== excludeIngredientId)) {
+      throw new Error(`Ingredient ${name} already exists`);
+    }
+  }
+
+  async createIngredient(ingredientData: Omit<Ingredient, 'id'>): Promise<Ingredient> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+    this.assertIngredientNameAvailable(ingredientData.name);
+
+    const ingredient: Ingredient = { ...ingredientData, id: crypto.randomUUID() };
+    this.ingredients.push(ingredient);
+    this.notifyListeners();
+    return ingredient;
+  }
+
+  // Food costs follow the new unit cost on their next read
+  async updateIngredient(ingredientId: string, updates: Partial<Omit<Ingredient, 'id'>>): Promise<Ingredient> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    const index = this.ingredients.findIndex(ingredient => ingredient.id === ingredientId);
+    if (index < 0) {
+      throw new Error(`Ingredient ${ingredientId} not found`);
+    }
+    if (updates.name) {
+      this.assertIngredientNameAvailable(updates.name, ingredientId);
+    }
+
+    this.ingredients[index] = { ...this.ingredients[index], ...updates };
+    this.notifyListeners();
+    return this.ingredients[index];
+  }
+
+  // Only when no recipe uses it, like DELETE /ingredients/:id
+  async deleteIngredient(ingredientId: string): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    const usedBy = [
+      ...this.products.filter(product =>
+        getRecipeIngredientIds(product.recipe, (product.options ?? []).flatMap(option => option.choices))
+          .includes(ingredientId)
+      ),
+      ...this.optionGroups.filter(group => getRecipeIngredientIds([], group.choices).includes(ingredientId))
+    ];
+    if (usedBy.length > 0) {
+      throw new Error(`Ingredient is used by the recipes of ${usedBy.map(item => item.name).join(', ')}`);
+    }
+
+    this.ingredients = this.ingredients.filter(ingredient => ingredient.id !== ingredientId);
+    this.notifyListeners();
+  }
+
+  // Reports
+  async getProductCosts(): Promise<ProductCost[]> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+    return getProductCosts(
+      [...this.products].sort((a, b) => a.position - b.position).map(p => this.resolveReferences(p)),
+      new Map(this.ingredients.map(ingredient => [ingredient.id, ingredient]))
+    );
+  }
+
+  // Like GET /reports/profit: canceled orders left out, current recipes and ingredient costs
+  async getProfitReport(filters: { dateFrom?: Date; dateTo?: Date } = {}): Promise<ProfitReport> {
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    const orders = filterOrders(this.orders, filters).filter(order => order.status !== 'canceled');
+    return {
+      ...filters,
+      ...buildProfitReport(
+        summarizeProductSales(orders),
+        new Map(this.products.map(product => [product.id, this.resolveReferences(product)])),
+        new Map(this.categories.map(category => [category.id, category])),
+        new Map(this.ingredients.map(ingredient => [ingredient.id, ingredient]))
+      )
+    };
   }
 
   // Coupons
@@ -117,25 +1044,99 @@ class MockService {
     return coupon || null;
   }
 
+  // Settings
+  async getSettings(): Promise<Settings> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+    return this.settings;
+  }
+
+  // Same shape as GET /opening-hours/status
+  async getOpeningStatus(): Promise<OpeningStatus> {
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    const now = new Date();
+    const channels = Object.fromEntries(
+      (['dine_in', 'takeaway', 'delivery'] as OrderChannel[]).map(channel => {
+        const enabled = isChannelEnabled(this.settings, channel);
+        return [channel, enabled ? { enabled, ...getOpenState(this.settings, channel, now) } : { enabled, open: false }];
+      })
+    ) as OpeningStatus['channels'];
+
+    return {
+      timezone: this.settings.timezone,
+      scheduledOrders: this.settings.openingHours.scheduledOrders.enabled,
+      channels
+    };
+  }
+
+  async updateSettings(updates: Partial<Settings>): Promise<Settings> {
+    await new Promise(resolve => setTimeout(resolve, 500));
+    const pix = updates.pix;
+    if (pix?.enabled && !(pix.key?.trim() && pix.merchantName?.trim() && pix.merchantCity?.trim())) {
+      throw new Error('Pix needs a key, merchant name and city to be enabled');
+    }
+    if (pix?.locationHost && !/^([a-z0-9-]+\.)+[a-z]{2,}$/.test(pix.locationHost)) {
+      throw new Error('Location host must be a host name such as pix.example.com');
+    }
+    this.settings = { ...this.settings, ...updates };
+    this.notifyListeners();
+    return this.settings;
+  }
+
   // Tables
   async getTables(): Promise<Table[]> {
     await new Promise(resolve => setTimeout(resolve, 300));
-    return demoTables;
+    return [...this.tables].sort((a, b) => a.number.localeCompare(b.number, undefined, { numeric: true }));
+  }
+
+  async createTable(number: string): Promise<Table> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    // Table numbers are unique per restaurant, like the API
+    if (this.tables.some(t => t.number === number)) {
+      throw new Error(`Table number ${number} already exists`);
+    }
+
+    const table: Table = { id: `table-${Date.now()}`, number, active: true };
+    this.tables.push(table);
+    this.notifyListeners();
+    return table;
+  }
+
+  async updateTable(tableId: string, updates: Partial<Omit<Table, 'id'>>): Promise<Table> {
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    const index = this.tables.findIndex(t => t.id === tableId);
+    if (index < 0) {
+      throw new Error(`Table ${tableId} not found`);
+    }
+    if (updates.number && this.tables.some(t => t.number === updates.number && t.id !== tableId)) {
+      throw new Error(`Table number ${updates.number} already exists`);
+    }
+
+    this.tables[index] = { ...this.tables[index], ...updates };
+    this.notifyListeners();
+    return this.tables[index];
   }
 
   // Simulate order progression for demo
   private simulateOrderProgression(orderId: string) {
-    const statuses = ['confirmed', 'in_preparation', 'ready', 'served'];
-    let currentIndex = 0;
-
     const progressOrder = () => {
-      if (currentIndex < statuses.length) {
-        setTimeout(() => {
-          this.updateOrderStatus(orderId, statuses[currentIndex]);
-          currentIndex++;
-          progressOrder();
-        }, Math.random() * 30000 + 10000); // 10-40 seconds between status changes
-      }
+      setTimeout(async () => {
+        // Read the current status when firing, the kitchen screen may have bumped the order
+        const order = this.orders.find(o => o.id === orderId);
+        const nextStatus = order ? getNextStatus(order.channel, order.status) : null;
+
+        // Stop before closing, the order stays served/delivered in the demo
+        if (!nextStatus || nextStatus === 'closed') return;
+
+        try {
+          await this.updateOrderStatus(orderId, nextStatus);
+        } catch {
+          // Status changed meanwhile, try again from the new one
+        }
+        progressOrder();
+      }, Math.random() * 30000 + 10000); // 10-40 seconds between status changes
     };
 
     // Start progression after 5 seconds
@@ -143,24 +1144,43 @@ class MockService {
   }
 
   // Real-time listeners (mock implementation)
-  subscribeToOrders(callback: (orders: Order[]) => void) {
-    const interval = setInterval(async () => {
-      const orders = await this.getOrders();
-      callback(orders);
-    }, 2000);
+  // Changes are pushed as they happen, like the API order stream
+  private notifyListeners() {
+    this.saveState();
+    this.listeners.forEach(listener => listener());
+  }
 
-    return () => clearInterval(interval);
+  private addListener(listener: () => void) {
+    this.listeners.add(listener);
+    listener();
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
-  subscribeToOrder(orderId: string, callback: (order: Order | null) => void) {
-    const interval = setInterval(async () => {
-      const order = await this.getOrder(orderId);
-      callback(order);
-    }, 2000);
+  subscribeToOrders(callback: (orders: Order[]) => void, filters: OrderFilters = {}) {
+    return this.addListener(() => {
+      callback(filterOrders(this.orders, filters));
+    });
+  }
 
-    return () => clearInterval(interval);
+  subscribeToOrder(orderId: string, callback: (order: Order | null) => void) {
+    return this.addListener(() => {
+      const order = this.orders.find(o => o.id === orderId);
+      callback(order ? { ...order } : null);
+    });
   }
 }
 
-// Factory function to create mock service instances
-export const createMockService = (restaurantId: string) => new MockService(restaurantId);
\ No newline at end of file
+// Factory function to get the mock service of a restaurant
+// Instances are shared so orders and the order counter survive between calls
+const mockServices = new Map<string, MockService>();
+
+export const createMockService = (restaurantId: string) => {
+  let service = mockServices.get(restaurantId);
+  if (!service) {
+    service = new MockService(restaurantId);
+    mockServices.set(restaurantId, service);
+  }
+  return service;
+};
\ No newline at end of file
@@ -0,0 +1,160 @@
+// Opening hours shared by the menu header, the settings page and the mock service
+// Mirrors server/src/utils/openingHours.ts so the menu never shows open while the API refuses orders
+import type { LocalTime, OpenState, OpeningHours, OpeningShift, OrderChannel, Settings, Weekday } from './types';
+
+export const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  sun: 'Dom',
+  mon: 'Seg',
+  tue: 'Ter',
+  wed: 'Qua',
+  thu: 'Qui',
+  fri: 'Sex',
+  sat: 'Sáb',
+};
+
+const MINUTE = 60000;
+const DAY = 24 * 60 * MINUTE;
+const LOOKAHEAD_DAYS = 14;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Wall-clock time of an instant in a timezone, as milliseconds on a UTC-based scale
+const toWallClock = (date: Date, timezone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date).map((part) => [part.type, part.value])
+  );
+
+  return Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute)
+  );
+};
+
+const toInstant = (wallClock: number, timezone: string) => {
+  const offsetAt = (instant: number) => toWallClock(new Date(instant), timezone) - Math.floor(instant / MINUTE) * MINUTE;
+
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+};
+
+// Date, weekday and minute of the day of an instant in the restaurant timezone
+export function getLocalTime(date: Date, timezone: string): LocalTime {
+  const wallClock = toWallClock(date, timezone);
+  const day = new Date(wallClock);
+
+  return {
+    date: day.toISOString().slice(0, 10),
+    weekday: WEEKDAYS[day.getUTCDay()],
+    minutes: (wallClock % DAY) / MINUTE,
+  };
+}
+
+export function getShiftsForDay(
+  hours: OpeningHours,
+  channel: OrderChannel,
+  date: string,
+  weekday: Weekday
+): OpeningShift[] {
+  const exception = hours.exceptions.find((item) => item.date === date);
+  if (exception) return exception.shifts;
+
+  return (hours.channels?.[channel] ?? hours.week)[weekday] ?? [];
+}
+
+export function getOpenState(settings: Settings, channel: OrderChannel, now: Date = new Date()): OpenState {
+  const hours = settings.openingHours;
+  if (!hours?.enabled) return { open: true };
+
+  const timezone = settings.timezone;
+  const current = toWallClock(now, timezone);
+  const today = current - (current % DAY);
+
+  // Start from yesterday so a shift running past midnight is still found
+  const intervals: { start: number; end: number }[] = [];
+  for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset++) {
+    const dayStart = today + offset * DAY;
+    const day = new Date(dayStart);
+    const shifts = getShiftsForDay(hours, channel, day.toISOString().slice(0, 10), WEEKDAYS[day.getUTCDay()]);
+
+    shifts.forEach((shift) => {
+      const open = toMinutes(shift.open);
+      const close = toMinutes(shift.close);
+      intervals.push({
+        start: dayStart + open * MINUTE,
+        end: dayStart + (close <= open ? close + 24 * 60 : close) * MINUTE,
+      });
+    });
+  }
+
+  const currentShift = intervals.find((interval) => interval.start <= current && current < interval.end);
+  if (currentShift) {
+    return { open: true, closesAt: toInstant(currentShift.end, timezone) };
+  }
+
+  const nextShift = intervals
+    .filter((interval) => interval.start > current)
+    .sort((a, b) => a.start - b.start)[0];
+
+  return { open: false, ...(nextShift && { nextOpenAt: toInstant(nextShift.start, timezone) }) };
+}
+
+// "11:00–15:00, 18:00–01:00", or "Fechado" for a day without shifts
+export function formatShifts(shifts: OpeningShift[]) {
+  if (shifts.length === 0) return 'Fechado';
+  return shifts.map((shift) => `${shift.open}–${shift.close}`).join(', ');
+}
+
+// Weekly hours of a channel grouped by consecutive days with the same shifts, e.g. "Seg-Qui: 11:00–23:00"
+export function summarizeWeek(hours: OpeningHours, channel: OrderChannel) {
+  const week = hours.channels?.[channel] ?? hours.week;
+  const lines: { from: Weekday; to: Weekday; text: string }[] = [];
+
+  // Start the week on Monday, like the printed menus
+  [...WEEKDAYS.slice(1), WEEKDAYS[0]].forEach((day) => {
+    const text = formatShifts(week[day] ?? []);
+    const last = lines[lines.length - 1];
+
+    if (last && last.text === text) {
+      last.to = day;
+    } else {
+      lines.push({ from: day, to: day, text });
+    }
+  });
+
+  return lines.map(({ from, to, text }) =>
+    `${from === to ? WEEKDAY_LABELS[from] : `${WEEKDAY_LABELS[from]}-${WEEKDAY_LABELS[to]}`}: ${text}`
+  );
+}
+
+// "hoje às 18:00", "amanhã às 11:00" or "sex, 25/12 às 11:00" in the restaurant timezone
+export function formatOpeningTime(date: Date, timezone: string, now: Date = new Date()) {
+  const dayKey = (value: Date) => new Intl.DateTimeFormat('en-CA', { timeZone: timezone }).format(value);
+  const time = new Intl.DateTimeFormat('pt-BR', { timeZone: timezone, hour: '2-digit', minute: '2-digit' }).format(date);
+
+  if (dayKey(date) === dayKey(now)) return `hoje às ${time}`;
+  if (dayKey(date) === dayKey(new Date(now.getTime() + DAY))) return `amanhã às ${time}`;
+
+  const day = new Intl.DateTimeFormat('pt-BR', {
+    timeZone: timezone,
+    weekday: 'short',
+    day: '2-digit',
+    month: '2-digit',
+  }).format(date);
+  return `${day} às ${time}`;
+}
@@ -0,0 +1,66 @@
+// Product option rules shared by the product dialog and the cart
+// Mirrors server/src/utils/options.ts so the API never rejects what the dialog allowed
+import type { ProductOption, SelectedOption } from './types';
+
+export interface OptionRuleViolation {
+  optionId: string;
+  message: string;
+}
+
+// Minimum and maximum selections; "2x bacon" counts as 2
+export function getSelectionLimits(option: ProductOption) {
+  const min = Math.max(option.minSelections ?? 0, option.required ? 1 : 0);
+  const max = option.maxSelections ?? option.choices.length * (option.maxQuantityPerChoice ?? 1);
+  return { min, max };
+}
+
+export function countSelections(optionId: string, selections: SelectedOption[]) {
+  return selections
+    .filter((selection) => selection.id === optionId)
+    .reduce((sum, selection) => sum + (selection.qty ?? 1), 0);
+}
+
+// Radio buttons when a single choice is allowed, checkboxes otherwise
+export function isSingleChoice(option: ProductOption) {
+  return getSelectionLimits(option).max === 1;
+}
+
+export function validateOptionRules(
+  options: ProductOption[] = [],
+  selections: SelectedOption[]
+): OptionRuleViolation[] {
+  const violations: OptionRuleViolation[] = [];
+
+  options.forEach((option) => {
+    const count = countSelections(option.id, selections);
+    const { min, max } = getSelectionLimits(option);
+    const maxPerChoice = option.maxQuantityPerChoice ?? 1;
+
+    if (count < min) {
+      violations.push({
+        optionId: option.id,
+        message: count === 0 && option.required
+          ? 'Escolha obrigatória'
+          : `Escolha pelo menos ${min}`,
+      });
+    }
+
+    if (count > max) {
+      violations.push({ optionId: option.id, message: `Escolha no máximo ${max}` });
+    }
+
+    const exceeded = selections.some(
+      (selection) => selection.id === option.id && (selection.qty ?? 1) > maxPerChoice
+    );
+    if (exceeded) {
+      violations.push({ optionId: option.id, message: `Máximo de ${maxPerChoice} por item` });
+    }
+  });
+
+  return violations;
+}
+
+// Total price of the selected options for one unit of the product
+export function calculateOptionsPrice(selections: SelectedOption[]) {
+  return selections.reduce((sum, selection) => sum + selection.price * (selection.qty ?? 1), 0);
+}
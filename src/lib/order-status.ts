@@ -0,0 +1,72 @@
+import type { Order, OrderChannel, OrderStatus } from './types';
+
+// Mirrors the server transition graph (server/src/utils/orderStatus.ts)
+type TransitionGraph = Partial<Record<OrderStatus, OrderStatus[]>>;
+
+const BASE_TRANSITIONS: TransitionGraph = {
+  draft: ['placed', 'canceled'],
+  placed: ['confirmed', 'canceled'],
+  confirmed: ['in_preparation', 'canceled'],
+  in_preparation: ['ready'],
+};
+
+export const ORDER_TRANSITIONS: Record<OrderChannel, TransitionGraph> = {
+  dine_in: { ...BASE_TRANSITIONS, ready: ['served'], served: ['closed'] },
+  takeaway: { ...BASE_TRANSITIONS, ready: ['served'], served: ['closed'] },
+  delivery: {
+    ...BASE_TRANSITIONS,
+    ready: ['out_for_delivery'],
+    out_for_delivery: ['delivered'],
+    delivered: ['closed'],
+  },
+};
+
+export const TERMINAL_STATUSES: OrderStatus[] = ['closed', 'canceled'];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  draft: 'Rascunho',
+  placed: 'Enviado',
+  confirmed: 'Confirmado',
+  in_preparation: 'Preparando',
+  ready: 'Pronto',
+  served: 'Entregue',
+  out_for_delivery: 'Em rota',
+  delivered: 'Entregue',
+  closed: 'Finalizado',
+  canceled: 'Cancelado',
+};
+
+export function getAllowedTransitions(channel: OrderChannel, from: OrderStatus): OrderStatus[] {
+  return ORDER_TRANSITIONS[channel][from] ?? [];
+}
+
+export function canTransition(channel: OrderChannel, from: OrderStatus, to: OrderStatus): boolean {
+  return getAllowedTransitions(channel, from).includes(to);
+}
+
+// Next step in the happy path, ignoring cancellation
+export function getNextStatus(channel: OrderChannel, from: OrderStatus): OrderStatus | null {
+  return getAllowedTransitions(channel, from).find(status => status !== 'canceled') ?? null;
+}
+
+// Steps shown to the customer, from placement until served/delivered
+export function getOrderSteps(channel: OrderChannel): OrderStatus[] {
+  const steps: OrderStatus[] = ['placed'];
+  let next = getNextStatus(channel, 'placed');
+  while (next && next !== 'closed') {
+    steps.push(next);
+    next = getNextStatus(channel, next);
+  }
+  return steps;
+}
+
+// Mirrors getEstimatedReadyAt on the server
+export function getEstimatedReadyAt(order: Order, prepTimeMinutes: number): Date | null {
+  if (!['draft', 'placed', 'confirmed', 'in_preparation'].includes(order.status)) {
+    return null;
+  }
+  const preparationStart = order.statusHistory?.find(change => change.to === 'in_preparation');
+  // Scheduled orders are only prepared once the restaurant opens
+  const start = preparationStart ? preparationStart.at : order.scheduledFor ?? order.createdAt;
+  return new Date(start.getTime() + prepTimeMinutes * 60000);
+}
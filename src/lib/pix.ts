@@ -0,0 +1,73 @@
+// Pix BR Code ("copia e cola") payloads: EMV fields as ID + length + value, closed by a CRC16
+// Mirrors server/src/utils/pix.ts so the mock charges like the API; the QR image is drawn with react-qr-code
+export interface PixChargeInput {
+  key: string;
+  merchantName: string;
+  merchantCity: string;
+  amount?: number; // cents; static codes leave it to the payer
+  txid?: string;
+  location?: string; // PSP URL of a dynamic charge, without https://
+}
+
+export interface PixCharge {
+  payload: string;
+  amount: number;
+  txid: string;
+  shareId?: string;
+}
+
+const MERCHANT_NAME_LENGTH = 25;
+const MERCHANT_CITY_LENGTH = 15;
+const TXID_LENGTH = 25;
+const NO_TXID = '***';
+
+const field = (id: string, value: string) => `${id}${value.length.toString().padStart(2, '0')}${value}`;
+
+const toAscii = (value: string, maxLength: number) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '')
+    .trim()
+    .slice(0, maxLength);
+
+export const toPixTxid = (value: string) =>
+  value.replace(/[^A-Za-z0-9]/g, '').slice(0, TXID_LENGTH) || NO_TXID;
+
+export const toPixLocation = (url: string) => url.trim().replace(/^https:\/\//i, '');
+
+// CRC16/CCITT-FALSE (polynomial 0x1021, initial value 0xFFFF)
+export const crc16 = (payload: string) => {
+  let crc = 0xffff;
+  for (const byte of new TextEncoder().encode(payload)) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+// With an amount or a location the code is single use (point of initiation 12), otherwise it is reusable
+// A location makes it dynamic: the PSP serves the amount and txid, so the payload leaves both out
+export const buildPixPayload = (input: PixChargeInput) => {
+  const location = input.location ? toPixLocation(input.location) : undefined;
+  const amount = location ? undefined : input.amount;
+
+  const payload = [
+    field('00', '01'),
+    field('01', location || amount !== undefined ? '12' : '11'),
+    field('26', field('00', 'br.gov.bcb.pix') + (location ? field('25', location) : field('01', input.key.trim()))),
+    field('52', '0000'),
+    field('53', '986'),
+    amount !== undefined ? field('54', (amount / 100).toFixed(2)) : '',
+    field('58', 'BR'),
+    field('59', toAscii(input.merchantName, MERCHANT_NAME_LENGTH)),
+    field('60', toAscii(input.merchantCity, MERCHANT_CITY_LENGTH)),
+    field('62', field('05', !location && input.txid ? toPixTxid(input.txid) : NO_TXID)),
+    '6304'
+  ].join('');
+
+  return payload + crc16(payload);
+};
@@ -0,0 +1,95 @@
+// Form schemas mirroring the API validation (server/src/models/schemas.ts)
+import { z } from 'zod';
+
+export const recipeLineFormSchema = z.object({
+  ingredientId: z.string().min(1, 'Selecione o ingrediente'),
+  quantity: z.number().positive('Quantidade inválida'),
+});
+
+// Ids are uuids generated by the editor; demo catalog ids are kept as-is
+export const productChoiceFormSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1, 'Informe o nome da escolha').max(100),
+  price: z.number().int().min(0, 'Preço inválido'),
+  stock: z.number().int().min(0).optional(),
+  lowStockThreshold: z.number().int().min(0).optional(),
+  recipe: z.array(recipeLineFormSchema).max(50).optional(),
+});
+
+export const productOptionFormSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1, 'Informe o nome do grupo').max(100),
+  required: z.boolean().optional(),
+  minSelections: z.number().int().min(0).optional(),
+  maxSelections: z.number().int().min(1, 'O máximo deve ser pelo menos 1').optional(),
+  maxQuantityPerChoice: z.number().int().min(1, 'O máximo por escolha deve ser pelo menos 1').optional(),
+  choices: z.array(productChoiceFormSchema).min(1, 'Adicione pelo menos uma escolha'),
+}).refine(data => !data.minSelections || !data.maxSelections || data.minSelections <= data.maxSelections, {
+  message: 'O mínimo não pode ser maior que o máximo',
+  path: ['minSelections'],
+});
+
+const weekdaySchema = z.enum(['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']);
+
+export const availabilityWindowFormSchema = z.object({
+  days: z.array(weekdaySchema).min(1, 'Selecione ao menos um dia').optional(),
+  from: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Horário inválido').optional(),
+  to: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Horário inválido').optional(),
+}).refine(data => !data.from === !data.to, {
+  message: 'Informe o início e o fim',
+  path: ['to'],
+});
+
+export const productFormSchema = z.object({
+  name: z.string().min(1, 'Informe o nome').max(200),
+  description: z.string().max(1000),
+  imageUrl: z.union([z.url('URL inválida'), z.literal('')]).optional(),
+  categoryId: z.string().min(1, 'Selecione a categoria'),
+  price: z.number().int().min(0, 'Preço inválido'),
+  options: z.array(productOptionFormSchema).optional(),
+  optionGroupIds: z.array(z.string()).optional(),
+  available: z.boolean(),
+  position: z.number().int().min(0),
+  isHighlighted: z.boolean().optional(),
+  isDaySpecial: z.boolean().optional(),
+  schedule: z.array(availabilityWindowFormSchema).max(20).optional(),
+  specialDays: z.array(weekdaySchema).optional(),
+  stock: z.number().int().min(0, 'Estoque inválido').optional(),
+  lowStockThreshold: z.number().int().min(0, 'Valor inválido').optional(),
+});
+
+export type ProductFormValues = z.infer<typeof productFormSchema>;
+
+export const tableFormSchema = z.object({
+  number: z.string().min(1, 'Informe o número').max(20),
+});
+
+export type TableFormValues = z.infer<typeof tableFormSchema>;
+
+export const categoryFormSchema = z.object({
+  name: z.string().min(1, 'Informe o nome').max(100),
+  description: z.string().max(500),
+  icon: z.string().max(10),
+  imageUrl: z.union([z.url('URL inválida'), z.literal('')]),
+  visible: z.boolean(),
+  schedule: z.array(availabilityWindowFormSchema).max(20),
+});
+
+export type CategoryFormValues = z.infer<typeof categoryFormSchema>;
+
+export const menuFormSchema = z.object({
+  name: z.string().min(1, 'Informe o nome').max(100),
+  active: z.boolean(),
+  visibility: z.array(z.enum(['dine_in', 'takeaway', 'delivery'])).min(1, 'Selecione ao menos um canal'),
+  productIds: z.array(z.string()).max(500),
+});
+
+export type MenuFormValues = z.infer<typeof menuFormSchema>;
+
+export const ingredientFormSchema = z.object({
+  name: z.string().min(1, 'Informe o nome').max(100),
+  unit: z.enum(['g', 'kg', 'ml', 'l', 'un']),
+  unitCost: z.number().min(0, 'Custo inválido'),
+});
+
+export type IngredientFormValues = z.infer<typeof ingredientFormSchema>;
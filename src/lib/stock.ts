@@ -0,0 +1,227 @@
+// Stock tracking: order lines become reservations on the product or option group that owns the count
+// Mirrors server/src/utils/stock.ts so the mock sells out and restocks like the API
+import type {
+  OptionGroup,
+  OrderItem,
+  Product,
+  ProductChoice,
+  ProductOption,
+  StockLevel,
+  StockReservation,
+  StockTarget,
+} from './types';
+
+export type StockChange =
+  | { target: StockTarget; delta: number }
+  | { target: StockTarget; quantity: number | null }; // absolute count, null stops tracking
+
+export interface StockChangeResult {
+  target: StockTarget;
+  name: string;
+  delta: number;
+  quantity: number | null;
+}
+
+export interface StockShortage {
+  target: StockTarget;
+  name: string;
+  available: number;
+  requested: number;
+}
+
+// Fields of a product or option group touched by stock changes
+export interface StockDocument {
+  name: string;
+  stock?: number;
+  available?: boolean;
+  soldOut?: boolean;
+  options?: ProductOption[];
+  choices?: ProductChoice[];
+}
+
+export interface StockDocumentUpdates {
+  stock?: number | null; // null removes the field
+  available?: boolean;
+  soldOut?: boolean;
+  options?: ProductOption[];
+  choices?: ProductChoice[];
+}
+
+const getStockKey = (target: StockTarget) =>
+  [target.productId, target.optionGroupId, target.optionId, target.choiceId].map((part) => part ?? '').join('/');
+
+// Units an order takes from tracked stock, merged per target; linked group choices count on the group
+export function buildStockReservations(items: OrderItem[], products: Map<string, Product>): StockReservation[] {
+  const reservations = new Map<string, StockReservation>();
+  const reserve = (target: StockTarget, qty: number) => {
+    const key = getStockKey(target);
+    reservations.set(key, { ...target, qty: (reservations.get(key)?.qty ?? 0) + qty });
+  };
+
+  items.forEach((item) => {
+    const product = products.get(item.productId);
+    if (!product) return;
+
+    if (product.stock !== undefined) {
+      reserve({ productId: product.id }, item.qty);
+    }
+
+    item.options.forEach((selected) => {
+      const choice = product.options
+        ?.find((option) => option.id === selected.id)
+        ?.choices.find((c) => c.id === selected.choiceId);
+      if (choice?.stock === undefined) return;
+
+      const qty = item.qty * (selected.qty ?? 1);
+      if (product.optionGroupIds?.includes(selected.id)) {
+        reserve({ optionGroupId: selected.id, choiceId: selected.choiceId }, qty);
+      } else {
+        reserve({ productId: product.id, optionId: selected.id, choiceId: selected.choiceId }, qty);
+      }
+    });
+  });
+
+  return [...reservations.values()];
+}
+
+// Take an order's reservations from stock (-1) or give them back (1)
+export const toStockChanges = (reservations: StockReservation[], direction: 1 | -1): StockChange[] =>
+  reservations.map(({ qty, ...target }) => ({ target, delta: direction * qty }));
+
+export const toStockReservations = (results: StockChangeResult[]): StockReservation[] =>
+  results.map((result) => ({ ...result.target, qty: -result.delta }));
+
+// Changes to untracked items are skipped, except absolute counts which start tracking
+export function applyStockChanges(
+  data: StockDocument,
+  changes: StockChange[]
+): { updates: StockDocumentUpdates; results: StockChangeResult[]; shortages: StockShortage[] } {
+  const results: StockChangeResult[] = [];
+  const shortages: StockShortage[] = [];
+  let stock = data.stock;
+  let options = data.options;
+  let choices = data.choices;
+
+  const nextQuantity = (current: number | undefined, change: StockChange, name: string) => {
+    if ('quantity' in change) return change.quantity;
+    if (current === undefined) return undefined;
+    if (current + change.delta < 0) {
+      shortages.push({ target: change.target, name, available: current, requested: -change.delta });
+      return undefined;
+    }
+    return current + change.delta;
+  };
+
+  const record = (change: StockChange, name: string, current: number | undefined, next: number | null) =>
+    results.push({ target: change.target, name, delta: next === null ? 0 : next - (current ?? 0), quantity: next });
+
+  const updateChoice = (choice: ProductChoice, change: StockChange, name: string): ProductChoice => {
+    const next = nextQuantity(choice.stock, change, name);
+    if (next === undefined) return choice;
+
+    record(change, name, choice.stock, next);
+    if (next === null) {
+      const { stock: _stock, ...untracked } = choice;
+      return untracked;
+    }
+    return { ...choice, stock: next };
+  };
+
+  changes.forEach((change) => {
+    const { optionId, choiceId } = change.target;
+
+    if (!choiceId) {
+      const next = nextQuantity(stock, change, data.name);
+      if (next !== undefined) {
+        record(change, data.name, stock, next);
+        stock = next ?? undefined;
+      }
+    } else if (optionId) {
+      options = options?.map((option) => option.id !== optionId ? option : {
+        ...option,
+        choices: option.choices.map((choice) =>
+          choice.id === choiceId ? updateChoice(choice, change, `${data.name} · ${choice.name}`) : choice
+        ),
+      });
+    } else {
+      choices = choices?.map((choice) =>
+        choice.id === choiceId ? updateChoice(choice, change, `${data.name} · ${choice.name}`) : choice
+      );
+    }
+  });
+
+  const updates: StockDocumentUpdates = {};
+  if (stock !== data.stock) {
+    updates.stock = stock ?? null;
+
+    // Products that run out stop selling, and come back once restocked if they were sold out this way
+    if (stock === 0 && data.available) {
+      updates.available = false;
+      updates.soldOut = true;
+    } else if (stock !== 0 && data.soldOut) {
+      updates.available = true;
+      updates.soldOut = false;
+    }
+  }
+  if (options !== data.options) updates.options = options;
+  if (choices !== data.choices) updates.choices = choices;
+
+  return { updates, results, shortages };
+}
+
+// Counts only change through orders and adjustments, so saving a form never overwrites a sale
+export function preserveChoiceStock(choices: ProductChoice[], storedChoices: ProductChoice[] = []): ProductChoice[] {
+  return choices.map((choice) => {
+    const stored = storedChoices.find((item) => item.id === choice.id);
+    if (!stored) return choice;
+
+    const { stock: _stock, ...rest } = choice;
+    return stored.stock === undefined ? rest : { ...rest, stock: stored.stock };
+  });
+}
+
+export const preserveOptionStock = (options: ProductOption[], storedOptions: ProductOption[] = []): ProductOption[] =>
+  options.map((option) => ({
+    ...option,
+    choices: preserveChoiceStock(option.choices, storedOptions.find((item) => item.id === option.id)?.choices),
+  }));
+
+const isLow = (stock: number, lowStockThreshold?: number) =>
+  stock === 0 || (lowStockThreshold !== undefined && stock <= lowStockThreshold);
+
+// Every tracked product and choice with its current count, lowest first
+export function getStockLevels(products: Product[], optionGroups: OptionGroup[]): StockLevel[] {
+  const levels: StockLevel[] = [];
+  const addChoices = (base: StockTarget, owner: string, choices: ProductChoice[]) =>
+    choices
+      .filter((choice) => choice.stock !== undefined)
+      .forEach((choice) => levels.push({
+        ...base,
+        choiceId: choice.id,
+        name: `${owner} · ${choice.name}`,
+        stock: choice.stock as number,
+        lowStockThreshold: choice.lowStockThreshold,
+        low: isLow(choice.stock as number, choice.lowStockThreshold),
+      }));
+
+  products.forEach((product) => {
+    if (product.stock !== undefined) {
+      levels.push({
+        productId: product.id,
+        name: product.name,
+        stock: product.stock,
+        lowStockThreshold: product.lowStockThreshold,
+        low: isLow(product.stock, product.lowStockThreshold),
+      });
+    }
+
+    // Linked groups are listed once, under the group itself
+    (product.options ?? [])
+      .filter((option) => !product.optionGroupIds?.includes(option.id))
+      .forEach((option) => addChoices({ productId: product.id, optionId: option.id }, product.name, option.choices));
+  });
+
+  optionGroups.forEach((group) => addChoices({ optionGroupId: group.id }, group.name, group.choices));
+
+  return levels.sort((a, b) => a.stock - b.stock);
+}
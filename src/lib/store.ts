@@ -1,7 +1,9 @@
 // Zustand store for cart and app state management
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { CartItem, CartState, OrderChannel, SelectedOption } from './types';
+import type { CartItem, CartState, OrderChannel, SelectedOption, Tip } from './types';
+import { calculateOptionsPrice } from './option-rules';
+import { calculateTip } from './utils';
 
 interface CartStore extends CartState {
   // Actions
@@ -12,6 +14,7 @@ interface CartStore extends CartState {
   applyCoupon: (code: string, discount: number) => void;
   removeCoupon: () => void;
   updateFees: (fees: { service?: number; delivery?: number }) => void;
+  setTip: (tip?: Tip) => void;
   setChannel: (channel: OrderChannel) => void;
   setTable: (table: string) => void;
   setRestaurant: (restaurant: string) => void;
@@ -26,6 +29,7 @@ const initialState: CartState = {
   subtotal: 0,
   discounts: 0,
   fees: {},
+  tip: undefined,
   total: 0,
   couponCode: undefined,
 };
@@ -99,6 +103,11 @@ export const useCartStore = create<CartStore>()(
         get().calculateTotals();
       },
 
+      setTip: (tip) => {
+        set({ tip });
+        get().calculateTotals();
+      },
+
       setChannel: (channel) => {
         set({ channel });
         get().calculateTotals();
@@ -116,20 +125,33 @@ export const useCartStore = create<CartStore>()(
         const state = get();
         const subtotal = state.items.reduce(
           (sum, item) => {
-            const optionsPrice = item.options.reduce((optSum, opt) => optSum + opt.price, 0);
+            const optionsPrice = calculateOptionsPrice(item.options);
             return sum + (item.price + optionsPrice) * item.qty;
           },
           0
         );
 
         const feesTotal = Object.values(state.fees).reduce((sum, fee) => sum + (fee || 0), 0);
-        const total = subtotal - state.discounts + feesTotal;
+        const tipAmount = state.tip ? calculateTip(state.tip, subtotal) : 0;
+        const total = subtotal - state.discounts + feesTotal + tipAmount;
 
         set({ subtotal, total });
       },
     }),
     {
       name: 'cart-store',
+      // v1: selected options carry the choice id used by the API to reprice items
+      version: 1,
+      migrate: (persistedState) => {
+        const state = persistedState as CartState;
+        return {
+          items: [],
+          restaurant: state.restaurant,
+          table: state.table,
+          channel: state.channel,
+          couponCode: state.couponCode,
+        };
+      },
       partialize: (state) => ({
         items: state.items,
         restaurant: state.restaurant,
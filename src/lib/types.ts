@@ -15,20 +15,38 @@ export interface Product {
   name: string;
   description: string;
   imageUrl?: string;
-  category: string;
+  categoryId: string;
+  category?: string; // category name, resolved from categoryId when read
   price: number; // in cents
   options?: ProductOption[];
+  optionGroupIds?: string[]; // reusable groups, resolved into options when read
   available: boolean;
   position: number;
   isHighlighted?: boolean;
-  isDaySpecial?: boolean;
+  isDaySpecial?: boolean; // evaluated from specialDays when read, if set
+  schedule?: AvailabilityWindow[]; // sold only inside these windows; missing or empty means always
+  specialDays?: Weekday[]; // weekdays the product is the day special, replacing the manual flag
+  availableNow?: boolean; // available and inside its own and its category's schedule, evaluated when read
+  stock?: number; // units left; missing means stock is not tracked
+  lowStockThreshold?: number; // reported as low stock at or below this count
+  soldOut?: boolean; // turned unavailable automatically when stock reached zero
+  recipe?: RecipeLine[]; // ingredients used by one unit, for the food cost
+}
+
+// Sale window in the restaurant timezone; missing days mean every day and missing from/to the whole day
+export interface AvailabilityWindow {
+  days?: Weekday[];
+  from?: string; // HH:mm
+  to?: string; // HH:mm, at or before from runs past midnight
 }
 
 export interface ProductOption {
   id: string;
   name: string;
   required?: boolean;
+  minSelections?: number;
   maxSelections?: number;
+  maxQuantityPerChoice?: number; // allows "2x extra bacon" when greater than 1
   choices: ProductChoice[];
 }
 
@@ -36,13 +54,33 @@ export interface ProductChoice {
   id: string;
   name: string;
   price: number; // additional price in cents
+  stock?: number; // units left; missing means stock is not tracked
+  lowStockThreshold?: number;
+  recipe?: RecipeLine[]; // ingredients the choice adds, per unit (e.g. extra cheese)
+}
+
+// Restaurant-level option group shared by several products
+export type OptionGroup = ProductOption;
+
+export interface Category {
+  id: string;
+  name: string;
+  description?: string;
+  icon?: string; // emoji shown on the menu tabs
+  imageUrl?: string;
+  position: number;
+  visible: boolean;
+  schedule?: AvailabilityWindow[]; // applies to every product of the category
 }
 
+// A channel with an active menu only sells the products listed on it; channels without one sell the whole catalog
 export interface Menu {
   id: string;
+  name: string;
   active: boolean;
-  categories: MenuCategory[];
-  visibility: ('dine_in' | 'takeaway' | 'delivery')[];
+  productIds: string[];
+  visibility: OrderChannel[];
+  categories?: MenuCategory[]; // legacy category order, used to migrate old data
 }
 
 export interface MenuCategory {
@@ -65,6 +103,8 @@ export type OrderStatus =
   | 'in_preparation' 
   | 'ready' 
   | 'served' 
+  | 'out_for_delivery'
+  | 'delivered'
   | 'closed' 
   | 'canceled';
 
@@ -81,9 +121,11 @@ export interface OrderItem {
 
 export interface SelectedOption {
   id: string;
+  choiceId: string;
   name: string;
   choice: string;
-  price: number; // in cents
+  price: number; // in cents, per unit
+  qty?: number; // defaults to 1
 }
 
 export interface Order {
@@ -99,24 +141,199 @@ export interface Order {
       service?: number;
       delivery?: number;
     };
+    tip?: number; // added by the customer on top of the fees
     total: number;
   };
+  tip?: Tip; // how the tip was chosen; amounts.tip holds what it came to
   customer?: {
     name?: string;
     phone?: string;
   };
+  coupon?: AppliedCoupon;
   payments?: Payment[];
+  billSplit?: BillSplit;
   orderNumber?: number;
+  orderCode?: string;
+  statusHistory?: OrderStatusChange[];
+  serviceFeeChanges?: ServiceFeeChange[]; // staff waivers and adjustments of the service fee
+  cancelReason?: string;
   createdBy?: string;
+  scheduledFor?: Date; // placed while the channel was closed, prepared at the next opening
+  stockReservations?: StockReservation[]; // units taken from stock, given back if the order is canceled
   createdAt: Date;
   updatedAt: Date;
   closedAt?: Date;
 }
 
+// Item whose stock is counted: a product, a choice of its own options or a choice of a shared option group
+export interface StockTarget {
+  productId?: string;
+  optionGroupId?: string;
+  optionId?: string;
+  choiceId?: string;
+}
+
+export interface StockReservation extends StockTarget {
+  qty: number;
+}
+
+export type StockAdjustmentReason = 'order' | 'cancel' | 'restock' | 'count' | 'waste';
+
+// Log entry written with every stock change
+export interface StockAdjustment extends StockTarget {
+  id: string;
+  name: string;
+  delta: number;
+  quantity: number | null; // stock after the change, null once tracking stopped
+  reason: StockAdjustmentReason;
+  orderId?: string;
+  actor?: {
+    userId: string;
+    role?: UserRole;
+  };
+  note?: string;
+  createdAt: Date;
+}
+
+export interface StockLevel extends StockTarget {
+  name: string;
+  stock: number;
+  lowStockThreshold?: number;
+  low: boolean; // at zero or at/below the threshold
+}
+
+export type IngredientUnit = 'g' | 'kg' | 'ml' | 'l' | 'un';
+
+export interface Ingredient {
+  id: string;
+  name: string;
+  unit: IngredientUnit;
+  unitCost: number; // in cents per unit, fractions allowed (e.g. 4.5 per gram)
+}
+
+export interface RecipeLine {
+  ingredientId: string;
+  quantity: number; // in the ingredient's unit
+}
+
+// Food cost of a product at the current ingredient costs, amounts in cents
+export interface ProductCost {
+  productId: string;
+  name: string;
+  categoryId?: string;
+  price: number;
+  foodCost: number;
+  margin: number;
+  marginPercent: number | null; // null for free products
+  hasRecipe: boolean;
+  missingIngredientIds: string[]; // referenced by a recipe but deleted, counted as zero
+  choices: {
+    optionId: string;
+    choiceId: string;
+    name: string;
+    price: number;
+    foodCost: number;
+    margin: number;
+  }[];
+}
+
+export interface ProfitLine {
+  quantity: number;
+  revenue: number; // in cents, options included
+  foodCost: number;
+  grossProfit: number;
+  marginPercent: number | null;
+}
+
+// Gross profit of the products sold in a period, per product and per category
+export interface ProfitReport {
+  dateFrom?: Date;
+  dateTo?: Date;
+  products: (ProfitLine & { productId: string; name: string; categoryId?: string })[];
+  categories: (ProfitLine & { categoryId: string | null; name: string })[];
+  totals: ProfitLine;
+  productsWithoutRecipe: string[]; // sold products whose cost is unknown
+}
+
+export type UserRole = 'admin' | 'manager' | 'staff';
+
+// Signed-in member of the restaurant staff
+export interface AdminUser {
+  id: string;
+  email: string;
+  displayName: string;
+  role: UserRole;
+  restaurantId: string;
+}
+
+export interface OrderStatusChange {
+  from: OrderStatus | null;
+  to: OrderStatus;
+  at: Date;
+  actor?: {
+    userId: string;
+    role?: UserRole;
+  };
+  reason?: string;
+}
+
+// Tip chosen at checkout, a percentage of the subtotal or a fixed amount in cents
+export interface Tip {
+  type: 'percent' | 'fixed';
+  value: number;
+}
+
+export interface ServiceFeeChange {
+  from: number;
+  to: number;
+  reason: string;
+  actor?: {
+    userId: string;
+    role?: UserRole;
+  };
+  at: Date;
+}
+
+export type PaymentMethod = 'cash' | 'card' | 'pix' | 'online';
+
 export interface Payment {
-  method: 'cash' | 'card' | 'pix' | 'online';
+  id: string;
+  method: PaymentMethod;
   amount: number;
+  received?: number; // cash handed over by the customer
   changeDue?: number;
+  shareId?: string; // bill share paid, when the bill is split
+  txid?: string; // Pix charge confirmed by the payment
+  actor?: {
+    userId: string;
+    role?: UserRole;
+  };
+  createdAt: Date;
+}
+
+// Part of a split bill; item shares keep the order lines (index and units) they cover
+export interface BillShare {
+  id: string;
+  label: string;
+  amount: number;
+  items?: { index: number; qty: number }[];
+}
+
+export interface BillSplit {
+  mode: 'equal' | 'items';
+  shares: BillShare[];
+  createdAt: Date;
+}
+
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid';
+
+export interface PaymentSummary {
+  total: number;
+  paid: number;
+  balance: number;
+  changeDue: number;
+  status: PaymentStatus;
+  shares: (BillShare & { paid: number; balance: number })[];
 }
 
 export interface Coupon {
@@ -130,6 +347,60 @@ export interface Coupon {
   active: boolean;
 }
 
+export interface AppliedCoupon {
+  id: string;
+  code: string;
+  type: Coupon['type'];
+  value: number;
+  discount: number; // in cents
+}
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+export interface LocalTime {
+  date: string; // YYYY-MM-DD
+  weekday: Weekday;
+  minutes: number; // since midnight
+}
+
+// HH:mm in the restaurant timezone; a close at or before the open runs past midnight
+export interface OpeningShift {
+  open: string;
+  close: string;
+}
+
+export type WeeklyHours = Record<Weekday, OpeningShift[]>;
+
+// Holiday or special day; no shifts means closed all day
+export interface OpeningException {
+  date: string; // YYYY-MM-DD
+  shifts: OpeningShift[];
+  label?: string;
+}
+
+export interface OpeningHours {
+  enabled: boolean;
+  week: WeeklyHours;
+  channels?: Partial<Record<OrderChannel, WeeklyHours>>;
+  exceptions: OpeningException[];
+  scheduledOrders: {
+    enabled: boolean;
+  };
+}
+
+// Response of GET /opening-hours/status
+export interface OpenState {
+  open: boolean;
+  closesAt?: Date;
+  nextOpenAt?: Date;
+}
+
+export interface OpeningStatus {
+  timezone: string;
+  scheduledOrders: boolean;
+  channels: Record<OrderChannel, OpenState & { enabled: boolean }>;
+}
+
 export interface Settings {
   delivery: {
     enabled: boolean;
@@ -148,6 +419,20 @@ export interface Settings {
     phoneE164?: string;
     messageTemplate?: string;
   };
+  pix: {
+    enabled: boolean;
+    key?: string; // CPF, CNPJ, e-mail, phone (+55...) or random key
+    merchantName?: string; // up to 25 characters
+    merchantCity?: string; // up to 15 characters
+    locationHost?: string; // PSP host serving dynamic charges, e.g. pix.example.com
+  };
+  timezone: string; // IANA timezone of the restaurant: opening hours, menu schedules and the order number business day
+  orderNumbers: {
+    resetDaily: boolean;
+    prefixes?: Partial<Record<OrderChannel, string>>;
+  };
+  prepTimeMinutes: number;
+  openingHours: OpeningHours;
 }
 
 export interface CartItem {
@@ -168,6 +453,7 @@ export interface CartState {
   subtotal: number;
   discounts: number;
   fees: { service?: number; delivery?: number };
+  tip?: Tip;
   total: number;
   couponCode?: string;
 }
\ No newline at end of file
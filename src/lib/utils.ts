@@ -1,6 +1,103 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { Menu, MenuCategory, Order, OrderChannel, Settings, Tip } from "./types"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Discount granted by a coupon, in cents, never above the subtotal
+export function calculateCouponDiscount(
+  coupon: { type: 'percent' | 'fixed'; value: number },
+  subtotal: number
+) {
+  const discount = coupon.type === 'percent'
+    ? Math.round(subtotal * (coupon.value / 100))
+    : coupon.value
+  return Math.min(discount, subtotal)
+}
+
+// Whether the restaurant accepts orders on a channel
+export function isChannelEnabled(settings: Settings, channel: OrderChannel) {
+  if (channel === 'delivery') return settings.delivery.enabled
+  if (channel === 'takeaway') return settings.pickup.enabled
+  return true
+}
+
+// Channel fees from the restaurant settings, mirroring the API
+export function calculateFees(settings: Settings, channel: OrderChannel, subtotal: number) {
+  const fees: { service?: number; delivery?: number } = {}
+  if (channel === 'dine_in' && settings.dineIn.serviceFeePercent) {
+    fees.service = Math.round(subtotal * (settings.dineIn.serviceFeePercent / 100))
+  }
+  if (channel === 'delivery' && settings.delivery.feeValue > 0) {
+    fees.delivery = settings.delivery.feeValue
+  }
+  return fees
+}
+
+// Tip added at checkout, in cents; percentages are taken on the subtotal
+export function calculateTip(tip: Tip, subtotal: number) {
+  return tip.type === 'percent' ? Math.round(subtotal * (tip.value / 100)) : tip.value
+}
+
+// Order total from its amounts, mirroring the API
+export function calculateTotal(amounts: Omit<Order['amounts'], 'total'>) {
+  return amounts.subtotal - amounts.discounts
+    + (amounts.fees.service || 0) + (amounts.fees.delivery || 0) + (amounts.tip || 0)
+}
+
+// Business day in the restaurant timezone (YYYY-MM-DD)
+export function getBusinessDate(date: Date, timezone: string) {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date)
+}
+
+// Display code for an order number, e.g. D-012 for delivery
+export function formatOrderCode(
+  orderNumber: number,
+  channel: OrderChannel,
+  settings: Settings['orderNumbers']
+) {
+  const number = String(orderNumber).padStart(3, '0')
+  const prefix = settings.prefixes?.[channel]
+  return prefix ? `${prefix}-${number}` : number
+}
+
+// Copy of a list with one item moved, used by the reorder controls
+export function moveItem<T>(items: T[], from: number, to: number) {
+  const next = [...items]
+  const [item] = next.splice(from, 1)
+  next.splice(to, 0, item)
+  return next
+}
+
+// Category names in menu order; categories not ordered yet go last, alphabetically (mirrors the API)
+export function sortCategoriesByMenu(names: string[], menuCategories: MenuCategory[] = []) {
+  const positions = new Map(menuCategories.map((category) => [category.name, category.position]))
+
+  return [...new Set(names)].sort((a, b) => {
+    const positionA = positions.get(a)
+    const positionB = positions.get(b)
+
+    if (positionA !== undefined && positionB !== undefined && positionA !== positionB) {
+      return positionA - positionB
+    }
+    if (positionA !== undefined && positionB === undefined) return -1
+    if (positionA === undefined && positionB !== undefined) return 1
+
+    return a.localeCompare(b)
+  })
+}
+
+// Products sold on a channel: the union of its active menus, or null when no menu covers it (mirrors the API)
+export function getChannelProductIds(menus: Menu[], channel: OrderChannel) {
+  const channelMenus = menus.filter((menu) => menu.active && menu.visibility.includes(channel))
+  if (channelMenus.length === 0) return null
+
+  return new Set(channelMenus.flatMap((menu) => menu.productIds))
+}
@@ -0,0 +1,239 @@
+import { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { OrderStatusBadge } from "@/components/admin/OrderStatusBadge";
+import { useToast } from "@/hooks/use-toast";
+import { createMockService } from "@/lib/mock-service";
+import { getNextStatus } from "@/lib/order-status";
+import type { Order, OrderStatus } from "@/lib/types";
+import { CalendarClock, ChefHat, ChevronRight, MapPin, Store, Utensils } from "lucide-react";
+
+// Statuses handled by the kitchen; served and delivery steps happen outside of it
+const KITCHEN_COLUMNS: { status: OrderStatus; title: string }[] = [
+  { status: "placed", title: "Novos" },
+  { status: "confirmed", title: "Confirmados" },
+  { status: "in_preparation", title: "Em preparo" },
+  { status: "ready", title: "Prontos" },
+];
+
+const BUMP_LABELS: Partial<Record<OrderStatus, string>> = {
+  confirmed: "Confirmar",
+  in_preparation: "Iniciar preparo",
+  ready: "Pronto",
+  served: "Entregue",
+  out_for_delivery: "Saiu p/ entrega",
+};
+
+const WARNING_MINUTES = 10;
+const LATE_MINUTES = 20;
+
+// Scheduled orders start counting when the restaurant opens, not when they were placed
+const getStartedAt = (order: Order) => order.scheduledFor ?? order.createdAt;
+
+const getElapsedMinutes = (order: Order, now: Date) =>
+  Math.floor((now.getTime() - getStartedAt(order).getTime()) / 60000);
+
+const getElapsedClassName = (minutes: number) => {
+  if (minutes >= LATE_MINUTES) return "border-destructive bg-destructive/5";
+  if (minutes >= WARNING_MINUTES) return "border-yellow-400 bg-yellow-50";
+  return "border-border";
+};
+
+const getChannelLabel = (order: Order) => {
+  switch (order.channel) {
+    case "dine_in":
+      return { icon: <Utensils className="w-4 h-4" />, label: `Mesa ${order.tableId ?? "-"}` };
+    case "delivery":
+      return { icon: <MapPin className="w-4 h-4" />, label: "Delivery" };
+    default:
+      return { icon: <Store className="w-4 h-4" />, label: "Retirada" };
+  }
+};
+
+interface KitchenTicketProps {
+  order: Order;
+  now: Date;
+  bumping: boolean;
+  onBump: (order: Order) => void;
+}
+
+function KitchenTicket({ order, now, bumping, onBump }: KitchenTicketProps) {
+  const minutes = getElapsedMinutes(order, now);
+  const nextStatus = getNextStatus(order.channel, order.status);
+  const channel = getChannelLabel(order);
+
+  return (
+    <Card className={`border-2 ${getElapsedClassName(minutes)}`}>
+      <CardHeader className="p-3 pb-2">
+        <div className="flex items-center justify-between">
+          <span className="text-2xl font-bold">
+            #{order.orderCode ?? order.orderNumber}
+          </span>
+          <span
+            className={`text-lg font-semibold ${
+              minutes >= LATE_MINUTES ? "text-destructive" : ""
+            }`}
+          >
+            {minutes < 0 ? (
+              <span className="flex items-center gap-1">
+                <CalendarClock className="w-4 h-4" />
+                {getStartedAt(order).toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" })}
+              </span>
+            ) : (
+              `${minutes} min`
+            )}
+          </span>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <Badge variant="outline" className="flex items-center gap-1">
+            {channel.icon}
+            {channel.label}
+          </Badge>
+          <OrderStatusBadge status={order.status} size="sm" />
+        </div>
+        {order.customer?.name && (
+          <p className="text-sm text-muted-foreground">{order.customer.name}</p>
+        )}
+      </CardHeader>
+
+      <CardContent className="p-3 pt-0 space-y-3">
+        <ul className="space-y-2">
+          {order.items.map((item, index) => (
+            <li key={`${item.productId}-${index}`} className="border-t pt-2">
+              <p className="text-lg font-semibold">
+                {item.qty}x {item.name}
+              </p>
+              {item.options.length > 0 && (
+                <ul className="mt-1 space-y-0.5">
+                  {item.options.map((option) => (
+                    <li key={`${option.id}-${option.choiceId}`} className="text-base font-medium text-primary">
+                      • {option.qty && option.qty > 1 ? `${option.qty}x ` : ""}
+                      {option.choice}
+                      <span className="text-sm text-muted-foreground"> ({option.name})</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {item.notes && (
+                <p className="mt-1 rounded bg-yellow-100 px-2 py-1 text-base font-semibold text-yellow-900">
+                  Obs: {item.notes}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {nextStatus && (
+          <Button
+            className="w-full h-14 text-lg"
+            disabled={bumping}
+            onClick={() => onBump(order)}
+          >
+            {BUMP_LABELS[nextStatus] ?? "Avançar"}
+            <ChevronRight className="w-5 h-5 ml-1" />
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function KitchenPage() {
+  const params = useParams();
+  const restaurantSlug = params.restaurant || "demo-restaurant";
+
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [bumpingIds, setBumpingIds] = useState<Set<string>>(new Set());
+  const [now, setNow] = useState(new Date());
+  const { toast } = useToast();
+
+  // Live updates
+  useEffect(() => {
+    const mockService = createMockService(restaurantSlug);
+    return mockService.subscribeToOrders(setOrders);
+  }, [restaurantSlug]);
+
+  // Refresh elapsed times
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleBump = async (order: Order) => {
+    const nextStatus = getNextStatus(order.channel, order.status);
+    if (!nextStatus) return;
+
+    setBumpingIds((ids) => new Set(ids).add(order.id));
+    try {
+      await createMockService(restaurantSlug).updateOrderStatus(order.id, nextStatus);
+    } catch (error) {
+      console.error("Error updating order status:", error);
+      toast({
+        title: "Não foi possível atualizar o pedido",
+        description: "O status do pedido mudou. Confira o ticket novamente.",
+        variant: "destructive",
+      });
+    } finally {
+      setBumpingIds((ids) => {
+        const next = new Set(ids);
+        next.delete(order.id);
+        return next;
+      });
+    }
+  };
+
+  // Oldest tickets first inside each column
+  const getColumnOrders = (status: OrderStatus) =>
+    orders
+      .filter((order) => order.status === status)
+      .sort((a, b) => getStartedAt(a).getTime() - getStartedAt(b).getTime());
+
+  return (
+    <div className="h-screen flex flex-col bg-muted/30">
+      <header className="flex items-center justify-between border-b bg-background px-6 py-3">
+        <div className="flex items-center gap-2">
+          <ChefHat className="w-6 h-6" />
+          <h1 className="text-xl font-bold">Cozinha</h1>
+        </div>
+        <span className="text-lg font-semibold">
+          {now.toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" })}
+        </span>
+      </header>
+
+      <main className="flex-1 grid grid-cols-4 gap-4 p-4 min-h-0">
+        {KITCHEN_COLUMNS.map((column) => {
+          const columnOrders = getColumnOrders(column.status);
+
+          return (
+            <section key={column.status} className="flex flex-col min-h-0 rounded-lg bg-background">
+              <div className="flex items-center justify-between border-b px-4 py-3">
+                <h2 className="text-lg font-semibold">{column.title}</h2>
+                <Badge variant="secondary">{columnOrders.length}</Badge>
+              </div>
+              <ScrollArea className="flex-1">
+                <div className="space-y-3 p-3">
+                  {columnOrders.length === 0 ? (
+                    <p className="py-8 text-center text-muted-foreground">Nenhum pedido</p>
+                  ) : (
+                    columnOrders.map((order) => (
+                      <KitchenTicket
+                        key={order.id}
+                        order={order}
+                        now={now}
+                        bumping={bumpingIds.has(order.id)}
+                        onBump={handleBump}
+                      />
+                    ))
+                  )}
+                </div>
+              </ScrollArea>
+            </section>
+          );
+        })}
+      </main>
+    </div>
+  );
+}
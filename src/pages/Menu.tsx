@@ -13,6 +13,12 @@ import { MenuList } from "@/components/menu/MenuList";
 import { CartDrawer } from "@/components/cart/CartDrawer";
 import { Store, MapPin, Clock, Phone, Utensils } from "lucide-react";
 import { useCartStore } from "@/lib/store";
+import { createMockService } from "@/lib/mock-service";
+import { formatOpeningTime, summarizeWeek } from "@/lib/opening-hours";
+import type { OpeningStatus, Settings } from "@/lib/types";
+
+// Refresh the open state so the page closes or opens without a reload
+const STATUS_REFRESH_MS = 60000;
 
 export default function MenuPage() {
   const params = useParams();
@@ -36,10 +42,36 @@ export default function MenuPage() {
     phone: "(11) 99999-9999",
     logoUrl: null,
     coverUrl: null,
-    isOpen: true,
-    hours: "Seg-Dom: 11h às 23h",
   };
 
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [openingStatus, setOpeningStatus] = useState<OpeningStatus | null>(null);
+
+  useEffect(() => {
+    const mockService = createMockService(restaurantSlug);
+    const loadStatus = () =>
+      mockService
+        .getOpeningStatus()
+        .then(setOpeningStatus)
+        .catch((error) => console.error("Error loading opening hours:", error));
+
+    mockService.getSettings().then(setSettings);
+    loadStatus();
+
+    const interval = setInterval(loadStatus, STATUS_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [restaurantSlug]);
+
+  // Assume open until the status arrives, the API still refuses orders when closed
+  const openState = openingStatus?.channels[channel as keyof OpeningStatus["channels"]];
+  const timezone = openingStatus?.timezone ?? "America/Sao_Paulo";
+  const isOpen = openState?.open ?? true;
+  const scheduledFor =
+    !isOpen && openingStatus?.scheduledOrders ? openState?.nextOpenAt : undefined;
+  const hours = settings?.openingHours.enabled
+    ? summarizeWeek(settings.openingHours, channel).join(" | ")
+    : null;
+
   useEffect(() => {
     setRestaurant(restaurantSlug);
     if (tableNumber) {
@@ -113,15 +145,19 @@ export default function MenuPage() {
                 {channelInfo.icon}
                 {channelInfo.badge}
               </Badge>
-              {restaurant.isOpen ? (
+              {isOpen ? (
                 <Badge className="bg-success text-success-foreground">
                   <Clock className="w-3 h-3 mr-1" />
                   Aberto
+                  {openState?.closesAt &&
+                    ` · fecha ${formatOpeningTime(openState.closesAt, timezone)}`}
                 </Badge>
               ) : (
                 <Badge variant="destructive">
                   <Clock className="w-3 h-3 mr-1" />
                   Fechado
+                  {openState?.nextOpenAt &&
+                    ` · abre ${formatOpeningTime(openState.nextOpenAt, timezone)}`}
                 </Badge>
               )}
             </div>
@@ -150,10 +186,12 @@ export default function MenuPage() {
                   <Phone className="w-4 h-4 text-muted-foreground" />
                   <span>{restaurant.phone}</span>
                 </div>
-                <div className="flex items-center gap-2 text-sm">
-                  <Clock className="w-4 h-4 text-muted-foreground" />
-                  <span>{restaurant.hours}</span>
-                </div>
+                {hours && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <Clock className="w-4 h-4 text-muted-foreground" />
+                    <span>{hours}</span>
+                  </div>
+                )}
                 {channel === "delivery" && (
                   <div className="sm:col-span-2">
                     <Badge
@@ -170,15 +208,31 @@ export default function MenuPage() {
         </Card>
 
         {/* Menu Items */}
-        {restaurant.isOpen ? (
-          <MenuList restaurantId={restaurantSlug} />
+        {isOpen || scheduledFor ? (
+          <>
+            {scheduledFor && (
+              <Card className="mb-6 border-warning">
+                <CardContent className="flex items-center gap-2 py-4 text-sm">
+                  <Clock className="w-4 h-4 text-warning" />
+                  <span>
+                    Estamos fechados. Pedidos feitos agora serão preparados{" "}
+                    {formatOpeningTime(scheduledFor, timezone)}.
+                  </span>
+                </CardContent>
+              </Card>
+            )}
+            <MenuList restaurantId={restaurantSlug} channel={channel} availableAt={scheduledFor} />
+          </>
         ) : (
           <div className="text-center py-12">
             <Clock className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
             <h3 className="text-xl font-semibold mb-2">Restaurante fechado</h3>
             <p className="text-muted-foreground mb-4">
-              Voltamos a atender em: {restaurant.hours}
+              {openState?.nextOpenAt
+                ? `Voltamos a atender ${formatOpeningTime(openState.nextOpenAt, timezone)}`
+                : "Sem previsão de reabertura"}
             </p>
+            {hours && <p className="text-sm text-muted-foreground mb-4">{hours}</p>}
             <Button variant="outline" disabled>
               Consultar cardápio
             </Button>
@@ -187,8 +241,12 @@ export default function MenuPage() {
       </div>
 
       {/* Cart Drawer */}
-      {restaurant.isOpen && (
-        <CartDrawer restaurantId={restaurantSlug} tableNumber={tableNumber} />
+      {(isOpen || scheduledFor) && (
+        <CartDrawer
+          restaurantId={restaurantSlug}
+          tableNumber={tableNumber}
+          scheduledFor={scheduledFor}
+        />
       )}
     </div>
   );
@@ -0,0 +1,298 @@
+import { useEffect, useState } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { OrderStatusBadge } from "@/components/admin/OrderStatusBadge";
+import { PixChargePanel } from "@/components/PixChargePanel";
+import { useToast } from "@/hooks/use-toast";
+import { createMockService } from "@/lib/mock-service";
+import { calculateOptionsPrice } from "@/lib/option-rules";
+import {
+  ORDER_STATUS_LABELS,
+  TERMINAL_STATUSES,
+  getEstimatedReadyAt,
+  getOrderSteps,
+} from "@/lib/order-status";
+import { getPaymentSummary } from "@/lib/payments";
+import type { Order, Settings } from "@/lib/types";
+import { Check, Clock, Share2, XCircle } from "lucide-react";
+
+const formatPrice = (price: number) => `R$ ${(price / 100).toFixed(2)}`;
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString("pt-BR", { hour: "2-digit", minute: "2-digit" });
+
+const channelLabels = {
+  dine_in: "Consumo no local",
+  takeaway: "Retirada",
+  delivery: "Delivery",
+};
+
+function OrderProgress({ order }: { order: Order }) {
+  const steps = getOrderSteps(order.channel);
+  const currentIndex = steps.indexOf(order.status);
+  // Closed orders went through every step
+  const reachedIndex = order.status === "closed" ? steps.length - 1 : currentIndex;
+
+  return (
+    <ol className="space-y-3">
+      {steps.map((step, index) => {
+        const done = index <= reachedIndex;
+        const current = index === currentIndex;
+        const reachedAt = order.statusHistory?.find((change) => change.to === step)?.at;
+
+        return (
+          <li key={step} className="flex items-center gap-3">
+            <span
+              className={`flex w-8 h-8 shrink-0 items-center justify-center rounded-full border-2 ${
+                done
+                  ? "border-primary bg-primary text-primary-foreground"
+                  : "border-muted-foreground/30 text-muted-foreground"
+              } ${current ? "ring-4 ring-primary/20" : ""}`}
+            >
+              {done ? <Check className="w-4 h-4" /> : index + 1}
+            </span>
+            <div className="flex-1">
+              <p className={`font-medium ${done ? "" : "text-muted-foreground"}`}>
+                {ORDER_STATUS_LABELS[step]}
+              </p>
+              {reachedAt && (
+                <p className="text-xs text-muted-foreground">{formatTime(reachedAt)}</p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+export default function OrderTrackingPage() {
+  const { orderId = "" } = useParams();
+  const [searchParams] = useSearchParams();
+  const restaurantSlug = searchParams.get("restaurant") || "demo-restaurant";
+
+  const [order, setOrder] = useState<Order | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const mockService = createMockService(restaurantSlug);
+    mockService.getSettings().then(setSettings);
+
+    return mockService.subscribeToOrder(orderId, (current) => {
+      setOrder(current);
+      setLoading(false);
+    });
+  }, [restaurantSlug, orderId]);
+
+  const handleShare = async () => {
+    const url = window.location.href;
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: "Acompanhe meu pedido", url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        toast({ title: "Link copiado!", description: "Envie o link para acompanhar o pedido." });
+      }
+    } catch (error) {
+      console.error("Error sharing order link:", error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto max-w-xl px-4 py-6 space-y-4">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="text-center">
+          <XCircle className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+          <h1 className="text-xl font-semibold mb-2">Pedido não encontrado</h1>
+          <p className="text-muted-foreground mb-4">
+            Confira o link ou faça um novo pedido.
+          </p>
+          <Button asChild variant="outline">
+            <Link to={`/menu/${restaurantSlug}`}>Ver cardápio</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const estimatedReadyAt = settings
+    ? getEstimatedReadyAt(order, settings.prepTimeMinutes)
+    : null;
+
+  const payment = getPaymentSummary(order);
+  const canPayWithPix = !!settings?.pix.enabled && !TERMINAL_STATUSES.includes(order.status);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-xl px-4 py-6 space-y-4">
+        <Card className="card-elevated">
+          <CardHeader>
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <CardDescription>Pedido</CardDescription>
+                <CardTitle className="text-3xl">
+                  #{order.orderCode ?? order.orderNumber}
+                </CardTitle>
+              </div>
+              <OrderStatusBadge status={order.status} size="lg" />
+            </div>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Badge variant="outline">{channelLabels[order.channel]}</Badge>
+              {order.tableId && <span>Mesa {order.tableId}</span>}
+              <span>Feito às {formatTime(order.createdAt)}</span>
+            </div>
+            {order.scheduledFor && (
+              <p className="text-sm text-muted-foreground">
+                Agendado para {order.scheduledFor.toLocaleString("pt-BR", {
+                  day: "2-digit",
+                  month: "2-digit",
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+              </p>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {order.status === "canceled" ? (
+              <p className="text-destructive">
+                Este pedido foi cancelado
+                {order.cancelReason ? `: ${order.cancelReason}` : "."}
+              </p>
+            ) : (
+              <>
+                {estimatedReadyAt && (
+                  <div className="flex items-center gap-2 rounded-lg bg-muted/50 p-3">
+                    <Clock className="w-5 h-5 text-primary" />
+                    <span>
+                      Previsão de ficar pronto: <strong>{formatTime(estimatedReadyAt)}</strong>
+                    </span>
+                  </div>
+                )}
+                <OrderProgress order={order} />
+              </>
+            )}
+
+            <Button variant="outline" className="w-full" onClick={handleShare}>
+              <Share2 className="w-4 h-4 mr-2" />
+              Compartilhar acompanhamento
+            </Button>
+          </CardContent>
+        </Card>
+
+        {order.status !== "canceled" && (payment.status === "paid" || (canPayWithPix && payment.balance > 0)) && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Pagamento</CardTitle>
+              {payment.status !== "paid" && (
+                <CardDescription>
+                  Pague com Pix pelo QR Code ou pelo código copia e cola. A confirmação aparece aqui.
+                </CardDescription>
+              )}
+            </CardHeader>
+            <CardContent>
+              {payment.status === "paid" ? (
+                <div className="flex items-center gap-2 text-primary">
+                  <Check className="w-5 h-5" />
+                  <span className="font-medium">Pagamento confirmado</span>
+                </div>
+              ) : (
+                <PixChargePanel restaurantId={restaurantSlug} orderId={order.id} balance={payment.balance} />
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Resumo</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {order.items.map((item, index) => (
+              <div key={`${item.productId}-${index}`} className="flex justify-between gap-2 text-sm">
+                <div>
+                  <p className="font-medium">
+                    {item.qty}x {item.name}
+                  </p>
+                  {item.options.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {item.options
+                        .map((option) => `${option.qty && option.qty > 1 ? `${option.qty}x ` : ""}${option.choice}`)
+                        .join(", ")}
+                    </p>
+                  )}
+                  {item.notes && (
+                    <p className="text-xs text-muted-foreground">Obs: {item.notes}</p>
+                  )}
+                </div>
+                <span>
+                  {formatPrice((item.unitPrice + calculateOptionsPrice(item.options)) * item.qty)}
+                </span>
+              </div>
+            ))}
+
+            <Separator />
+
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span>Subtotal:</span>
+                <span>{formatPrice(order.amounts.subtotal)}</span>
+              </div>
+              {order.amounts.discounts > 0 && (
+                <div className="flex justify-between text-accent">
+                  <span>Desconto{order.coupon ? ` (${order.coupon.code})` : ""}:</span>
+                  <span>-{formatPrice(order.amounts.discounts)}</span>
+                </div>
+              )}
+              {!!order.amounts.fees.service && (
+                <div className="flex justify-between">
+                  <span>Taxa de serviço:</span>
+                  <span>{formatPrice(order.amounts.fees.service)}</span>
+                </div>
+              )}
+              {!!order.amounts.fees.delivery && (
+                <div className="flex justify-between">
+                  <span>Taxa de entrega:</span>
+                  <span>{formatPrice(order.amounts.fees.delivery)}</span>
+                </div>
+              )}
+              {!!order.amounts.tip && (
+                <div className="flex justify-between">
+                  <span>Gorjeta:</span>
+                  <span>{formatPrice(order.amounts.tip)}</span>
+                </div>
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="flex justify-between font-bold text-lg">
+              <span>Total:</span>
+              <span className="text-primary">{formatPrice(order.amounts.total)}</span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
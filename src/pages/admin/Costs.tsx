@@ -0,0 +1,522 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { IngredientFormDialog } from "@/components/admin/IngredientFormDialog";
+import { RecipeDialog, type RecipeSection } from "@/components/admin/RecipeDialog";
+import { useToast } from "@/hooks/use-toast";
+import { hasRole, useAuthStore } from "@/lib/auth";
+import { createMockService } from "@/lib/mock-service";
+import type { IngredientFormValues } from "@/lib/schemas";
+import type {
+  Ingredient,
+  OptionGroup,
+  Product,
+  ProductChoice,
+  ProductCost,
+  ProfitLine,
+  ProfitReport,
+  RecipeLine,
+} from "@/lib/types";
+import { AlertTriangle, Plus } from "lucide-react";
+
+const formatPrice = (price: number) => `R$ ${(price / 100).toFixed(2)}`;
+const formatPercent = (percent: number | null) => (percent === null ? "—" : `${percent.toFixed(1)}%`);
+
+// Empty recipes are removed instead of stored
+const withRecipe = (choice: ProductChoice, recipe: RecipeLine[] = []): ProductChoice => {
+  const { recipe: _recipe, ...rest } = choice;
+  return recipe.length > 0 ? { ...rest, recipe } : rest;
+};
+
+interface RecipeEditing {
+  title: string;
+  sections: RecipeSection[];
+  save: (recipes: Record<string, RecipeLine[]>) => Promise<unknown>;
+}
+
+export default function AdminCostsPage() {
+  const user = useAuthStore((state) => state.user);
+  const restaurantId = user?.restaurantId ?? "demo-restaurant";
+  const canEdit = hasRole(user, "admin", "manager");
+  const canDelete = hasRole(user, "admin");
+  const { toast } = useToast();
+
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [costs, setCosts] = useState<ProductCost[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [optionGroups, setOptionGroups] = useState<OptionGroup[]>([]);
+  const [report, setReport] = useState<ProfitReport | null>(null);
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [editingIngredient, setEditingIngredient] = useState<Ingredient | null>(null);
+  const [isIngredientDialogOpen, setIsIngredientDialogOpen] = useState(false);
+  const [deletingIngredient, setDeletingIngredient] = useState<Ingredient | null>(null);
+  const [recipeEditing, setRecipeEditing] = useState<RecipeEditing | null>(null);
+
+  const loadCatalog = useCallback(async () => {
+    if (!canEdit) return;
+
+    const mockService = createMockService(restaurantId);
+    try {
+      const [ingredientList, costList, productList, groupList] = await Promise.all([
+        mockService.getIngredients(),
+        mockService.getProductCosts(),
+        mockService.getAllProducts(),
+        mockService.getOptionGroups(),
+      ]);
+      setIngredients(ingredientList);
+      setCosts(costList);
+      setProducts(productList);
+      setOptionGroups(groupList);
+    } catch (error) {
+      console.error("Error loading costs:", error);
+    }
+  }, [restaurantId, canEdit]);
+
+  const loadReport = useCallback(async () => {
+    if (!canEdit) return;
+
+    try {
+      setReport(await createMockService(restaurantId).getProfitReport({
+        dateFrom: dateFrom ? new Date(`${dateFrom}T00:00:00`) : undefined,
+        dateTo: dateTo ? new Date(`${dateTo}T23:59:59`) : undefined,
+      }));
+    } catch (error) {
+      console.error("Error loading profit report:", error);
+    }
+  }, [restaurantId, canEdit, dateFrom, dateTo]);
+
+  useEffect(() => {
+    loadCatalog();
+  }, [loadCatalog]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const refresh = async () => {
+    await Promise.all([loadCatalog(), loadReport()]);
+  };
+
+  const openIngredientDialog = (ingredient: Ingredient | null) => {
+    setEditingIngredient(ingredient);
+    setIsIngredientDialogOpen(true);
+  };
+
+  const handleSaveIngredient = async (values: IngredientFormValues) => {
+    const mockService = createMockService(restaurantId);
+    try {
+      if (editingIngredient) {
+        await mockService.updateIngredient(editingIngredient.id, values);
+      } else {
+        await mockService.createIngredient(values);
+      }
+      setIsIngredientDialogOpen(false);
+      await refresh();
+    } catch (error) {
+      console.error("Error saving ingredient:", error);
+      toast({
+        title: "Não foi possível salvar o ingrediente",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteIngredient = async () => {
+    if (!deletingIngredient) return;
+
+    try {
+      await createMockService(restaurantId).deleteIngredient(deletingIngredient.id);
+      await refresh();
+    } catch (error) {
+      console.error("Error deleting ingredient:", error);
+      toast({
+        title: "Não foi possível excluir o ingrediente",
+        description: "Remova o ingrediente das fichas técnicas antes.",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingIngredient(null);
+    }
+  };
+
+  // The product recipe plus the choices of its own options; linked groups are edited on the group
+  const openProductRecipe = (productId: string) => {
+    const product = products.find((item) => item.id === productId);
+    if (!product) return;
+
+    const ownOptions = (product.options ?? []).filter((option) => !product.optionGroupIds?.includes(option.id));
+    setRecipeEditing({
+      title: `Ficha técnica: ${product.name}`,
+      sections: [
+        { key: "product", label: product.name, recipe: product.recipe },
+        ...ownOptions.flatMap((option) =>
+          option.choices.map((choice) => ({
+            key: `${option.id}/${choice.id}`,
+            label: `${option.name} · ${choice.name}`,
+            recipe: choice.recipe,
+          }))
+        ),
+      ],
+      save: (recipes) =>
+        createMockService(restaurantId).updateProduct(product.id, {
+          recipe: recipes.product ?? [],
+          options: ownOptions.map((option) => ({
+            ...option,
+            choices: option.choices.map((choice) => withRecipe(choice, recipes[`${option.id}/${choice.id}`])),
+          })),
+        }),
+    });
+  };
+
+  const openGroupRecipe = (group: OptionGroup) =>
+    setRecipeEditing({
+      title: `Ficha técnica: ${group.name}`,
+      sections: group.choices.map((choice) => ({ key: choice.id, label: choice.name, recipe: choice.recipe })),
+      save: (recipes) =>
+        createMockService(restaurantId).updateOptionGroup(group.id, {
+          choices: group.choices.map((choice) => withRecipe(choice, recipes[choice.id])),
+        }),
+    });
+
+  const handleSaveRecipe = async (recipes: Record<string, RecipeLine[]>) => {
+    if (!recipeEditing) return;
+
+    try {
+      await recipeEditing.save(recipes);
+      setRecipeEditing(null);
+      await refresh();
+    } catch (error) {
+      console.error("Error saving recipe:", error);
+      toast({
+        title: "Não foi possível salvar a ficha técnica",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderProfitCells = (line: ProfitLine) => (
+    <>
+      <TableCell className="text-right">{line.quantity}</TableCell>
+      <TableCell className="text-right">{formatPrice(line.revenue)}</TableCell>
+      <TableCell className="text-right">{formatPrice(line.foodCost)}</TableCell>
+      <TableCell className="text-right font-medium">{formatPrice(line.grossProfit)}</TableCell>
+      <TableCell className="text-right">{formatPercent(line.marginPercent)}</TableCell>
+    </>
+  );
+
+  const profitHeaders = (
+    <>
+      <TableHead className="text-right">Qtd.</TableHead>
+      <TableHead className="text-right">Receita</TableHead>
+      <TableHead className="text-right">Custo</TableHead>
+      <TableHead className="text-right">Lucro bruto</TableHead>
+      <TableHead className="text-right">Margem</TableHead>
+    </>
+  );
+
+  if (!canEdit) {
+    return (
+      <div className="space-y-4">
+        <h1 className="text-2xl font-bold">Custos</h1>
+        <p className="text-muted-foreground">Custos e lucro são visíveis apenas para gerentes e administradores.</p>
+      </div>
+    );
+  }
+
+  const productNames = new Map(products.map((product) => [product.id, product.name]));
+  const ingredientNames = new Map(ingredients.map((ingredient) => [ingredient.id, ingredient.name]));
+
+  return (
+    <div className="space-y-4">
+      <h1 className="text-2xl font-bold">Custos</h1>
+
+      <Tabs defaultValue="profit" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="profit">Lucro</TabsTrigger>
+          <TabsTrigger value="recipes">Fichas técnicas</TabsTrigger>
+          <TabsTrigger value="ingredients">Ingredientes</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="profit" className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="profit-from">De</Label>
+              <Input id="profit-from" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="profit-to">Até</Label>
+              <Input id="profit-to" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+            </div>
+          </div>
+
+          {report && (
+            <>
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                {[
+                  { label: "Receita", value: formatPrice(report.totals.revenue) },
+                  { label: "Custo dos insumos", value: formatPrice(report.totals.foodCost) },
+                  { label: "Lucro bruto", value: formatPrice(report.totals.grossProfit) },
+                  { label: "Margem", value: formatPercent(report.totals.marginPercent) },
+                ].map(({ label, value }) => (
+                  <Card key={label}>
+                    <CardHeader className="pb-2">
+                      <CardDescription>{label}</CardDescription>
+                      <CardTitle className="text-2xl">{value}</CardTitle>
+                    </CardHeader>
+                  </Card>
+                ))}
+              </div>
+
+              {report.productsWithoutRecipe.length > 0 && (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <AlertTriangle className="w-4 h-4 text-destructive" />
+                  Sem ficha técnica, contados sem custo:{" "}
+                  {report.productsWithoutRecipe.map((id) => productNames.get(id) ?? id).join(", ")}
+                </p>
+              )}
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Por categoria</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Categoria</TableHead>
+                        {profitHeaders}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.categories.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+                            Nenhuma venda no período.
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        report.categories.map((category) => (
+                          <TableRow key={category.categoryId ?? "none"}>
+                            <TableCell className="font-medium">{category.name}</TableCell>
+                            {renderProfitCells(category)}
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Por produto</CardTitle>
+                  <CardDescription>Pedidos cancelados não entram; custos pelas fichas técnicas atuais</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Produto</TableHead>
+                        {profitHeaders}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.products.map((product) => (
+                        <TableRow key={product.productId}>
+                          <TableCell className="font-medium">{product.name}</TableCell>
+                          {renderProfitCells(product)}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="recipes" className="space-y-4">
+          <div className="rounded-lg border bg-background">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Produto</TableHead>
+                  <TableHead className="text-right">Preço</TableHead>
+                  <TableHead className="text-right">Custo</TableHead>
+                  <TableHead className="text-right">Margem</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {costs.map((cost) => (
+                  <TableRow key={cost.productId}>
+                    <TableCell>
+                      <span className="font-medium">{cost.name}</span>
+                      {!cost.hasRecipe && <Badge variant="outline" className="ml-2">Sem ficha</Badge>}
+                      {cost.missingIngredientIds.length > 0 && (
+                        <span className="block text-xs text-destructive">
+                          Ingredientes excluídos: {cost.missingIngredientIds.map((id) => ingredientNames.get(id) ?? id).join(", ")}
+                        </span>
+                      )}
+                      {cost.choices.map((choice) => (
+                        <span key={`${choice.optionId}/${choice.choiceId}`} className="block text-xs text-muted-foreground">
+                          {choice.name}: custo {formatPrice(choice.foodCost)}, margem {formatPrice(choice.margin)}
+                        </span>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-right">{formatPrice(cost.price)}</TableCell>
+                    <TableCell className="text-right">{cost.hasRecipe ? formatPrice(cost.foodCost) : "—"}</TableCell>
+                    <TableCell className="text-right">
+                      {cost.hasRecipe ? `${formatPrice(cost.margin)} (${formatPercent(cost.marginPercent)})` : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" onClick={() => openProductRecipe(cost.productId)}>
+                        Ficha técnica
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {optionGroups.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Grupos de opções</CardTitle>
+                <CardDescription>Ingredientes que cada escolha acrescenta, em todos os produtos do grupo</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {optionGroups.map((group) => (
+                  <div key={group.id} className="flex items-center justify-between gap-2">
+                    <span>
+                      {group.name}
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {group.choices.filter((choice) => choice.recipe?.length).length}/{group.choices.length} com ficha
+                      </span>
+                    </span>
+                    <Button size="sm" variant="outline" onClick={() => openGroupRecipe(group)}>
+                      Ficha técnica
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="ingredients" className="space-y-4">
+          <div className="flex justify-end">
+            <Button className="btn-primary" onClick={() => openIngredientDialog(null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Novo ingrediente
+            </Button>
+          </div>
+
+          <div className="rounded-lg border bg-background">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ingrediente</TableHead>
+                  <TableHead className="text-right">Custo por unidade</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ingredients.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="py-8 text-center text-muted-foreground">
+                      Nenhum ingrediente cadastrado.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  ingredients.map((ingredient) => (
+                    <TableRow key={ingredient.id}>
+                      <TableCell className="font-medium">{ingredient.name}</TableCell>
+                      <TableCell className="text-right">
+                        R$ {(ingredient.unitCost / 100).toFixed(4)} / {ingredient.unit}
+                      </TableCell>
+                      <TableCell className="space-x-2 text-right">
+                        <Button size="sm" variant="outline" onClick={() => openIngredientDialog(ingredient)}>
+                          Editar
+                        </Button>
+                        {canDelete && (
+                          <Button size="sm" variant="ghost" onClick={() => setDeletingIngredient(ingredient)}>
+                            Excluir
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      <IngredientFormDialog
+        open={isIngredientDialogOpen}
+        ingredient={editingIngredient}
+        onOpenChange={setIsIngredientDialogOpen}
+        onSubmit={handleSaveIngredient}
+      />
+
+      <RecipeDialog
+        open={!!recipeEditing}
+        title={recipeEditing?.title ?? ""}
+        sections={recipeEditing?.sections ?? []}
+        ingredients={ingredients}
+        onOpenChange={(open) => !open && setRecipeEditing(null)}
+        onSubmit={handleSaveRecipe}
+      />
+
+      <AlertDialog open={!!deletingIngredient} onOpenChange={(open) => !open && setDeletingIngredient(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir ingrediente?</AlertDialogTitle>
+            <AlertDialogDescription>
+              O ingrediente "{deletingIngredient?.name}" será removido. Só é possível excluir ingredientes
+              que não estão em nenhuma ficha técnica.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteIngredient}>Excluir</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
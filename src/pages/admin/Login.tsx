@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Navigate, useLocation, useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useAuthStore } from "@/lib/auth";
+import { LogIn } from "lucide-react";
+
+export default function AdminLoginPage() {
+  const { user, signIn } = useAuthStore();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const restaurantSlug = searchParams.get("restaurant") || "demo-restaurant";
+
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const redirectTo = (location.state as { from?: string } | null)?.from || "/admin/orders";
+
+  if (user) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setIsSigningIn(true);
+
+    try {
+      await signIn(restaurantSlug, email, password);
+      navigate(redirectTo, { replace: true });
+    } catch (error) {
+      console.error("Error signing in:", error);
+      setError("E-mail ou senha inválidos.");
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-muted/30 px-4">
+      <Card className="w-full max-w-sm card-elevated">
+        <CardHeader>
+          <CardTitle>Área administrativa</CardTitle>
+          <CardDescription>Entre com sua conta da equipe</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">E-mail</Label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Senha</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <Button type="submit" className="w-full btn-primary" disabled={isSigningIn}>
+              <LogIn className="w-4 h-4 mr-2" />
+              {isSigningIn ? "Entrando..." : "Entrar"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
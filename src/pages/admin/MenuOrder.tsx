@@ -0,0 +1,282 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CategoryFormDialog } from "@/components/admin/CategoryFormDialog";
+import { SortableList } from "@/components/admin/SortableList";
+import { useToast } from "@/hooks/use-toast";
+import { hasRole, useAuthStore } from "@/lib/auth";
+import { createMockService } from "@/lib/mock-service";
+import type { CategoryFormValues } from "@/lib/schemas";
+import type { Category, Product } from "@/lib/types";
+import { EyeOff, Pencil, Plus, Trash2 } from "lucide-react";
+
+export default function AdminMenuOrderPage() {
+  const user = useAuthStore((state) => state.user);
+  const restaurantId = user?.restaurantId ?? "demo-restaurant";
+  const canEdit = hasRole(user, "admin", "manager");
+  const canDelete = hasRole(user, "admin");
+  const { toast } = useToast();
+
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [productsByCategory, setProductsByCategory] = useState<Record<string, Product[]>>({});
+  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [deletingCategory, setDeletingCategory] = useState<Category | null>(null);
+
+  const loadMenu = useCallback(async () => {
+    try {
+      const mockService = createMockService(restaurantId);
+      const [products, categoryList] = await Promise.all([
+        mockService.getAllProducts(),
+        mockService.getCategories(),
+      ]);
+
+      setCategories(categoryList);
+      setProductsByCategory(
+        Object.fromEntries(
+          categoryList.map((category) => [
+            category.id,
+            products.filter((product) => product.categoryId === category.id),
+          ])
+        )
+      );
+      setSelectedCategory((current) => current ?? categoryList[0]?.id ?? null);
+      setIsDirty(false);
+    } catch (error) {
+      console.error("Error loading menu:", error);
+    }
+  }, [restaurantId]);
+
+  useEffect(() => {
+    loadMenu();
+  }, [loadMenu]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const mockService = createMockService(restaurantId);
+
+      // Positions run across the whole menu, so the product list in admin follows the same order
+      const updates = categories
+        .flatMap((category) => productsByCategory[category.id] ?? [])
+        .map((product, index) => ({ id: product.id, position: index + 1 }));
+
+      await mockService.updateCategoryPositions(
+        categories.map((category, index) => ({ id: category.id, position: index + 1 }))
+      );
+      await mockService.updateProductPositions(updates);
+      await loadMenu();
+      toast({ title: "Ordem do cardápio salva" });
+    } catch (error) {
+      console.error("Error saving menu order:", error);
+      toast({ title: "Não foi possível salvar a ordem", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Category edits are applied in place so an unsaved reorder is kept
+  const handleCategorySubmit = async (values: CategoryFormValues) => {
+    const mockService = createMockService(restaurantId);
+    const data = {
+      ...values,
+      description: values.description || undefined,
+      icon: values.icon || undefined,
+      imageUrl: values.imageUrl || undefined,
+    };
+
+    try {
+      if (editingCategory) {
+        const category = await mockService.updateCategory(editingCategory.id, data);
+        setCategories(categories.map((c) => (c.id === category.id ? category : c)));
+      } else {
+        const category = await mockService.createCategory(data);
+        setCategories([...categories, category]);
+        setProductsByCategory({ ...productsByCategory, [category.id]: [] });
+        setSelectedCategory(category.id);
+      }
+      setIsFormOpen(false);
+    } catch (error) {
+      console.error("Error saving category:", error);
+      toast({
+        title: "Não foi possível salvar a categoria",
+        description: "Verifique se já não existe uma categoria com esse nome.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCategoryDelete = async () => {
+    if (!deletingCategory) return;
+
+    try {
+      await createMockService(restaurantId).deleteCategory(deletingCategory.id);
+      setCategories(categories.filter((category) => category.id !== deletingCategory.id));
+      if (selectedCategory === deletingCategory.id) {
+        setSelectedCategory(null);
+      }
+    } catch (error) {
+      console.error("Error deleting category:", error);
+      toast({
+        title: "Não foi possível excluir a categoria",
+        description: "Mova ou exclua os produtos da categoria antes.",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingCategory(null);
+    }
+  };
+
+  const openForm = (category: Category | null) => {
+    setEditingCategory(category);
+    setIsFormOpen(true);
+  };
+
+  const selected = categories.find((category) => category.id === selectedCategory);
+  const selectedProducts = selectedCategory ? productsByCategory[selectedCategory] ?? [] : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Cardápio</h1>
+          <p className="text-sm text-muted-foreground">
+            Gerencie as categorias e arraste categorias e produtos para definir a ordem exibida aos clientes.
+          </p>
+        </div>
+        {canEdit && (
+          <Button className="btn-primary" onClick={handleSave} disabled={!isDirty || isSaving}>
+            {isSaving ? "Salvando..." : "Salvar"}
+          </Button>
+        )}
+      </div>
+
+      <fieldset disabled={!canEdit} className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="text-lg">Categorias</CardTitle>
+              <CardDescription>Selecione uma categoria para ordenar seus produtos</CardDescription>
+            </div>
+            {canEdit && (
+              <Button size="sm" variant="outline" onClick={() => openForm(null)}>
+                <Plus className="w-4 h-4 mr-1" />
+                Nova categoria
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            <SortableList
+              items={categories}
+              getKey={(category) => category.id}
+              onReorder={(items) => {
+                setCategories(items);
+                setIsDirty(true);
+              }}
+              renderItem={(category) => (
+                <div className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    className={`flex min-w-0 flex-1 items-center justify-between gap-2 py-1 text-left ${
+                      category.id === selectedCategory ? "font-semibold text-primary" : ""
+                    }`}
+                    onClick={() => setSelectedCategory(category.id)}
+                  >
+                    <span className="truncate">
+                      {category.icon && <span className="mr-1">{category.icon}</span>}
+                      {category.name}
+                    </span>
+                    <span className="flex shrink-0 items-center gap-1">
+                      {!category.visible && <EyeOff className="w-4 h-4 text-muted-foreground" />}
+                      <Badge variant="outline">{productsByCategory[category.id]?.length ?? 0}</Badge>
+                    </span>
+                  </button>
+                  {canEdit && (
+                    <Button size="sm" variant="ghost" onClick={() => openForm(category)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {canDelete && (
+                    <Button size="sm" variant="ghost" onClick={() => setDeletingCategory(category)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{selected?.name ?? "Produtos"}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {selectedProducts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhum produto nesta categoria</p>
+            ) : (
+              <SortableList
+                items={selectedProducts}
+                getKey={(product) => product.id}
+                onReorder={(items) => {
+                  if (!selectedCategory) return;
+                  setProductsByCategory({ ...productsByCategory, [selectedCategory]: items });
+                  setIsDirty(true);
+                }}
+                renderItem={(product) => (
+                  <div className={`flex items-center justify-between py-1 ${product.available ? "" : "opacity-60"}`}>
+                    <span className="truncate">{product.name}</span>
+                    {!product.available && <Badge variant="outline">Indisponível</Badge>}
+                  </div>
+                )}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </fieldset>
+
+      <CategoryFormDialog
+        open={isFormOpen}
+        category={editingCategory}
+        onOpenChange={setIsFormOpen}
+        onSubmit={handleCategorySubmit}
+      />
+
+      <AlertDialog open={!!deletingCategory} onOpenChange={(open) => !open && setDeletingCategory(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir categoria?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A categoria "{deletingCategory?.name}" será removida do cardápio. Só é possível excluir
+              categorias sem produtos.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCategoryDelete}>Excluir</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
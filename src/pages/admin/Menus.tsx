@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { MenuFormDialog } from "@/components/admin/MenuFormDialog";
+import { useToast } from "@/hooks/use-toast";
+import { hasRole, useAuthStore } from "@/lib/auth";
+import { createMockService } from "@/lib/mock-service";
+import type { MenuFormValues } from "@/lib/schemas";
+import type { Category, Menu, OrderChannel, Product } from "@/lib/types";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+
+const channelLabels: Record<OrderChannel, string> = {
+  dine_in: "Mesa",
+  takeaway: "Retirada",
+  delivery: "Delivery",
+};
+
+export default function AdminMenusPage() {
+  const user = useAuthStore((state) => state.user);
+  const restaurantId = user?.restaurantId ?? "demo-restaurant";
+  const canEdit = hasRole(user, "admin", "manager");
+  const canDelete = hasRole(user, "admin");
+  const { toast } = useToast();
+
+  const [menus, setMenus] = useState<Menu[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [editingMenu, setEditingMenu] = useState<Menu | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [deletingMenu, setDeletingMenu] = useState<Menu | null>(null);
+
+  const loadMenus = useCallback(async () => {
+    try {
+      const mockService = createMockService(restaurantId);
+      const [menuList, productList, categoryList] = await Promise.all([
+        mockService.getMenus(),
+        mockService.getAllProducts(),
+        mockService.getCategories(),
+      ]);
+      setMenus(menuList);
+      setProducts(productList);
+      setCategories(categoryList);
+    } catch (error) {
+      console.error("Error loading menus:", error);
+    }
+  }, [restaurantId]);
+
+  useEffect(() => {
+    loadMenus();
+  }, [loadMenus]);
+
+  const runUpdate = async (update: () => Promise<unknown>) => {
+    try {
+      await update();
+      await loadMenus();
+    } catch (error) {
+      console.error("Error updating menu:", error);
+      toast({ title: "Não foi possível salvar o cardápio", variant: "destructive" });
+    }
+  };
+
+  const handleSubmit = async (values: MenuFormValues) => {
+    const mockService = createMockService(restaurantId);
+
+    await runUpdate(() =>
+      editingMenu ? mockService.updateMenu(editingMenu.id, values) : mockService.createMenu(values)
+    );
+    setIsFormOpen(false);
+  };
+
+  const handleDelete = async () => {
+    if (!deletingMenu) return;
+    await runUpdate(() => createMockService(restaurantId).deleteMenu(deletingMenu.id));
+    setDeletingMenu(null);
+  };
+
+  const openForm = (menu: Menu | null) => {
+    setEditingMenu(menu);
+    setIsFormOpen(true);
+  };
+
+  // Channels left without an active menu sell the whole catalog
+  const uncoveredChannels = (Object.keys(channelLabels) as OrderChannel[]).filter(
+    (channel) => !menus.some((menu) => menu.active && menu.visibility.includes(channel))
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Cardápios por canal</h1>
+          <p className="text-sm text-muted-foreground">
+            Cada canal mostra apenas os produtos dos seus cardápios ativos.
+          </p>
+        </div>
+        {canEdit && (
+          <Button className="btn-primary" onClick={() => openForm(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Novo cardápio
+          </Button>
+        )}
+      </div>
+
+      {uncoveredChannels.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Sem cardápio ativo: {uncoveredChannels.map((channel) => channelLabels[channel]).join(", ")}. Esses
+          canais mostram todos os produtos.
+        </p>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {menus.map((menu) => (
+          <Card key={menu.id} className={menu.active ? "" : "opacity-60"}>
+            <CardHeader>
+              <CardTitle className="text-lg">{menu.name}</CardTitle>
+              <CardDescription>{menu.productIds.length} produtos</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {menu.visibility.map((channel) => (
+                  <Badge key={channel} variant="outline">
+                    {channelLabels[channel]}
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`active-${menu.id}`}
+                    checked={menu.active}
+                    disabled={!canEdit}
+                    onCheckedChange={(active) =>
+                      runUpdate(() => createMockService(restaurantId).updateMenu(menu.id, { active }))
+                    }
+                  />
+                  <Label htmlFor={`active-${menu.id}`}>Ativo</Label>
+                </div>
+                <div className="flex gap-1">
+                  {canEdit && (
+                    <Button size="sm" variant="ghost" onClick={() => openForm(menu)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {canDelete && (
+                    <Button size="sm" variant="ghost" onClick={() => setDeletingMenu(menu)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <MenuFormDialog
+        open={isFormOpen}
+        menu={editingMenu}
+        categories={categories}
+        products={products}
+        onOpenChange={setIsFormOpen}
+        onSubmit={handleSubmit}
+      />
+
+      <AlertDialog open={!!deletingMenu} onOpenChange={(open) => !open && setDeletingMenu(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir {deletingMenu?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Os canais deste cardápio passam a usar os outros cardápios ativos ou, se não houver, todo o catálogo.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Excluir</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ProductOptionsEditor } from "@/components/admin/ProductOptionsEditor";
+import { useToast } from "@/hooks/use-toast";
+import { hasRole, useAuthStore } from "@/lib/auth";
+import { createMockService } from "@/lib/mock-service";
+import { productOptionFormSchema } from "@/lib/schemas";
+import type { OptionGroup, Product } from "@/lib/types";
+
+export default function AdminOptionGroupsPage() {
+  const user = useAuthStore((state) => state.user);
+  const restaurantId = user?.restaurantId ?? "demo-restaurant";
+  const canEdit = hasRole(user, "admin", "manager");
+  const canDelete = hasRole(user, "admin");
+  const { toast } = useToast();
+
+  const [savedGroups, setSavedGroups] = useState<OptionGroup[]>([]);
+  const [groups, setGroups] = useState<OptionGroup[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showErrors, setShowErrors] = useState(false);
+
+  const loadGroups = useCallback(async () => {
+    try {
+      const mockService = createMockService(restaurantId);
+      const loaded = await mockService.getOptionGroups();
+      setSavedGroups(loaded);
+      setGroups(loaded);
+      setProducts(await mockService.getAllProducts());
+    } catch (error) {
+      console.error("Error loading option groups:", error);
+    }
+  }, [restaurantId]);
+
+  useEffect(() => {
+    loadGroups();
+  }, [loadGroups]);
+
+  const handleSave = async () => {
+    if (groups.some((group) => !productOptionFormSchema.safeParse(group).success)) {
+      setShowErrors(true);
+      return;
+    }
+
+    const savedIds = new Set(savedGroups.map((group) => group.id));
+    const currentIds = new Set(groups.map((group) => group.id));
+    const removed = savedGroups.filter((group) => !currentIds.has(group.id));
+
+    if (removed.length > 0 && !canDelete) {
+      toast({
+        title: "Apenas administradores podem excluir grupos",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const mockService = createMockService(restaurantId);
+
+      for (const group of groups) {
+        const { id, ...data } = group;
+        const saved = savedGroups.find((savedGroup) => savedGroup.id === id);
+
+        if (!savedIds.has(id)) {
+          await mockService.createOptionGroup(data);
+        } else if (JSON.stringify(saved) !== JSON.stringify(group)) {
+          await mockService.updateOptionGroup(id, data);
+        }
+      }
+
+      for (const group of removed) {
+        await mockService.deleteOptionGroup(group.id);
+      }
+
+      setShowErrors(false);
+      await loadGroups();
+      toast({ title: "Grupos salvos", description: "Os produtos vinculados já usam a nova versão." });
+    } catch (error) {
+      console.error("Error saving option groups:", error);
+      toast({ title: "Não foi possível salvar", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Grupos de opções</h1>
+          <p className="text-sm text-muted-foreground">
+            Grupos compartilhados entre produtos. Vincule-os no cadastro de cada produto.
+          </p>
+        </div>
+        {canEdit && (
+          <Button className="btn-primary" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Salvando..." : "Salvar"}
+          </Button>
+        )}
+      </div>
+
+      <fieldset disabled={!canEdit} className="rounded-lg border bg-background p-4">
+        <ProductOptionsEditor
+          value={groups}
+          onChange={setGroups}
+          products={products}
+          showErrors={showErrors}
+        />
+      </fieldset>
+    </div>
+  );
+}
@@ -0,0 +1,421 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { OrderStatusBadge } from "@/components/admin/OrderStatusBadge";
+import { OrderStatusTimeline } from "@/components/admin/OrderStatusTimeline";
+import { PaymentDialog } from "@/components/admin/PaymentDialog";
+import { useToast } from "@/hooks/use-toast";
+import { hasRole, useAuthStore } from "@/lib/auth";
+import { createMockService, type OrderFilters } from "@/lib/mock-service";
+import {
+  ORDER_STATUS_LABELS,
+  TERMINAL_STATUSES,
+  canTransition,
+  getNextStatus,
+} from "@/lib/order-status";
+import {
+  getPaymentSummary,
+  paymentStatusLabels,
+  type BillSplitInput,
+  type PaymentInput,
+  type ServiceFeeInput,
+} from "@/lib/payments";
+import type { Order, OrderChannel, OrderStatus, Settings } from "@/lib/types";
+import { ChevronLeft, ChevronRight, History, Wallet, XCircle } from "lucide-react";
+
+const PAGE_SIZE = 20;
+const ALL = "all";
+
+const channelLabels: Record<OrderChannel, string> = {
+  dine_in: "Mesa",
+  takeaway: "Retirada",
+  delivery: "Delivery",
+};
+
+const formatPrice = (price: number) => `R$ ${(price / 100).toFixed(2)}`;
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function AdminOrdersPage() {
+  const user = useAuthStore((state) => state.user);
+  const restaurantId = user?.restaurantId ?? "demo-restaurant";
+  const { toast } = useToast();
+
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState<string>(ALL);
+  const [channel, setChannel] = useState<string>(ALL);
+  const [tableId, setTableId] = useState("");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+
+  const [historyOrder, setHistoryOrder] = useState<Order | null>(null);
+  const [cancelingOrder, setCancelingOrder] = useState<Order | null>(null);
+  const [cancelReason, setCancelReason] = useState("");
+  const [paymentOrderId, setPaymentOrderId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<Settings | null>(null);
+
+  useEffect(() => {
+    createMockService(restaurantId).getSettings().then(setSettings);
+  }, [restaurantId]);
+
+  // Live list, filtered like GET /orders
+  useEffect(() => {
+    const filters: OrderFilters = {
+      status: status === ALL ? undefined : (status as OrderStatus),
+      channel: channel === ALL ? undefined : (channel as OrderChannel),
+      tableId: tableId.trim() || undefined,
+      dateFrom: dateFrom ? new Date(`${dateFrom}T00:00:00`) : undefined,
+      dateTo: dateTo ? new Date(`${dateTo}T23:59:59`) : undefined,
+    };
+
+    setPage(1);
+    return createMockService(restaurantId).subscribeToOrders(setOrders, filters);
+  }, [restaurantId, status, channel, tableId, dateFrom, dateTo]);
+
+  const totalPages = Math.max(1, Math.ceil(orders.length / PAGE_SIZE));
+  const pageOrders = orders.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  const actor = user ? { userId: user.id, role: user.role } : undefined;
+
+  // Looked up in the live list so the dialog follows the payments as they are recorded
+  const paymentOrder = orders.find((order) => order.id === paymentOrderId) ?? null;
+
+  const handleAdvance = async (order: Order) => {
+    const nextStatus = getNextStatus(order.channel, order.status);
+    if (!nextStatus) return;
+
+    // Orders only close once fully paid, so take the payment first
+    if (nextStatus === "closed" && getPaymentSummary(order).balance > 0) {
+      setPaymentOrderId(order.id);
+      toast({ title: "Registre o pagamento antes de fechar o pedido" });
+      return;
+    }
+
+    try {
+      await createMockService(restaurantId).updateOrderStatus(order.id, nextStatus, { actor });
+    } catch (error) {
+      console.error("Error updating order status:", error);
+      toast({
+        title: "Não foi possível atualizar o pedido",
+        description: "O status do pedido mudou. Tente novamente.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!cancelingOrder) return;
+
+    try {
+      await createMockService(restaurantId).updateOrderStatus(cancelingOrder.id, "canceled", {
+        actor,
+        reason: cancelReason.trim() || undefined,
+        override: !canTransition(cancelingOrder.channel, cancelingOrder.status, "canceled"),
+      });
+      setCancelingOrder(null);
+      setCancelReason("");
+    } catch (error) {
+      console.error("Error canceling order:", error);
+      toast({
+        title: "Não foi possível cancelar o pedido",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAddPayment = async (input: PaymentInput) => {
+    if (!paymentOrderId) return;
+
+    try {
+      const payment = await createMockService(restaurantId).addPayment(paymentOrderId, input, actor);
+      toast({
+        title: "Pagamento registrado",
+        description: payment.changeDue ? `Troco: ${formatPrice(payment.changeDue)}` : undefined,
+      });
+    } catch (error) {
+      console.error("Error recording payment:", error);
+      toast({
+        title: "Não foi possível registrar o pagamento",
+        description: "Confira o valor que falta pagar e tente novamente.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleConfirmPix = async (input: Pick<PaymentInput, "amount" | "shareId">) => {
+    if (!paymentOrderId) return;
+
+    try {
+      await createMockService(restaurantId).confirmPixPayment(paymentOrderId, input, actor);
+      toast({ title: "Pix confirmado" });
+    } catch (error) {
+      console.error("Error confirming Pix payment:", error);
+      toast({
+        title: "Não foi possível confirmar o Pix",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSplitBill = async (input: BillSplitInput) => {
+    if (!paymentOrderId) return;
+
+    try {
+      await createMockService(restaurantId).splitBill(paymentOrderId, input);
+    } catch (error) {
+      console.error("Error splitting bill:", error);
+      toast({
+        title: "Não foi possível dividir a conta",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAdjustServiceFee = async (input: ServiceFeeInput) => {
+    if (!paymentOrderId) return;
+
+    try {
+      await createMockService(restaurantId).adjustServiceFee(paymentOrderId, input, actor);
+      toast({ title: input.amount === 0 ? "Taxa de serviço removida" : "Taxa de serviço ajustada" });
+    } catch (error) {
+      console.error("Error adjusting service fee:", error);
+      toast({
+        title: "Não foi possível alterar a taxa de serviço",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Cancel is free before preparation; afterwards only managers can override
+  const canCancel = (order: Order) =>
+    !TERMINAL_STATUSES.includes(order.status) &&
+    (canTransition(order.channel, order.status, "canceled") || hasRole(user, "admin", "manager"));
+
+  return (
+    <div className="space-y-4">
+      <h1 className="text-2xl font-bold">Pedidos</h1>
+
+      <div className="grid gap-3 rounded-lg border bg-background p-4 sm:grid-cols-2 lg:grid-cols-5">
+        <div className="space-y-1">
+          <Label>Status</Label>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todos</SelectItem>
+              {(Object.keys(ORDER_STATUS_LABELS) as OrderStatus[]).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {ORDER_STATUS_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Canal</Label>
+          <Select value={channel} onValueChange={setChannel}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todos</SelectItem>
+              {(Object.keys(channelLabels) as OrderChannel[]).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {channelLabels[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-table">Mesa</Label>
+          <Input
+            id="filter-table"
+            placeholder="Ex.: 05"
+            value={tableId}
+            onChange={(e) => setTableId(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-from">De</Label>
+          <Input id="filter-from" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-to">Até</Label>
+          <Input id="filter-to" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="rounded-lg border bg-background">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Pedido</TableHead>
+              <TableHead>Data</TableHead>
+              <TableHead>Canal</TableHead>
+              <TableHead>Cliente</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead>Pagamento</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pageOrders.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="py-8 text-center text-muted-foreground">
+                  Nenhum pedido encontrado
+                </TableCell>
+              </TableRow>
+            ) : (
+              pageOrders.map((order) => {
+                const nextStatus = getNextStatus(order.channel, order.status);
+                const paymentStatus = getPaymentSummary(order).status;
+
+                return (
+                  <TableRow key={order.id}>
+                    <TableCell className="font-medium">#{order.orderCode ?? order.orderNumber}</TableCell>
+                    <TableCell>{formatDateTime(order.createdAt)}</TableCell>
+                    <TableCell>
+                      {channelLabels[order.channel]}
+                      {order.tableId && ` ${order.tableId}`}
+                    </TableCell>
+                    <TableCell>{order.customer?.name ?? "-"}</TableCell>
+                    <TableCell className="text-right">{formatPrice(order.amounts.total)}</TableCell>
+                    <TableCell className={paymentStatus === "paid" ? "" : "text-muted-foreground"}>
+                      {paymentStatusLabels[paymentStatus]}
+                    </TableCell>
+                    <TableCell>
+                      <OrderStatusBadge status={order.status} size="sm" />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        {nextStatus && (
+                          <Button size="sm" variant="outline" onClick={() => handleAdvance(order)}>
+                            {ORDER_STATUS_LABELS[nextStatus]}
+                          </Button>
+                        )}
+                        {!TERMINAL_STATUSES.includes(order.status) && (
+                          <Button size="sm" variant="ghost" onClick={() => setPaymentOrderId(order.id)}>
+                            <Wallet className="w-4 h-4" />
+                          </Button>
+                        )}
+                        <Button size="sm" variant="ghost" onClick={() => setHistoryOrder(order)}>
+                          <History className="w-4 h-4" />
+                        </Button>
+                        {canCancel(order) && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => setCancelingOrder(order)}
+                          >
+                            <XCircle className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-end gap-2 text-sm">
+        <span>
+          Página {page} de {totalPages}
+        </span>
+        <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <Button size="sm" variant="outline" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <Dialog open={!!historyOrder} onOpenChange={(open) => !open && setHistoryOrder(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Histórico do pedido #{historyOrder?.orderCode ?? historyOrder?.orderNumber}</DialogTitle>
+          </DialogHeader>
+          {historyOrder && <OrderStatusTimeline history={historyOrder.statusHistory ?? []} />}
+        </DialogContent>
+      </Dialog>
+
+      <PaymentDialog
+        restaurantId={restaurantId}
+        order={paymentOrder}
+        pixEnabled={!!settings?.pix.enabled}
+        onOpenChange={(open) => !open && setPaymentOrderId(null)}
+        onAddPayment={handleAddPayment}
+        onConfirmPix={handleConfirmPix}
+        onSplitBill={handleSplitBill}
+        onAdjustServiceFee={handleAdjustServiceFee}
+      />
+
+      <Dialog open={!!cancelingOrder} onOpenChange={(open) => !open && setCancelingOrder(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancelar pedido #{cancelingOrder?.orderCode ?? cancelingOrder?.orderNumber}</DialogTitle>
+            {cancelingOrder && !canTransition(cancelingOrder.channel, cancelingOrder.status, "canceled") && (
+              <DialogDescription>
+                O preparo já começou. O cancelamento será registrado como exceção do gerente.
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="cancel-reason">Motivo</Label>
+            <Textarea
+              id="cancel-reason"
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelingOrder(null)}>
+              Voltar
+            </Button>
+            <Button variant="destructive" onClick={handleCancel}>
+              Cancelar pedido
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ProductFormDialog } from "@/components/admin/ProductFormDialog";
+import { useToast } from "@/hooks/use-toast";
+import { hasRole, useAuthStore } from "@/lib/auth";
+import { createMockService } from "@/lib/mock-service";
+import type { ProductFormValues } from "@/lib/schemas";
+import type { Category, OptionGroup, Product } from "@/lib/types";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+
+const formatPrice = (price: number) => `R$ ${(price / 100).toFixed(2)}`;
+
+export default function AdminProductsPage() {
+  const user = useAuthStore((state) => state.user);
+  const restaurantId = user?.restaurantId ?? "demo-restaurant";
+  const canEdit = hasRole(user, "admin", "manager");
+  const canDelete = hasRole(user, "admin");
+  const { toast } = useToast();
+
+  const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [optionGroups, setOptionGroups] = useState<OptionGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [deletingProduct, setDeletingProduct] = useState<Product | null>(null);
+
+  const loadProducts = useCallback(async () => {
+    try {
+      const mockService = createMockService(restaurantId);
+      setProducts(await mockService.getAllProducts());
+      setCategories(await mockService.getCategories());
+      setOptionGroups(await mockService.getOptionGroups());
+    } catch (error) {
+      console.error("Error loading products:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [restaurantId]);
+
+  useEffect(() => {
+    loadProducts();
+  }, [loadProducts]);
+
+  const runUpdate = async (update: () => Promise<unknown>) => {
+    try {
+      await update();
+      await loadProducts();
+    } catch (error) {
+      console.error("Error updating product:", error);
+      toast({
+        title: "Não foi possível salvar o produto",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = async (values: ProductFormValues) => {
+    const mockService = createMockService(restaurantId);
+    const data = { ...values, imageUrl: values.imageUrl || undefined };
+
+    await runUpdate(() =>
+      editingProduct
+        ? mockService.updateProduct(editingProduct.id, data)
+        : mockService.createProduct(data)
+    );
+    setIsFormOpen(false);
+  };
+
+  const openForm = (product: Product | null) => {
+    setEditingProduct(product);
+    setIsFormOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!deletingProduct) return;
+    await runUpdate(() => createMockService(restaurantId).deleteProduct(deletingProduct.id));
+    setDeletingProduct(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Produtos</h1>
+        {canEdit && (
+          <Button className="btn-primary" onClick={() => openForm(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Novo produto
+          </Button>
+        )}
+      </div>
+
+      <div className="rounded-lg border bg-background">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Produto</TableHead>
+              <TableHead>Categoria</TableHead>
+              <TableHead className="text-right">Preço</TableHead>
+              <TableHead className="text-center">Disponível</TableHead>
+              <TableHead className="text-center">Destaque</TableHead>
+              <TableHead className="text-center">Prato do dia</TableHead>
+              <TableHead className="text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="py-8 text-center text-muted-foreground">
+                  Carregando produtos...
+                </TableCell>
+              </TableRow>
+            ) : (
+              products.map((product) => (
+                <TableRow key={product.id}>
+                  <TableCell className="font-medium">
+                    {product.name}
+                    {product.available && product.availableNow === false && (
+                      <span className="block text-xs font-normal text-muted-foreground">Fora do horário de venda</span>
+                    )}
+                    {product.soldOut && (
+                      <span className="block text-xs font-normal text-destructive">Esgotado</span>
+                    )}
+                    {product.stock !== undefined && !product.soldOut && (
+                      <span className="block text-xs font-normal text-muted-foreground">
+                        {product.stock} em estoque
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>{product.category}</TableCell>
+                  <TableCell className="text-right">{formatPrice(product.price)}</TableCell>
+                  <TableCell className="text-center">
+                    <Switch
+                      checked={product.available}
+                      onCheckedChange={(checked) =>
+                        runUpdate(() =>
+                          createMockService(restaurantId).updateProductAvailability(product.id, checked)
+                        )
+                      }
+                    />
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <Switch
+                      checked={!!product.isHighlighted}
+                      disabled={!canEdit}
+                      onCheckedChange={(checked) =>
+                        runUpdate(() =>
+                          createMockService(restaurantId).updateProductHighlight(product.id, checked)
+                        )
+                      }
+                    />
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <Switch
+                      checked={!!product.isDaySpecial}
+                      // Rotated by specialDays, the manual flag has no effect
+                      disabled={!canEdit || !!product.specialDays?.length}
+                      onCheckedChange={(checked) =>
+                        runUpdate(() =>
+                          createMockService(restaurantId).updateProductDaySpecial(product.id, checked)
+                        )
+                      }
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      {canEdit && (
+                        <Button size="sm" variant="ghost" onClick={() => openForm(product)}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {canDelete && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => setDeletingProduct(product)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <ProductFormDialog
+        open={isFormOpen}
+        product={editingProduct}
+        categories={categories}
+        products={products}
+        optionGroups={optionGroups}
+        onOpenChange={setIsFormOpen}
+        onSubmit={handleSubmit}
+      />
+
+      <AlertDialog open={!!deletingProduct} onOpenChange={(open) => !open && setDeletingProduct(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir {deletingProduct?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              O produto sai do cardápio. Pedidos antigos não são alterados.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Excluir</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
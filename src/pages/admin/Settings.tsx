@@ -0,0 +1,295 @@
+import { useEffect, useState } from "react";
+import QRCode from "react-qr-code";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { OpeningHoursEditor } from "@/components/admin/OpeningHoursEditor";
+import { useToast } from "@/hooks/use-toast";
+import { hasRole, useAuthStore } from "@/lib/auth";
+import { createMockService } from "@/lib/mock-service";
+import { buildPixPayload } from "@/lib/pix";
+import type { OrderChannel, Settings } from "@/lib/types";
+
+const prefixLabels: Record<OrderChannel, string> = {
+  dine_in: "Mesa",
+  takeaway: "Retirada",
+  delivery: "Delivery",
+};
+
+export default function AdminSettingsPage() {
+  const user = useAuthStore((state) => state.user);
+  const restaurantId = user?.restaurantId ?? "demo-restaurant";
+  const canEdit = hasRole(user, "admin", "manager");
+  const { toast } = useToast();
+
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    createMockService(restaurantId).getSettings().then(setSettings);
+  }, [restaurantId]);
+
+  if (!settings) {
+    return <p className="text-muted-foreground">Carregando configurações...</p>;
+  }
+
+  const update = <K extends keyof Settings>(key: K, value: Partial<Settings[K]>) => {
+    setSettings({ ...settings, [key]: { ...(settings[key] as object), ...value } });
+  };
+
+  const { pix } = settings;
+  // Static code with no amount, for the counter or the menu
+  const staticPixPayload =
+    pix.key && pix.merchantName && pix.merchantCity
+      ? buildPixPayload({ key: pix.key, merchantName: pix.merchantName, merchantCity: pix.merchantCity })
+      : null;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      setSettings(await createMockService(restaurantId).updateSettings(settings));
+      toast({ title: "Configurações salvas" });
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      toast({ title: "Não foi possível salvar", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl space-y-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Configurações</h1>
+        {canEdit && (
+          <Button className="btn-primary" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Salvando..." : "Salvar"}
+          </Button>
+        )}
+      </div>
+
+      <fieldset disabled={!canEdit} className="space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Canais</CardTitle>
+            <CardDescription>Taxas aplicadas aos pedidos de cada canal</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="service-fee">Taxa de serviço no local (%)</Label>
+                <Input
+                  id="service-fee"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={settings.dineIn.serviceFeePercent ?? 0}
+                  onChange={(e) => update("dineIn", { serviceFeePercent: Number(e.target.value) })}
+                />
+              </div>
+              <div className="flex items-center gap-2 pt-6">
+                <Switch
+                  id="pickup-enabled"
+                  checked={settings.pickup.enabled}
+                  onCheckedChange={(enabled) => update("pickup", { enabled })}
+                />
+                <Label htmlFor="pickup-enabled">Aceitar retirada</Label>
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="delivery-enabled"
+                  checked={settings.delivery.enabled}
+                  onCheckedChange={(enabled) => update("delivery", { enabled })}
+                />
+                <Label htmlFor="delivery-enabled">Aceitar delivery</Label>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="delivery-fee">Taxa de entrega (R$)</Label>
+                <Input
+                  id="delivery-fee"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={settings.delivery.feeValue / 100}
+                  onChange={(e) => update("delivery", { feeValue: Math.round(Number(e.target.value) * 100) })}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Pedidos</CardTitle>
+            <CardDescription>Numeração e previsão de preparo</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="prep-time">Tempo de preparo (min)</Label>
+                <Input
+                  id="prep-time"
+                  type="number"
+                  min="1"
+                  value={settings.prepTimeMinutes}
+                  onChange={(e) => setSettings({ ...settings, prepTimeMinutes: Number(e.target.value) })}
+                />
+              </div>
+              <div className="flex items-center gap-2 pt-6">
+                <Switch
+                  id="reset-daily"
+                  checked={settings.orderNumbers.resetDaily}
+                  onCheckedChange={(resetDaily) => update("orderNumbers", { resetDaily })}
+                />
+                <Label htmlFor="reset-daily">Reiniciar numeração todo dia</Label>
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              {(Object.keys(prefixLabels) as OrderChannel[]).map((channel) => (
+                <div key={channel} className="space-y-2">
+                  <Label htmlFor={`prefix-${channel}`}>Prefixo {prefixLabels[channel]}</Label>
+                  <Input
+                    id={`prefix-${channel}`}
+                    maxLength={3}
+                    value={settings.orderNumbers.prefixes?.[channel] ?? ""}
+                    onChange={(e) =>
+                      update("orderNumbers", {
+                        prefixes: {
+                          ...settings.orderNumbers.prefixes,
+                          [channel]: e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, ""),
+                        },
+                      })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Horário de funcionamento</CardTitle>
+            <CardDescription>
+              Fora do horário os canais recusam pedidos, exceto os agendados para a próxima abertura
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <OpeningHoursEditor
+              value={settings.openingHours}
+              onChange={(openingHours) => setSettings({ ...settings, openingHours })}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Pix</CardTitle>
+            <CardDescription>
+              Os clientes pagam pelo QR Code do pedido e a equipe confirma o recebimento na tela de pedidos
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="pix-enabled"
+                checked={pix.enabled}
+                onCheckedChange={(enabled) => update("pix", { enabled })}
+              />
+              <Label htmlFor="pix-enabled">Aceitar Pix</Label>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="pix-key">Chave Pix</Label>
+                <Input
+                  id="pix-key"
+                  placeholder="CPF, CNPJ, e-mail, +55... ou aleatória"
+                  maxLength={77}
+                  value={pix.key ?? ""}
+                  onChange={(e) => update("pix", { key: e.target.value || undefined })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pix-name">Nome do recebedor</Label>
+                <Input
+                  id="pix-name"
+                  maxLength={25}
+                  value={pix.merchantName ?? ""}
+                  onChange={(e) => update("pix", { merchantName: e.target.value || undefined })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pix-city">Cidade</Label>
+                <Input
+                  id="pix-city"
+                  maxLength={15}
+                  value={pix.merchantCity ?? ""}
+                  onChange={(e) => update("pix", { merchantCity: e.target.value || undefined })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pix-location-host">Host do PSP (Pix dinâmico)</Label>
+              <Input
+                id="pix-location-host"
+                placeholder="pix.seupsp.com.br"
+                value={pix.locationHost ?? ""}
+                onChange={(e) => update("pix", { locationHost: e.target.value.trim().toLowerCase() || undefined })}
+              />
+              <p className="text-sm text-muted-foreground">
+                Opcional. Cobranças dinâmicas só aceitam URLs de cobrança deste host.
+              </p>
+            </div>
+            {pix.enabled && staticPixPayload && (
+              <div className="flex items-center gap-4">
+                <div className="rounded-lg bg-white p-2">
+                  <QRCode value={staticPixPayload} size={96} />
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  QR Code estático, sem valor: o cliente digita o valor no app do banco.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">WhatsApp</CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-2">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="whatsapp-enabled"
+                checked={settings.whatsapp.enabled}
+                onCheckedChange={(enabled) => update("whatsapp", { enabled })}
+              />
+              <Label htmlFor="whatsapp-enabled">Ativar WhatsApp</Label>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="whatsapp-phone">Telefone (E.164)</Label>
+              <Input
+                id="whatsapp-phone"
+                placeholder="+5534999999999"
+                value={settings.whatsapp.phoneE164 ?? ""}
+                onChange={(e) => update("whatsapp", { phoneE164: e.target.value || undefined })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+      </fieldset>
+    </div>
+  );
+}
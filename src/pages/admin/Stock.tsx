@@ -0,0 +1,258 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  StockAdjustmentDialog,
+  type StockTargetOption,
+} from "@/components/admin/StockAdjustmentDialog";
+import { useToast } from "@/hooks/use-toast";
+import { hasRole, useAuthStore } from "@/lib/auth";
+import { createMockService, type StockAdjustmentInput } from "@/lib/mock-service";
+import type {
+  OptionGroup,
+  Product,
+  StockAdjustment,
+  StockAdjustmentReason,
+  StockLevel,
+} from "@/lib/types";
+import { Plus } from "lucide-react";
+
+const reasonLabels: Record<StockAdjustmentReason, string> = {
+  order: "Pedido",
+  cancel: "Cancelamento",
+  restock: "Reposição",
+  count: "Contagem",
+  waste: "Perda",
+};
+
+// Products and choices that could start being counted
+const getUntrackedTargets = (products: Product[], optionGroups: OptionGroup[]): StockTargetOption[] => [
+  ...products.flatMap((product) => [
+    ...(product.stock === undefined ? [{ productId: product.id, name: product.name }] : []),
+    ...(product.options ?? [])
+      .filter((option) => !product.optionGroupIds?.includes(option.id))
+      .flatMap((option) =>
+        option.choices
+          .filter((choice) => choice.stock === undefined)
+          .map((choice) => ({
+            productId: product.id,
+            optionId: option.id,
+            choiceId: choice.id,
+            name: `${product.name} · ${choice.name}`,
+          }))
+      ),
+  ]),
+  ...optionGroups.flatMap((group) =>
+    group.choices
+      .filter((choice) => choice.stock === undefined)
+      .map((choice) => ({ optionGroupId: group.id, choiceId: choice.id, name: `${group.name} · ${choice.name}` }))
+  ),
+];
+
+export default function AdminStockPage() {
+  const user = useAuthStore((state) => state.user);
+  const restaurantId = user?.restaurantId ?? "demo-restaurant";
+  const canEdit = hasRole(user, "admin", "manager");
+  const { toast } = useToast();
+
+  const [levels, setLevels] = useState<StockLevel[]>([]);
+  const [adjustments, setAdjustments] = useState<StockAdjustment[]>([]);
+  const [untracked, setUntracked] = useState<StockTargetOption[]>([]);
+  const [lowOnly, setLowOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [editingLevel, setEditingLevel] = useState<StockLevel | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const loadStock = useCallback(async () => {
+    const mockService = createMockService(restaurantId);
+    try {
+      setLevels(await mockService.getStockLevels({ low: lowOnly }));
+
+      if (canEdit) {
+        const [log, products, optionGroups] = await Promise.all([
+          mockService.getStockAdjustments(),
+          mockService.getAllProducts(),
+          mockService.getOptionGroups(),
+        ]);
+        setAdjustments(log);
+        setUntracked(getUntrackedTargets(products, optionGroups));
+      }
+    } catch (error) {
+      console.error("Error loading stock:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [restaurantId, canEdit, lowOnly]);
+
+  useEffect(() => {
+    loadStock();
+  }, [loadStock]);
+
+  const openDialog = (level: StockLevel | null) => {
+    setEditingLevel(level);
+    setIsDialogOpen(true);
+  };
+
+  const handleAdjust = async (adjustment: StockAdjustmentInput) => {
+    try {
+      await createMockService(restaurantId).adjustStock(
+        adjustment,
+        user ? { userId: user.id, role: user.role } : undefined
+      );
+      setIsDialogOpen(false);
+      await loadStock();
+    } catch (error) {
+      console.error("Error adjusting stock:", error);
+      toast({
+        title: "Não foi possível ajustar o estoque",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatDelta = (adjustment: StockAdjustment) =>
+    adjustment.quantity === null ? "—" : adjustment.delta > 0 ? `+${adjustment.delta}` : `${adjustment.delta}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h1 className="text-2xl font-bold">Estoque</h1>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="low-only" checked={lowOnly} onCheckedChange={setLowOnly} />
+            <Label htmlFor="low-only">Só estoque baixo</Label>
+          </div>
+          {canEdit && (
+            <Button className="btn-primary" onClick={() => openDialog(null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Controlar item
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="rounded-lg border bg-background">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Item</TableHead>
+              <TableHead className="text-right">Estoque</TableHead>
+              <TableHead className="text-right">Alerta</TableHead>
+              <TableHead className="text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={4} className="py-8 text-center text-muted-foreground">
+                  Carregando estoque...
+                </TableCell>
+              </TableRow>
+            ) : levels.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="py-8 text-center text-muted-foreground">
+                  {lowOnly ? "Nenhum item com estoque baixo." : "Nenhum item com estoque controlado."}
+                </TableCell>
+              </TableRow>
+            ) : (
+              levels.map((level) => (
+                <TableRow
+                  key={[level.productId, level.optionGroupId, level.optionId, level.choiceId].join("/")}
+                  className={level.low ? "bg-destructive/5" : undefined}
+                >
+                  <TableCell className="font-medium">
+                    {level.name}
+                    {level.stock === 0 ? (
+                      <Badge variant="destructive" className="ml-2">Esgotado</Badge>
+                    ) : (
+                      level.low && <Badge variant="outline" className="ml-2 border-destructive text-destructive">Baixo</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{level.stock}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">{level.lowStockThreshold ?? "—"}</TableCell>
+                  <TableCell className="text-right">
+                    {canEdit && (
+                      <Button size="sm" variant="outline" onClick={() => openDialog(level)}>
+                        Ajustar
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {canEdit && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Movimentações</CardTitle>
+            <CardDescription>Pedidos, cancelamentos e ajustes manuais, dos mais recentes</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {adjustments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhuma movimentação registrada.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Motivo</TableHead>
+                    <TableHead className="text-right">Variação</TableHead>
+                    <TableHead className="text-right">Saldo</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {adjustments.map((adjustment) => (
+                    <TableRow key={adjustment.id}>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {adjustment.createdAt.toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })}
+                      </TableCell>
+                      <TableCell>{adjustment.name}</TableCell>
+                      <TableCell>
+                        {reasonLabels[adjustment.reason]}
+                        {adjustment.note && (
+                          <span className="block text-xs text-muted-foreground">{adjustment.note}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatDelta(adjustment)}</TableCell>
+                      <TableCell className="text-right">{adjustment.quantity ?? "Sem controle"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <StockAdjustmentDialog
+        open={isDialogOpen}
+        level={editingLevel}
+        untracked={untracked}
+        onOpenChange={setIsDialogOpen}
+        onSubmit={handleAdjust}
+      />
+    </div>
+  );
+}
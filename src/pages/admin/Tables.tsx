@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { QRCodeGenerator } from "@/components/QRCodeGenerator";
+import { useToast } from "@/hooks/use-toast";
+import { hasRole, useAuthStore } from "@/lib/auth";
+import { createMockService } from "@/lib/mock-service";
+import { tableFormSchema } from "@/lib/schemas";
+import type { Table } from "@/lib/types";
+import { Plus } from "lucide-react";
+
+export default function AdminTablesPage() {
+  const user = useAuthStore((state) => state.user);
+  const restaurantId = user?.restaurantId ?? "demo-restaurant";
+  const canEdit = hasRole(user, "admin", "manager");
+  const { toast } = useToast();
+
+  const [tables, setTables] = useState<Table[]>([]);
+  const [newNumber, setNewNumber] = useState("");
+
+  const loadTables = useCallback(async () => {
+    try {
+      setTables(await createMockService(restaurantId).getTables());
+    } catch (error) {
+      console.error("Error loading tables:", error);
+    }
+  }, [restaurantId]);
+
+  useEffect(() => {
+    loadTables();
+  }, [loadTables]);
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const result = tableFormSchema.safeParse({ number: newNumber.trim() });
+    if (!result.success) {
+      toast({ title: result.error.issues[0].message, variant: "destructive" });
+      return;
+    }
+
+    try {
+      await createMockService(restaurantId).createTable(result.data.number);
+      setNewNumber("");
+      await loadTables();
+    } catch (error) {
+      console.error("Error creating table:", error);
+      toast({
+        title: "Não foi possível criar a mesa",
+        description: `A mesa ${result.data.number} já existe.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleActive = async (table: Table, active: boolean) => {
+    try {
+      await createMockService(restaurantId).updateTable(table.id, { active });
+      await loadTables();
+    } catch (error) {
+      console.error("Error updating table:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h1 className="text-2xl font-bold">Mesas</h1>
+        {canEdit && (
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <Input
+              placeholder="Número da mesa"
+              value={newNumber}
+              onChange={(e) => setNewNumber(e.target.value)}
+              className="w-40"
+            />
+            <Button type="submit" className="btn-primary">
+              <Plus className="w-4 h-4 mr-2" />
+              Adicionar
+            </Button>
+          </form>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {tables.map((table) => (
+          <div key={table.id} className={`space-y-2 ${table.active ? "" : "opacity-60"}`}>
+            <div className="flex items-center justify-between">
+              {table.active ? (
+                <Badge className="bg-success text-success-foreground">Ativa</Badge>
+              ) : (
+                <Badge variant="outline">Desativada</Badge>
+              )}
+              {canEdit && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`active-${table.id}`}
+                    checked={table.active}
+                    onCheckedChange={(checked) => handleToggleActive(table, checked)}
+                  />
+                  <Label htmlFor={`active-${table.id}`}>Ativa</Label>
+                </div>
+              )}
+            </div>
+            <QRCodeGenerator restaurantSlug={restaurantId} tableNumber={table.number} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}